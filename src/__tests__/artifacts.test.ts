@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildUploadPayload, collectSourceMaps, getReleaseDirectory, writeArtifacts } from '../sourcemaps/artifacts';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'sourcemaps');
+
+describe('source map artifacts', () => {
+  let buildDir: string;
+
+  beforeEach(() => {
+    buildDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-build-'));
+    fs.mkdirSync(path.join(buildDir, 'static', 'js'), { recursive: true });
+    for (const file of ['app.min.js', 'app.min.js.map']) {
+      fs.copyFileSync(path.join(FIXTURES, file), path.join(buildDir, 'static', 'js', file));
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(buildDir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, content: string) => {
+    fs.writeFileSync(path.join(buildDir, file), content);
+  };
+
+  describe('collectSourceMaps', () => {
+    it('finds maps in nested directories and accepts one that matches its bundle', async () => {
+      fs.mkdirSync(path.join(buildDir, 'node_modules', 'dep'), { recursive: true });
+      fs.copyFileSync(path.join(FIXTURES, 'app.min.js.map'), path.join(buildDir, 'node_modules', 'dep', 'index.js.map'));
+
+      const artifacts = await collectSourceMaps(buildDir);
+
+      expect(artifacts).toEqual([{
+        name: 'static/js/app.min.js.map',
+        mapPath: path.join(buildDir, 'static', 'js', 'app.min.js.map'),
+        bundlePath: path.join(buildDir, 'static', 'js', 'app.min.js'),
+        errors: [],
+      }]);
+    });
+
+    it('reports maps that are malformed, have no bundle or belong to another build', async () => {
+      write('broken.js.map', '{"version":3');
+      write('broken.js', 'throw 1;\n');
+      write('orphan.js.map', JSON.stringify({ version: 3, sources: [], mappings: '' }));
+      write('other.js', 'a();\n//# sourceMappingURL=main.js.map\n');
+      write('other.js.map', JSON.stringify({ version: 3, file: 'main.js', sources: ['a.js'], mappings: 'AAAA;AACA;AACA;AACA' }));
+
+      const errors = Object.fromEntries((await collectSourceMaps(buildDir)).map(artifact => [artifact.name, artifact.errors]));
+
+      expect(errors['broken.js.map']).toEqual([expect.stringContaining('Invalid source map')]);
+      expect(errors['orphan.js.map']).toEqual(['Bundle orphan.js not found next to the map']);
+      expect(errors['other.js.map']).toEqual([
+        'Map is for "main.js", not other.js',
+        'Bundle references "main.js.map" instead of other.js.map',
+        'Map has mappings for 4 lines but the bundle has 3; it is likely from a different build',
+      ]);
+      expect(errors['static/js/app.min.js.map']).toEqual([]);
+    });
+  });
+
+  it('stores maps and bundles for a release with a manifest', async () => {
+    const storeDir = path.join(buildDir, 'store');
+    const artifacts = await collectSourceMaps(path.join(buildDir, 'static'));
+
+    const releaseDir = await writeArtifacts(storeDir, 'web@1.0.0+abc/1', artifacts);
+
+    expect(releaseDir).toBe(getReleaseDirectory(storeDir, 'web@1.0.0+abc/1'));
+    expect(path.basename(releaseDir)).toBe('web@1.0.0+abc_1');
+    expect(fs.readFileSync(path.join(releaseDir, 'js', 'app.min.js'), 'utf8')).toContain('function greet');
+    expect(JSON.parse(fs.readFileSync(path.join(releaseDir, 'manifest.json'), 'utf8'))).toMatchObject({
+      release: 'web@1.0.0+abc/1',
+      files: [{ bundle: 'js/app.min.js', map: 'js/app.min.js.map' }],
+    });
+  });
+
+  it('builds the upload payload with every map', async () => {
+    const artifacts = await collectSourceMaps(buildDir);
+
+    const payload = await buildUploadPayload('1.0.0', artifacts, { accessToken: 'token', environment: 'production' });
+
+    expect(payload).toMatchObject({
+      event: 'sourcemaps.upload',
+      source: 'wingman-cli',
+      data: {
+        accessToken: 'token',
+        environment: 'production',
+        release: '1.0.0',
+        files: [{ name: 'static/js/app.min.js.map', map: fs.readFileSync(path.join(FIXTURES, 'app.min.js.map'), 'utf8') }],
+      },
+    });
+  });
+});
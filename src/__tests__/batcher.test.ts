@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ReportBatcher } from '../batcher';
+
+describe('ReportBatcher', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('flushes once maxBatchSize items are buffered', () => {
+    const batches: number[][] = [];
+    const batcher = new ReportBatcher<number>(items => { batches.push(items); }, { maxBatchSize: 3 });
+
+    batcher.add(1);
+    batcher.add(2);
+    expect(batches).toEqual([]);
+    batcher.add(3);
+
+    expect(batches).toEqual([[1, 2, 3]]);
+    expect(batcher.size()).toBe(0);
+  });
+
+  it('flushes after flushIntervalMs counted from the first buffered item', () => {
+    const batches: number[][] = [];
+    const batcher = new ReportBatcher<number>(items => { batches.push(items); }, { flushIntervalMs: 1000 });
+
+    batcher.add(1);
+    jest.advanceTimersByTime(600);
+    batcher.add(2);
+    jest.advanceTimersByTime(399);
+    expect(batches).toEqual([]);
+    jest.advanceTimersByTime(1);
+
+    expect(batches).toEqual([[1, 2]]);
+  });
+
+  it('drain returns the buffer without calling onFlush and cancels the timer', () => {
+    const onFlush = jest.fn<(items: number[]) => void>();
+    const batcher = new ReportBatcher<number>(onFlush, { flushIntervalMs: 1000 });
+
+    batcher.add(1);
+    expect(batcher.drain()).toEqual([1]);
+    jest.advanceTimersByTime(1000);
+
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+
+  it('does not call onFlush for an empty buffer', async () => {
+    const onFlush = jest.fn<(items: number[]) => void>();
+    await new ReportBatcher<number>(onFlush).flush();
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager, createInlineConfig, mergeConfig, resolveProfile, setConfigValue, unsetConfigValue } from '../config';
+import { parseConfigValue } from '../configSchema';
+import { CURRENT_SCHEMA_VERSION, migrateConfig } from '../configMigrations';
+import { setPlatform } from '../platform';
+import { nodePlatform } from '../nodePlatform';
+
+setPlatform(nodePlatform);
+
+const ENV_KEYS = ['WINGMAN_ENV', 'NODE_ENV', 'WINGMAN_ACCESS_TOKEN', 'WINGMAN_ENVIRONMENT', 'WINGMAN_WEBHOOK_URL', 'WINGMAN_ENABLED', 'WINGMAN_SAMPLE_RATE', 'WINGMAN_SAMPLE_RATE_LOW', 'WINGMAN_RELEASE'];
+
+describe('ConfigManager', () => {
+  let projectPath: string;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-config-'));
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    }
+  });
+
+  const writeConfig = (file: Record<string, unknown>) => {
+    fs.writeFileSync(path.join(projectPath, '.wingman.json'), JSON.stringify(file));
+  };
+
+  it('returns null without a file or token', async () => {
+    await expect(new ConfigManager(projectPath).load()).resolves.toBeNull();
+  });
+
+  it('layers profile over defaults, environment over file and options over environment', async () => {
+    writeConfig({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      accessToken: 'file-token',
+      sampleRates: { low: 0.5, high: 1 },
+      queue: { maxSize: 10 },
+      profiles: { staging: { sampleRates: { low: 0.1 } } },
+    });
+    process.env.WINGMAN_ENV = 'staging';
+    process.env.WINGMAN_SAMPLE_RATE_LOW = '0.2';
+
+    const manager = new ConfigManager({ projectPath, overrides: { queue: { maxSize: 50 } } });
+    const config = await manager.load();
+
+    expect(config).toMatchObject({
+      accessToken: 'file-token',
+      environment: 'staging',
+      sampleRates: { low: 0.2, high: 1 },
+      queue: { maxSize: 50 },
+    });
+    expect(manager.getProfile()).toBe('staging');
+    expect(manager.getSources()).toMatchObject({
+      accessToken: 'file',
+      environment: 'profile',
+      'sampleRates.low': 'env',
+      'sampleRates.high': 'file',
+      'queue.maxSize': 'options',
+    });
+  });
+
+  it('falls back to the defaults for a profile selected through NODE_ENV that does not exist', async () => {
+    writeConfig({ schemaVersion: CURRENT_SCHEMA_VERSION, accessToken: 'token', profiles: { production: {} } });
+    process.env.NODE_ENV = 'test';
+
+    const manager = new ConfigManager(projectPath);
+    await expect(manager.load()).resolves.toMatchObject({ accessToken: 'token' });
+    expect(manager.getProfile()).toBeUndefined();
+  });
+
+  it('refuses an explicitly requested profile that does not exist', async () => {
+    writeConfig({ schemaVersion: CURRENT_SCHEMA_VERSION, accessToken: 'token', profiles: { production: {} } });
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(new ConfigManager(projectPath, 'staging').load()).resolves.toBeNull();
+    expect(error).toHaveBeenCalledWith('Failed to load Wingman config:', expect.stringContaining('Profile "staging" not found'));
+  });
+
+  it('reads a config from the environment alone', async () => {
+    process.env.WINGMAN_ACCESS_TOKEN = 'env-token';
+    process.env.WINGMAN_ENABLED = 'false';
+
+    await expect(new ConfigManager(projectPath).load()).resolves.toMatchObject({ accessToken: 'env-token', enabled: false });
+  });
+
+  it('reads the release from WINGMAN_RELEASE over the file', async () => {
+    writeConfig({ schemaVersion: CURRENT_SCHEMA_VERSION, accessToken: 'token', release: '1.0.0' });
+    process.env.WINGMAN_RELEASE = '1.0.1+abc1234';
+
+    const manager = new ConfigManager(projectPath);
+    await expect(manager.load()).resolves.toMatchObject({ release: '1.0.1+abc1234' });
+    expect(manager.getSources().release).toBe('env');
+  });
+
+  it('derives the release to inline from package.json at build time', async () => {
+    fs.writeFileSync(path.join(projectPath, 'package.json'), JSON.stringify({ name: 'storefront', version: '2.0.0' }));
+
+    const inline = await createInlineConfig({ projectPath, overrides: { accessToken: 'token' } });
+
+    expect(inline).toMatchObject({ accessToken: 'token', release: '2.0.0', projectInfo: { name: 'storefront', version: '2.0.0' } });
+    expect(inline.projectPath).toBeUndefined();
+  });
+
+  it('migrates an old file in memory', async () => {
+    writeConfig({ accessToken: 'token', webhookUrl: 'https://example.com/hook' });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const config = await new ConfigManager(projectPath).load();
+
+    expect(config?.transport).toEqual({ type: 'webhook', url: 'https://example.com/hook' });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('was migrated in memory'));
+  });
+
+  it('saves into the active profile', async () => {
+    writeConfig({ schemaVersion: CURRENT_SCHEMA_VERSION, accessToken: 'token', profiles: { staging: {} } });
+    const manager = new ConfigManager(projectPath, 'staging');
+    await manager.load();
+
+    await manager.save({ release: '1.2.3' });
+
+    const file = JSON.parse(fs.readFileSync(path.join(projectPath, '.wingman.json'), 'utf8'));
+    expect(file.profiles.staging.release).toBe('1.2.3');
+    expect(file.release).toBeUndefined();
+  });
+});
+
+describe('config helpers', () => {
+  it('deep-merges objects and replaces arrays and primitives', () => {
+    expect(mergeConfig<Record<string, any>>(
+      { queue: { maxSize: 1, maxAgeMs: 2 }, keys: ['a'], enabled: true },
+      { queue: { maxSize: 5 }, keys: ['b'], enabled: undefined }
+    )).toEqual({ queue: { maxSize: 5, maxAgeMs: 2 }, keys: ['b'], enabled: true });
+  });
+
+  it('names the environment after the profile unless the profile sets one', () => {
+    expect(resolveProfile({ accessToken: 't', profiles: { staging: {} } }, 'staging').config.environment).toBe('staging');
+    expect(resolveProfile({ accessToken: 't', profiles: { staging: { environment: 'qa' } } }, 'staging').config.environment).toBe('qa');
+  });
+
+  it('sets and unsets dot-separated keys, removing emptied objects', () => {
+    const config: Record<string, any> = {};
+    setConfigValue(config, 'queue.maxSize', 10);
+    expect(config).toEqual({ queue: { maxSize: 10 } });
+    expect(unsetConfigValue(config, 'queue.maxSize')).toBe(true);
+    expect(config).toEqual({});
+    expect(unsetConfigValue(config, 'queue.maxSize')).toBe(false);
+  });
+
+  it('unsets a key without touching its siblings', () => {
+    const config: Record<string, any> = { sampleRates: { low: 0.1, high: 1 } };
+    expect(unsetConfigValue(config, 'sampleRates.low')).toBe(true);
+    expect(config).toEqual({ sampleRates: { high: 1 } });
+    expect(unsetConfigValue(config, 'queue.maxSize')).toBe(false);
+  });
+});
+
+describe('parseConfigValue', () => {
+  it('converts the input to the type the schema expects', () => {
+    expect(parseConfigValue('queue.maxSize', '25')).toBe(25);
+    expect(parseConfigValue('enabled', 'false')).toBe(false);
+    expect(parseConfigValue('environment', '123')).toBe('123');
+    expect(parseConfigValue('sampleRates', '{"low":0.5}')).toEqual({ low: 0.5 });
+  });
+
+  it('rejects wrong types and out-of-range values', () => {
+    expect(() => parseConfigValue('enabled', 'yes')).toThrow('enabled');
+    expect(() => parseConfigValue('queue.maxSize', '0')).toThrow('queue.maxSize');
+    expect(() => parseConfigValue('sampleRates.low', '2')).toThrow('sampleRates.low');
+  });
+
+  it('names the unknown part of a key with a suggestion', () => {
+    expect(() => parseConfigValue('queue.maxSzie', '1')).toThrow(/^queue\.maxSzie: .*maxSize/);
+  });
+});
+
+describe('migrateConfig', () => {
+  it('moves webhookUrl into the transport in the defaults and every profile', () => {
+    const file = {
+      accessToken: 'token',
+      webhookUrl: 'https://example.com/a',
+      profiles: { staging: { webhookUrl: 'https://example.com/b' } },
+    };
+
+    const { config, fromVersion, applied } = migrateConfig(file);
+
+    expect(fromVersion).toBe(1);
+    expect(applied).toHaveLength(1);
+    expect(config).toEqual({
+      schemaVersion: 2,
+      accessToken: 'token',
+      transport: { type: 'webhook', url: 'https://example.com/a' },
+      profiles: { staging: { transport: { type: 'webhook', url: 'https://example.com/b' } } },
+    });
+    expect(file.webhookUrl).toBe('https://example.com/a');
+  });
+
+  it('keeps a transport URL that is already set', () => {
+    const { config } = migrateConfig({ webhookUrl: 'https://old.example.com', transport: { url: 'https://new.example.com' } });
+    expect(config.transport).toEqual({ url: 'https://new.example.com' });
+  });
+
+  it('leaves a current file unchanged', () => {
+    const file = { schemaVersion: CURRENT_SCHEMA_VERSION, accessToken: 'token' };
+    expect(migrateConfig(file)).toEqual({ config: file, fromVersion: CURRENT_SCHEMA_VERSION, applied: [] });
+  });
+
+  it('refuses files written by a newer release', () => {
+    expect(() => migrateConfig({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow('Upgrade wingman-monitor');
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Deduplicator } from '../deduplicator';
+import type { ErrorReport } from '../monitor';
+
+function createReport(overrides: Partial<ErrorReport> = {}): ErrorReport {
+  return {
+    message: 'boom',
+    errorType: 'customError',
+    severity: 'medium',
+    environment: 'test',
+    accessToken: 'token',
+    timestamp: Date.now(),
+    fingerprint: 'abc',
+    ...overrides,
+  };
+}
+
+describe('Deduplicator', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends the first occurrence right away and folds repeats into one summary', () => {
+    const summaries: ErrorReport[] = [];
+    const deduplicator = new Deduplicator(report => { summaries.push(report); }, { windowMs: 1000 });
+
+    expect(deduplicator.process(createReport({ timestamp: 100 }))).toMatchObject({ occurrences: 1, firstSeen: 100, lastSeen: 100 });
+    expect(deduplicator.process(createReport({ timestamp: 200, message: 'second' }))).toBeNull();
+    expect(deduplicator.process(createReport({ timestamp: 300, message: 'third' }))).toBeNull();
+    expect(summaries).toEqual([]);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(summaries).toEqual([expect.objectContaining({ message: 'third', occurrences: 2, firstSeen: 200, lastSeen: 300 })]);
+  });
+
+  it('sends no summary when nothing repeated', () => {
+    const onSummary = jest.fn<(report: ErrorReport) => void>();
+    const deduplicator = new Deduplicator(onSummary, { windowMs: 1000 });
+
+    deduplicator.process(createReport());
+    jest.advanceTimersByTime(1000);
+
+    expect(onSummary).not.toHaveBeenCalled();
+  });
+
+  it('keeps fingerprints apart', () => {
+    const deduplicator = new Deduplicator(() => undefined, { windowMs: 1000 });
+
+    expect(deduplicator.process(createReport({ fingerprint: 'a' }))).not.toBeNull();
+    expect(deduplicator.process(createReport({ fingerprint: 'b' }))).not.toBeNull();
+  });
+
+  it('starts a new window after the previous one closed', () => {
+    const deduplicator = new Deduplicator(() => undefined, { windowMs: 1000 });
+
+    deduplicator.process(createReport());
+    jest.advanceTimersByTime(1000);
+
+    expect(deduplicator.process(createReport())).toMatchObject({ occurrences: 1 });
+  });
+
+  it('emits pending summaries on flush', () => {
+    const summaries: ErrorReport[] = [];
+    const deduplicator = new Deduplicator(report => { summaries.push(report); }, { windowMs: 60000 });
+
+    deduplicator.process(createReport());
+    deduplicator.process(createReport());
+    deduplicator.flush();
+
+    expect(summaries).toEqual([expect.objectContaining({ occurrences: 1 })]);
+  });
+
+  it('passes every report through with windowMs 0 or without a fingerprint', () => {
+    const disabled = new Deduplicator(() => undefined, { windowMs: 0 });
+    expect(disabled.process(createReport())).not.toBeNull();
+    expect(disabled.process(createReport())).not.toBeNull();
+
+    const deduplicator = new Deduplicator(() => undefined);
+    expect(deduplicator.process(createReport({ fingerprint: undefined }))).not.toBeNull();
+    expect(deduplicator.process(createReport({ fingerprint: undefined }))).not.toBeNull();
+  });
+});
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DoctorCheck, runDoctor } from '../doctor';
+import { CURRENT_SCHEMA_VERSION } from '../configMigrations';
+import { QUEUE_FILE_NAME } from '../queue';
+import { setPlatform } from '../platform';
+import { nodePlatform } from '../nodePlatform';
+
+setPlatform(nodePlatform);
+
+const ENV_KEYS = ['WINGMAN_ENV', 'NODE_ENV', 'WINGMAN_ACCESS_TOKEN', 'WINGMAN_ENVIRONMENT', 'WINGMAN_WEBHOOK_URL', 'WINGMAN_ENABLED', 'WINGMAN_DOCTOR_TOKEN'];
+const TOKEN = 'doctor-access-token';
+
+describe('runDoctor', () => {
+  let projectPath: string;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-doctor-'));
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    }
+  });
+
+  const writeFile = (file: string, content: string) => {
+    fs.writeFileSync(path.join(projectPath, file), content);
+  };
+  const writeConfig = (config: Record<string, unknown>) => {
+    writeFile('.wingman.json', JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...config }));
+  };
+  const git = (...args: string[]) => {
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: projectPath, stdio: 'ignore' });
+  };
+  const run = (profile?: string) => runDoctor({ projectPath, profile, offline: true });
+  const find = (checks: DoctorCheck[], name: string) => checks.filter(check => check.name === name);
+
+  describe('config', () => {
+    it('passes a valid file and resolves the token from it', async () => {
+      writeConfig({ accessToken: TOKEN });
+
+      const checks = await run();
+
+      expect(find(checks, 'config')).toEqual([{ name: 'config', status: 'pass', message: '.wingman.json is valid' }]);
+      expect(find(checks, 'token')).toEqual([{ name: 'token', status: 'pass', message: 'Access token from .wingman.json' }]);
+      expect(checks.filter(check => check.status === 'fail')).toEqual([]);
+    });
+
+    it('fails without a file unless the environment provides the config', async () => {
+      expect(find(await run(), 'config')).toMatchObject([{ status: 'fail', message: '.wingman.json not found' }]);
+
+      process.env.WINGMAN_ACCESS_TOKEN = TOKEN;
+      const checks = await run();
+
+      expect(find(checks, 'config')).toMatchObject([{ status: 'pass', message: 'No .wingman.json; using WINGMAN_* environment variables' }]);
+      expect(find(checks, 'token')).toMatchObject([{ status: 'pass', message: 'Access token from the environment' }]);
+    });
+
+    it('fails invalid JSON and skips the checks that need a config', async () => {
+      writeFile('.wingman.json', '{"accessToken": ');
+
+      const checks = await run();
+
+      expect(find(checks, 'config')).toMatchObject([{ status: 'fail', message: expect.stringContaining('.wingman.json is not valid JSON') }]);
+      expect(find(checks, 'token')).toEqual([]);
+    });
+
+    it('lists values that fail validation', async () => {
+      writeConfig({ accessToken: TOKEN, sampleRates: { low: 2 } });
+
+      expect(find(await run(), 'config')).toMatchObject([{ status: 'fail', message: expect.stringContaining('sampleRates.low') }]);
+    });
+
+    it('warns about an old schema version and validates the migrated config', async () => {
+      writeFile('.wingman.json', JSON.stringify({ accessToken: TOKEN }));
+
+      const checks = await run();
+
+      expect(find(checks, 'schema')).toMatchObject([{ status: 'warn', fix: 'Run "wingman config migrate"' }]);
+      expect(find(checks, 'config')).toMatchObject([{ status: 'pass' }]);
+    });
+
+    it('fails a schema version newer than this release', async () => {
+      writeFile('.wingman.json', JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, accessToken: TOKEN }));
+
+      expect(find(await run(), 'config')).toMatchObject([{ status: 'fail', fix: 'Upgrade wingman-monitor' }]);
+    });
+  });
+
+  describe('profile', () => {
+    it('reports the active profile and fails a missing one', async () => {
+      writeConfig({ accessToken: TOKEN, profiles: { staging: { environment: 'staging' } } });
+
+      expect(find(await run('staging'), 'profile')).toMatchObject([{ status: 'pass', message: expect.stringContaining('staging') }]);
+      expect(find(await run('qa'), 'profile')).toMatchObject([{ status: 'fail', message: expect.stringContaining('qa') }]);
+    });
+  });
+
+  describe('token reference', () => {
+    it('passes when the environment variable is set and names the reference', async () => {
+      process.env.WINGMAN_DOCTOR_TOKEN = TOKEN;
+      writeConfig({ accessToken: 'env:WINGMAN_DOCTOR_TOKEN' });
+
+      expect(find(await run(), 'token')).toEqual([
+        { name: 'token', status: 'pass', message: 'Access token from env:WINGMAN_DOCTOR_TOKEN in .wingman.json' },
+      ]);
+    });
+
+    it('fails with the variable to set when it is not', async () => {
+      writeConfig({ accessToken: 'env:WINGMAN_DOCTOR_TOKEN' });
+
+      expect(find(await run(), 'token')).toEqual([{
+        name: 'token',
+        status: 'fail',
+        message: 'accessToken refers to env:WINGMAN_DOCTOR_TOKEN, which could not be resolved',
+        fix: 'Set WINGMAN_DOCTOR_TOKEN',
+      }]);
+    });
+  });
+
+  describe('git', () => {
+    it('passes outside a repository', async () => {
+      writeConfig({ accessToken: TOKEN });
+
+      expect(find(await run(), 'git')).toMatchObject([{ status: 'pass', message: expect.stringContaining('Not a git repository') }]);
+    });
+
+    it('warns when .wingman.json is not ignored and passes once it is', async () => {
+      git('init', '-q');
+      writeConfig({ accessToken: TOKEN });
+
+      expect(find(await run(), 'git')).toMatchObject([{ status: 'warn', message: '.wingman.json is not in .gitignore' }]);
+
+      writeFile('.gitignore', '.wingman.json\n');
+      expect(find(await run(), 'git')).toMatchObject([{ status: 'pass', message: '.wingman.json is ignored by git' }]);
+    });
+
+    it('fails a tracked .wingman.json even when it is ignored', async () => {
+      git('init', '-q');
+      writeConfig({ accessToken: TOKEN });
+      writeFile('.gitignore', '.wingman.json\n');
+      git('add', '-f', '.wingman.json');
+
+      expect(find(await run(), 'git')).toMatchObject([{ status: 'fail', message: expect.stringContaining('is tracked by git') }]);
+    });
+
+    it('fails when the token appears in tracked source files', async () => {
+      git('init', '-q');
+      writeConfig({ accessToken: TOKEN });
+      writeFile('.gitignore', '.wingman.json\n');
+      writeFile('index.js', `new WingmanMonitor({ accessToken: '${TOKEN}' }).start();\n`);
+      git('add', 'index.js', '.gitignore');
+
+      const tokenChecks = find(await run(), 'token');
+
+      expect(tokenChecks).toHaveLength(2);
+      expect(tokenChecks[1]).toMatchObject({ status: 'fail', message: 'The access token appears in tracked files: index.js' });
+    });
+  });
+
+  describe('queue', () => {
+    beforeEach(() => {
+      writeConfig({ accessToken: TOKEN });
+    });
+
+    it('passes without a queue file or with an empty queue', async () => {
+      expect(find(await run(), 'queue')).toMatchObject([{ status: 'pass' }]);
+
+      writeFile(QUEUE_FILE_NAME, '[]');
+      expect(find(await run(), 'queue')).toMatchObject([{ status: 'pass' }]);
+    });
+
+    it('warns about undelivered reports with the age of the oldest', async () => {
+      const now = Date.now();
+      const item = (id: string, ageMinutes: number) =>
+        ({ id, payload: {}, createdAt: now - ageMinutes * 60000, attempts: 1, nextAttemptAt: now });
+      writeFile(QUEUE_FILE_NAME, JSON.stringify([item('a', 5), item('b', 30)]));
+
+      expect(find(await run(), 'queue')).toMatchObject([{ status: 'warn', message: '2 undelivered report(s) queued, the oldest from 30 minute(s) ago' }]);
+    });
+
+    it('fails a corrupt queue file', async () => {
+      writeFile(QUEUE_FILE_NAME, '[{');
+
+      expect(find(await run(), 'queue')).toMatchObject([{ status: 'fail', message: `${QUEUE_FILE_NAME} is corrupt and will be ignored` }]);
+    });
+  });
+});
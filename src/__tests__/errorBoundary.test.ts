@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ErrorInfo, ReactElement, createElement } from 'react';
+import TestRenderer, { ReactTestRenderer, act } from 'react-test-renderer';
+import { FallbackProps, WingmanErrorBoundary, WingmanErrorBoundaryProps } from '../errorBoundary';
+import { WingmanContext } from '../context';
+import type { WingmanMonitor } from '../monitor';
+
+// Lets act() flush renders and effects outside a browser test environment
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let failure: string | null = null;
+
+function Content() {
+  if (failure) throw new Error(failure);
+  return createElement('span', null, 'content');
+}
+
+function fakeMonitor(active = true) {
+  const reportCustomError = jest.fn<WingmanMonitor['reportCustomError']>(async () => undefined);
+  const monitor = { isActive: () => active, reportCustomError } as unknown as WingmanMonitor;
+  return { monitor, reportCustomError };
+}
+
+describe('WingmanErrorBoundary', () => {
+  let renderer: ReactTestRenderer;
+
+  beforeEach(() => {
+    failure = null;
+    // React logs every caught error
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    act(() => renderer?.unmount());
+    jest.restoreAllMocks();
+  });
+
+  const render = (element: ReactElement) => {
+    act(() => {
+      renderer = TestRenderer.create(element);
+    });
+  };
+  const update = (element: ReactElement) => {
+    act(() => renderer.update(element));
+  };
+  const boundary = (props: WingmanErrorBoundaryProps) => createElement(WingmanErrorBoundary, props, createElement(Content));
+  const text = () => JSON.stringify(renderer.toJSON());
+
+  it('renders the children until one throws', () => {
+    render(boundary({ fallback: 'fallback' }));
+    expect(text()).toContain('content');
+
+    failure = 'boom';
+    update(boundary({ fallback: 'fallback' }));
+    expect(renderer.toJSON()).toBe('fallback');
+  });
+
+  it('renders nothing without a fallback', () => {
+    failure = 'boom';
+    render(boundary({}));
+
+    expect(renderer.toJSON()).toBeNull();
+  });
+
+  it('passes the error and resetError to a fallback function', () => {
+    failure = 'boom';
+    const onReset = jest.fn();
+    let props: FallbackProps | undefined;
+    render(boundary({ onReset, fallback: fallbackProps => { props = fallbackProps; return createElement('p', null, fallbackProps.error.message); } }));
+
+    expect(text()).toContain('boom');
+    expect(props?.componentStack).toContain('Content');
+
+    failure = null;
+    act(() => props!.resetError());
+    expect(onReset).toHaveBeenCalledTimes(1);
+    expect(text()).toContain('content');
+  });
+
+  it('renders FallbackComponent unless a fallback is given', () => {
+    failure = 'boom';
+    const FallbackComponent = ({ error, componentStack }: FallbackProps) =>
+      createElement('p', null, `${error.message} ${componentStack ? 'with stack' : 'without stack'}`);
+
+    render(boundary({ FallbackComponent }));
+    expect(text()).toContain('boom with stack');
+
+    update(boundary({ FallbackComponent, fallback: 'fallback' }));
+    expect(renderer.toJSON()).toBe('fallback');
+  });
+
+  it('resets when a resetKeys value changes, not when it stays the same', () => {
+    failure = 'boom';
+    const onReset = jest.fn();
+    render(boundary({ fallback: 'fallback', onReset, resetKeys: ['/a'] }));
+
+    failure = null;
+    update(boundary({ fallback: 'fallback', onReset, resetKeys: ['/a'] }));
+    expect(renderer.toJSON()).toBe('fallback');
+
+    update(boundary({ fallback: 'fallback', onReset, resetKeys: ['/b'] }));
+    expect(text()).toContain('content');
+    expect(onReset).toHaveBeenCalledTimes(1);
+  });
+
+  describe('reporting', () => {
+    it('reports to the monitor prop with the boundary name as a tag, then calls onError', () => {
+      failure = 'boom';
+      const { monitor, reportCustomError } = fakeMonitor();
+      const onError = jest.fn<(error: Error, errorInfo: ErrorInfo) => void>();
+
+      render(boundary({ monitor, onError, boundaryName: 'checkout', tags: { route: '/cart' }, metadata: { cartId: 7 } }));
+
+      expect(reportCustomError).toHaveBeenCalledTimes(1);
+      const [error, metadata, options] = reportCustomError.mock.calls[0];
+      expect(error.message).toBe('boom');
+      expect(metadata).toMatchObject({ cartId: 7, errorBoundary: true, boundaryName: 'checkout', type: 'React Component Error' });
+      expect(metadata?.componentStack).toContain('Content');
+      expect(options).toEqual({ tags: { boundaryName: 'checkout', route: '/cart' } });
+      expect(onError).toHaveBeenCalledWith(error, expect.objectContaining({ componentStack: expect.stringContaining('Content') }));
+      expect(reportCustomError.mock.invocationCallOrder[0]).toBeLessThan(onError.mock.invocationCallOrder[0]);
+    });
+
+    it('uses the monitor from an active WingmanProvider context', () => {
+      failure = 'boom';
+      const { monitor, reportCustomError } = fakeMonitor();
+
+      render(createElement(WingmanContext.Provider, { value: { monitor, isActive: true } }, boundary({ fallback: 'fallback' })));
+
+      expect(reportCustomError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ boundaryName: undefined }), { tags: undefined });
+    });
+
+    it('does not report to an inactive monitor but still calls onError', () => {
+      failure = 'boom';
+      const inactive = fakeMonitor(false);
+      const fromContext = fakeMonitor();
+      const onError = jest.fn();
+
+      render(boundary({ monitor: inactive.monitor, onError, fallback: 'fallback' }));
+      update(createElement(WingmanContext.Provider, { value: { monitor: fromContext.monitor, isActive: false } }, boundary({ fallback: 'fallback' })));
+
+      expect(inactive.reportCustomError).not.toHaveBeenCalled();
+      expect(fromContext.reportCustomError).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,3 @@
+export function greet(name) {
+  throw new Error('Hello ' + name);
+}
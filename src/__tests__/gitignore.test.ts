@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ensureGitignored, isTrackedByGit } from '../utils/gitignore';
+
+describe('gitignore helpers', () => {
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-gitignore-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  const git = (...args: string[]) => {
+    execFileSync('git', args, { cwd: projectPath, stdio: 'ignore' });
+  };
+  const gitignore = () => fs.readFileSync(path.join(projectPath, '.gitignore'), 'utf8');
+
+  describe('ensureGitignored', () => {
+    it('creates .gitignore inside a repository', async () => {
+      git('init', '-q');
+
+      await expect(ensureGitignored(projectPath, '.wingman.json')).resolves.toBe(true);
+      expect(gitignore()).toBe('.wingman.json\n');
+    });
+
+    it('appends to an existing .gitignore on a new line once', async () => {
+      git('init', '-q');
+      fs.writeFileSync(path.join(projectPath, '.gitignore'), 'node_modules');
+
+      await expect(ensureGitignored(projectPath, '.wingman.json')).resolves.toBe(true);
+      await expect(ensureGitignored(projectPath, '.wingman.json')).resolves.toBe(false);
+      expect(gitignore()).toBe('node_modules\n.wingman.json\n');
+    });
+
+    it('leaves .gitignore alone when a pattern already ignores the entry', async () => {
+      git('init', '-q');
+      fs.writeFileSync(path.join(projectPath, '.gitignore'), '.wingman*.json\n');
+
+      await expect(ensureGitignored(projectPath, '.wingman.json')).resolves.toBe(false);
+      expect(gitignore()).toBe('.wingman*.json\n');
+    });
+
+    it('only changes an existing .gitignore outside a repository', async () => {
+      await expect(ensureGitignored(projectPath, '.wingman.json')).resolves.toBe(false);
+      expect(fs.existsSync(path.join(projectPath, '.gitignore'))).toBe(false);
+
+      fs.writeFileSync(path.join(projectPath, '.gitignore'), '/.wingman.json\n');
+      await expect(ensureGitignored(projectPath, '.wingman.json')).resolves.toBe(false);
+
+      fs.writeFileSync(path.join(projectPath, '.gitignore'), 'dist\n');
+      await expect(ensureGitignored(projectPath, '.wingman.json')).resolves.toBe(true);
+      expect(gitignore()).toBe('dist\n.wingman.json\n');
+    });
+  });
+
+  describe('isTrackedByGit', () => {
+    it('is true for staged files only', () => {
+      git('init', '-q');
+      fs.writeFileSync(path.join(projectPath, '.wingman.json'), '{}');
+
+      expect(isTrackedByGit(projectPath, '.wingman.json')).toBe(false);
+      git('add', '.wingman.json');
+      expect(isTrackedByGit(projectPath, '.wingman.json')).toBe(true);
+    });
+
+    it('is false outside a repository', () => {
+      fs.writeFileSync(path.join(projectPath, '.wingman.json'), '{}');
+
+      expect(isTrackedByGit(projectPath, '.wingman.json')).toBe(false);
+    });
+  });
+});
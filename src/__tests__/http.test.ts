@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HttpRequestInfo, instrumentHttp } from '../instrumentation/http';
+import { WingmanMonitor } from '../monitor';
+import type { WingmanPayload } from '../transports';
+import { setPlatform } from '../platform';
+import { nodePlatform } from '../nodePlatform';
+
+setPlatform(nodePlatform);
+
+/**
+ * Minimal XMLHttpRequest stand-in; the instrumentation only patches open and send and listens for loadend
+ */
+class FakeXhr {
+  status = 0;
+  opened: unknown[] = [];
+  body: unknown;
+  private listeners: Array<() => void> = [];
+
+  open(...args: unknown[]): void {
+    this.opened = args;
+  }
+
+  send(body?: unknown): void {
+    this.body = body;
+  }
+
+  addEventListener(type: string, listener: () => void): void {
+    if (type === 'loadend') this.listeners.push(listener);
+  }
+
+  finish(status: number): void {
+    this.status = status;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const globals = globalThis as { XMLHttpRequest?: unknown };
+
+describe('instrumentHttp', () => {
+  const originalFetch = globalThis.fetch;
+  let requests: HttpRequestInfo[];
+  let uninstall: (() => void) | undefined;
+
+  const install = () => {
+    uninstall = instrumentHttp({
+      onComplete: info => { requests.push(info); },
+      shouldIgnore: url => url.startsWith('https://hooks.example.com'),
+    });
+  };
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterEach(() => {
+    uninstall?.();
+    uninstall = undefined;
+    globalThis.fetch = originalFetch;
+    delete globals.XMLHttpRequest;
+  });
+
+  describe('fetch', () => {
+    it('records the method, URL and status of completed requests', async () => {
+      globalThis.fetch = jest.fn(async () => new Response('missing', { status: 404 })) as typeof fetch;
+      install();
+
+      const response = await fetch('https://api.example.com/items', { method: 'post' });
+
+      expect(response.status).toBe(404);
+      expect(requests).toEqual([expect.objectContaining({ type: 'fetch', method: 'POST', url: 'https://api.example.com/items', status: 404 })]);
+    });
+
+    it('takes the method and URL from a Request', async () => {
+      globalThis.fetch = jest.fn(async () => new Response('ok')) as typeof fetch;
+      install();
+
+      await fetch(new Request('https://api.example.com/items', { method: 'DELETE' }));
+
+      expect(requests[0]).toMatchObject({ method: 'DELETE', url: 'https://api.example.com/items', status: 200 });
+    });
+
+    it('records network errors and rethrows them', async () => {
+      const failure = new TypeError('Failed to fetch');
+      globalThis.fetch = jest.fn(async () => { throw failure; }) as typeof fetch;
+      install();
+
+      await expect(fetch(new URL('https://api.example.com/items'))).rejects.toBe(failure);
+      expect(requests).toEqual([expect.objectContaining({ method: 'GET', url: 'https://api.example.com/items', error: failure })]);
+      expect(requests[0].status).toBeUndefined();
+    });
+
+    it('skips ignored URLs and restores fetch on uninstall', async () => {
+      const mockFetch = jest.fn(async () => new Response('ok')) as typeof fetch;
+      globalThis.fetch = mockFetch;
+      install();
+
+      await fetch('https://hooks.example.com/report');
+      expect(requests).toEqual([]);
+
+      uninstall?.();
+      expect(globalThis.fetch).toBe(mockFetch);
+    });
+  });
+
+  describe('XMLHttpRequest', () => {
+    beforeEach(() => {
+      globals.XMLHttpRequest = FakeXhr;
+    });
+
+    it('records the status when the request ends', () => {
+      install();
+      const xhr = new FakeXhr();
+
+      xhr.open('get', 'https://api.example.com/items');
+      xhr.send();
+      xhr.finish(500);
+
+      expect(xhr.opened).toEqual(['get', 'https://api.example.com/items', true, undefined, undefined]);
+      expect(requests).toEqual([expect.objectContaining({ type: 'xhr', method: 'GET', url: 'https://api.example.com/items', status: 500 })]);
+    });
+
+    it('records a request without a response as an error', () => {
+      install();
+      const xhr = new FakeXhr();
+
+      xhr.open('POST', 'https://api.example.com/items', false);
+      xhr.send('body');
+      xhr.finish(0);
+
+      expect(xhr.opened[2]).toBe(false);
+      expect(xhr.body).toBe('body');
+      expect(requests[0].status).toBeUndefined();
+      expect(requests[0].error).toEqual(new Error('XMLHttpRequest failed'));
+    });
+
+    it('skips ignored URLs and restores the prototype on uninstall', () => {
+      const { open, send } = FakeXhr.prototype;
+      install();
+      const xhr = new FakeXhr();
+
+      xhr.open('POST', 'https://hooks.example.com/report');
+      xhr.send();
+      xhr.finish(200);
+      expect(requests).toEqual([]);
+
+      uninstall?.();
+      expect(FakeXhr.prototype.open).toBe(open);
+      expect(FakeXhr.prototype.send).toBe(send);
+    });
+  });
+});
+
+describe('WingmanMonitor HTTP breadcrumbs', () => {
+  const originalFetch = globalThis.fetch;
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-http-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    globalThis.fetch = originalFetch;
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('records fetches as breadcrumbs and reports server errors', async () => {
+    globalThis.fetch = jest.fn(async (input: RequestInfo | URL) =>
+      new Response('', { status: String(input).endsWith('/down') ? 503 : 200 })) as typeof fetch;
+    let delivered: (payload: WingmanPayload) => void = () => undefined;
+    const payload = new Promise<WingmanPayload>(resolve => { delivered = resolve; });
+
+    const monitor = new WingmanMonitor({
+      projectPath,
+      config: { accessToken: 'token', enabled: true, instrumentation: { http: { reportServerErrors: true } } },
+      transport: { name: 'test', send: async sent => { delivered(sent); } },
+    });
+    await monitor.start();
+    await fetch('https://api.example.com/items?token=abc');
+    await fetch('https://api.example.com/down');
+    const report = (await payload).data;
+    monitor.stop();
+
+    expect(report).toMatchObject({ errorType: 'httpError', message: 'GET /down responded with 503' });
+    const fetches = report.breadcrumbs.filter((crumb: { category: string }) => crumb.category === 'fetch');
+    expect(fetches).toEqual([
+      expect.objectContaining({ category: 'fetch', level: 'info', message: 'GET https://api.example.com/items?token=[Filtered] [200]' }),
+      expect.objectContaining({ category: 'fetch', level: 'error', message: 'GET https://api.example.com/down [503]' }),
+    ]);
+  });
+});
@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WingmanMonitor } from '../monitor';
+import { ExpressRequestLike, createExpressHandlers } from '../middleware/express';
+import { FastifyDone, FastifyInstanceLike, FastifyReplyLike, FastifyRequestLike, createFastifyPlugin } from '../middleware/fastify';
+import { KoaContextLike, createKoaMiddleware } from '../middleware/koa';
+import type { WingmanPayload } from '../transports';
+import { setPlatform } from '../platform';
+import { nodePlatform } from '../nodePlatform';
+
+setPlatform(nodePlatform);
+
+const tick = (ms = 5) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('request middleware', () => {
+  let projectPath: string;
+  let monitor: WingmanMonitor;
+  let reports: Record<string, any>[];
+
+  const startMonitor = async () => {
+    const started = new WingmanMonitor({
+      projectPath,
+      config: { accessToken: 'token', enabled: true, environment: 'test', dedupe: { windowMs: 0 } },
+      defaultProcessors: false,
+      transport: {
+        name: 'memory',
+        send: async (payload: WingmanPayload) => { reports.push(payload.data); },
+      },
+    });
+    await started.start();
+    return started;
+  };
+
+  beforeEach(async () => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-middleware-'));
+    reports = [];
+    // The monitor keeps the console functions it finds, so these stay silent after start()
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    monitor = await startMonitor();
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    setPlatform(nodePlatform);
+    jest.restoreAllMocks();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  // Request errors are reported without delaying the response
+  const waitForReports = async (count: number) => {
+    for (let i = 0; i < 50 && reports.length < count; i++) {
+      await tick(2);
+    }
+    return reports;
+  };
+  const reportFor = (message: string) => reports.find(report => report.message === message);
+  const breadcrumbsOf = (message: string) => reportFor(message)?.breadcrumbs.map((crumb: { message: string }) => crumb.message);
+
+  describe('Express', () => {
+    const request = (id: string): ExpressRequestLike => ({
+      method: 'get',
+      originalUrl: `/items/${id}?expand=1`,
+      url: '/?expand=1',
+      baseUrl: '/items',
+      headers: { 'x-request-id': id, authorization: 'Bearer secret' },
+      query: { expand: '1' },
+      route: { path: '/:id' },
+    });
+
+    it('keeps concurrent requests apart and reports with the request and route', async () => {
+      const { requestHandler, errorHandler } = createExpressHandlers(monitor);
+      const passedOn: unknown[] = [];
+      const handle = (id: string, delay: number) => new Promise<void>(resolve => {
+        const req = request(id);
+        const res = { statusCode: 200 };
+        requestHandler(req, res, async () => {
+          monitor.addBreadcrumb({ message: `started ${id}` });
+          await tick(delay);
+          monitor.addBreadcrumb({ message: `resumed ${id}` });
+          errorHandler(new Error(`failed ${id}`), req, res, error => {
+            passedOn.push(error);
+            resolve();
+          });
+        });
+      });
+
+      await Promise.all([handle('a', 10), handle('b', 1)]);
+      await waitForReports(2);
+
+      expect(passedOn).toHaveLength(2);
+      for (const id of ['a', 'b']) {
+        expect(reportFor(`failed ${id}`)).toMatchObject({ errorType: 'requestError', severity: 'high' });
+        expect(reportFor(`failed ${id}`)?.metadata.request).toEqual({
+          id,
+          method: 'GET',
+          path: `/items/${id}`,
+          route: '/items/:id',
+          status: 500,
+          headers: { 'x-request-id': id, authorization: '[Filtered]' },
+          query: { expand: '1' },
+        });
+        expect(breadcrumbsOf(`failed ${id}`)).toEqual([`started ${id}`, `resumed ${id}`]);
+      }
+    });
+
+    it('passes client errors on without reporting them unless shouldReport says so', async () => {
+      const notFound = Object.assign(new Error('not found'), { status: 404 });
+      const next = jest.fn();
+
+      createExpressHandlers(monitor).errorHandler(notFound, request('a'), { statusCode: 200 }, next);
+      createExpressHandlers(monitor, { shouldReport: (_error, status) => status === 404 })
+        .errorHandler(new Error('gone'), request('b'), { statusCode: 404 }, next);
+      await waitForReports(1);
+
+      expect(next).toHaveBeenCalledWith(notFound);
+      expect(reports.map(report => report.message)).toEqual(['gone']);
+      expect(reports[0]).toMatchObject({ severity: 'medium', metadata: { request: { status: 404 } } });
+    });
+
+    it('describes the request itself when the error handler runs outside the request scope', async () => {
+      createExpressHandlers(monitor).errorHandler(new Error('unscoped'), request('c'), {}, () => undefined);
+      await waitForReports(1);
+
+      expect(reportFor('unscoped')?.metadata.request).toMatchObject({ id: 'c', path: '/items/c', route: '/items/:id' });
+    });
+  });
+
+  describe('Fastify', () => {
+    let hooks: {
+      onRequest?: (request: FastifyRequestLike, reply: FastifyReplyLike, done: FastifyDone) => void;
+      onError?: (request: FastifyRequestLike, reply: FastifyReplyLike, error: Error, done: FastifyDone) => void;
+    };
+
+    const register = (plugin: ReturnType<typeof createFastifyPlugin>) => {
+      hooks = {};
+      const instance = {
+        addHook: (name: 'onRequest' | 'onError', hook: never) => { hooks[name] = hook; },
+      } as unknown as FastifyInstanceLike;
+      const done = jest.fn();
+      plugin(instance, {}, done);
+      expect(done).toHaveBeenCalledWith();
+    };
+
+    it('is not encapsulated, so its hooks apply to every route', () => {
+      const plugin = createFastifyPlugin(monitor) as unknown as Record<symbol, unknown>;
+
+      expect(plugin[Symbol.for('skip-override')]).toBe(true);
+      expect(plugin[Symbol.for('fastify.display-name')]).toBe('wingman-monitor');
+    });
+
+    it('keeps concurrent requests apart and prefers the request ID header', async () => {
+      register(createFastifyPlugin(monitor));
+      const handle = (id: string, delay: number, headers: Record<string, string> = {}) => new Promise<void>(resolve => {
+        const request: FastifyRequestLike = { id: `req-${id}`, method: 'POST', url: `/orders/${id}`, headers, routeOptions: { url: '/orders/:id' } };
+        const reply = { statusCode: 200 };
+        hooks.onRequest!(request, reply, async () => {
+          monitor.addBreadcrumb({ message: `started ${id}` });
+          await tick(delay);
+          hooks.onError!(request, reply, new Error(`failed ${id}`), () => resolve());
+        });
+      });
+
+      await Promise.all([handle('a', 10), handle('b', 1, { 'x-request-id': 'from-header' })]);
+      await waitForReports(2);
+
+      expect(reportFor('failed a')?.metadata.request).toMatchObject({ id: 'req-a', method: 'POST', path: '/orders/a', route: '/orders/:id', status: 500 });
+      expect(reportFor('failed b')?.metadata.request).toMatchObject({ id: 'from-header', path: '/orders/b' });
+      expect(breadcrumbsOf('failed a')).toEqual(['started a']);
+      expect(breadcrumbsOf('failed b')).toEqual(['started b']);
+    });
+
+    it('reads the route from routerPath in older Fastify releases', async () => {
+      register(createFastifyPlugin(monitor));
+
+      hooks.onError!({ url: '/legacy/1', routerPath: '/legacy/:id', query: 'not an object' }, { statusCode: 502 }, new Error('legacy'), () => undefined);
+      await waitForReports(1);
+
+      expect(reportFor('legacy')?.metadata.request).toMatchObject({ path: '/legacy/1', route: '/legacy/:id', status: 502 });
+      expect(reportFor('legacy')?.metadata.request.query).toBeUndefined();
+    });
+  });
+
+  describe('Koa', () => {
+    const context = (id: string): KoaContextLike => ({
+      method: 'delete',
+      url: `/carts/${id}?force=true`,
+      headers: { 'x-request-id': id, cookie: 'session=1' },
+      query: { force: 'true' },
+      // Koa answers 404 until a route sets the status
+      status: 404,
+      _matchedRoute: '/carts/:id',
+    });
+
+    it('keeps concurrent requests apart, reports with the error status and rethrows', async () => {
+      const middleware = createKoaMiddleware(monitor);
+      const handle = (id: string, delay: number) => middleware(context(id), async () => {
+        monitor.addBreadcrumb({ message: `started ${id}` });
+        await tick(delay);
+        throw Object.assign(new Error(`failed ${id}`), { status: 503 });
+      });
+
+      const results = await Promise.allSettled([handle('a', 10), handle('b', 1)]);
+      await waitForReports(2);
+
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+      for (const id of ['a', 'b']) {
+        expect(reportFor(`failed ${id}`)?.metadata.request).toEqual({
+          id,
+          method: 'DELETE',
+          path: `/carts/${id}`,
+          route: '/carts/:id',
+          status: 503,
+          headers: { 'x-request-id': id, cookie: '[Filtered]' },
+          query: { force: 'true' },
+        });
+        expect(breadcrumbsOf(`failed ${id}`)).toEqual([`started ${id}`]);
+      }
+    });
+
+    it('does not take the 404 Koa starts with as the error status', async () => {
+      await expect(createKoaMiddleware(monitor)(context('c'), async () => { throw new Error('plain'); })).rejects.toThrow('plain');
+      await waitForReports(1);
+
+      expect(reportFor('plain')?.metadata.request.status).toBe(500);
+    });
+
+    it('describes the request from the context when the scope does not survive awaits', async () => {
+      monitor.stop();
+      setPlatform({ ...nodePlatform, createAsyncContext: undefined });
+      monitor = await startMonitor();
+
+      await expect(createKoaMiddleware(monitor)(context('d'), async () => {
+        await tick();
+        throw new Error('after await');
+      })).rejects.toThrow('after await');
+      await waitForReports(1);
+
+      expect(monitor.getRequestContext()).toBeUndefined();
+      expect(reportFor('after await')?.metadata.request).toMatchObject({ id: 'd', method: 'DELETE', path: '/carts/d', route: '/carts/:id', status: 500 });
+    });
+  });
+});
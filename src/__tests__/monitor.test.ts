@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { WingmanMonitor } from '../monitor';
+import { QUEUE_FILE_NAME } from '../queue';
+import type { WingmanPayload } from '../transports';
+import { setPlatform } from '../platform';
+import { nodePlatform } from '../nodePlatform';
+
+setPlatform(nodePlatform);
+
+describe('WingmanMonitor.start', () => {
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-monitor-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('leaves console, process handlers and http untouched when the transport is misconfigured', async () => {
+    const failure = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const consoleError = console.error;
+    const consoleLog = console.log;
+    const request = http.request;
+    const uncaughtListeners = process.listenerCount('uncaughtException');
+
+    const monitor = new WingmanMonitor({
+      projectPath,
+      config: { accessToken: 'token', enabled: true, transport: { type: 'http' }, instrumentation: { http: true } },
+    });
+    await monitor.start();
+
+    expect(failure).toHaveBeenCalledWith('Wingman: Failed to start monitoring:', expect.any(Error));
+    expect(monitor.isActive()).toBe(false);
+    expect(console.error).toBe(consoleError);
+    expect(console.log).toBe(consoleLog);
+    expect(http.request).toBe(request);
+    expect(process.listenerCount('uncaughtException')).toBe(uncaughtListeners);
+  });
+
+  it('resolves while reports restored from the queue are still being delivered', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    fs.writeFileSync(path.join(projectPath, QUEUE_FILE_NAME), JSON.stringify([
+      { id: 'stored', payload: { event: 'error.runtime', data: {} }, createdAt: Date.now(), attempts: 1, nextAttemptAt: 0 },
+    ]));
+    let deliver: () => void = () => undefined;
+    const send = jest.fn(() => new Promise<void>(resolve => { deliver = resolve; }));
+
+    const monitor = new WingmanMonitor({
+      projectPath,
+      config: { accessToken: 'token', enabled: true },
+      transport: { name: 'pending', send },
+    });
+    await monitor.start();
+
+    expect(monitor.isActive()).toBe(true);
+    expect(send).toHaveBeenCalledTimes(1);
+    deliver();
+    monitor.stop();
+  });
+});
+
+describe('WingmanMonitor release', () => {
+  let projectPath: string;
+  const savedRelease = process.env.WINGMAN_RELEASE;
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-monitor-'));
+    fs.writeFileSync(path.join(projectPath, 'package.json'), JSON.stringify({ version: '1.0.0' }));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    delete process.env.WINGMAN_RELEASE;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+    if (savedRelease === undefined) {
+      delete process.env.WINGMAN_RELEASE;
+    } else {
+      process.env.WINGMAN_RELEASE = savedRelease;
+    }
+  });
+
+  const reportWith = async (options: { release?: string } = {}) => {
+    const sent: WingmanPayload[] = [];
+    const monitor = new WingmanMonitor({
+      projectPath,
+      config: { accessToken: 'token', enabled: true },
+      transport: { name: 'test', send: async payload => { sent.push(payload); } },
+      ...options,
+    });
+    await monitor.start();
+    await monitor.reportCustomError(new Error('boom'));
+    monitor.stop();
+    return sent[0].data;
+  };
+
+  it('does not derive a release from package.json or git at runtime', async () => {
+    const execSync = jest.spyOn(require('child_process'), 'execSync');
+
+    const report = await reportWith();
+
+    expect(report.release).toBeUndefined();
+    expect(execSync).not.toHaveBeenCalled();
+  });
+
+  it('stamps WINGMAN_RELEASE, unless the release option is set', async () => {
+    process.env.WINGMAN_RELEASE = '1.0.0+abc1234';
+
+    expect((await reportWith()).release).toBe('1.0.0+abc1234');
+    expect((await reportWith({ release: '2.0.0' })).release).toBe('2.0.0');
+  });
+});
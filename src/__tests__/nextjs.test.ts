@@ -0,0 +1,225 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  captureRequestError,
+  createHydrationProcessor,
+  getWingmanMonitor,
+  isHydrationError,
+  onRequestError,
+  register,
+  withWingmanApiRoute,
+  withWingmanMiddleware,
+  withWingmanRouteHandler,
+  withWingmanServerAction,
+} from '../nextjs';
+import { WingmanMonitor } from '../monitor';
+import type { WingmanMonitorOptions } from '../monitor';
+import type { WingmanPayload } from '../transports';
+
+describe('wingman-monitor/nextjs', () => {
+  let projectPath: string;
+  let reports: Record<string, any>[];
+
+  const createOptions = (): WingmanMonitorOptions => ({
+    projectPath,
+    config: { accessToken: 'token', enabled: true, environment: 'test', dedupe: { windowMs: 0 } },
+    defaultProcessors: false,
+    transport: {
+      name: 'memory',
+      send: async (payload: WingmanPayload) => { reports.push(payload.data); },
+    },
+  });
+
+  beforeAll(async () => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-nextjs-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await register(createOptions());
+  });
+
+  afterAll(() => {
+    getWingmanMonitor()?.stop();
+    jest.restoreAllMocks();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    reports = [];
+  });
+
+  describe('register', () => {
+    it('returns the monitor started by the first call', async () => {
+      const monitor = getWingmanMonitor();
+
+      expect(monitor?.isActive()).toBe(true);
+      await expect(register()).resolves.toBe(monitor);
+    });
+  });
+
+  describe('withWingmanRouteHandler', () => {
+    it('reports the error with the resolved params and rethrows it', async () => {
+      const GET = withWingmanRouteHandler<Request, { params: Promise<{ id: string }> }, Response>(async () => {
+        throw new Error('route failed');
+      }, { route: '/items/[id]' });
+
+      await expect(GET(new Request('http://localhost/items/1?expand=true'), { params: Promise.resolve({ id: '1' }) }))
+        .rejects.toThrow('route failed');
+
+      expect(reports).toHaveLength(1);
+      expect(reports[0]).toMatchObject({
+        errorType: 'routeHandlerError',
+        severity: 'high',
+        metadata: {
+          nextjs: {
+            runtime: 'nodejs',
+            routerKind: 'App Router',
+            route: '/items/[id]',
+            params: { id: '1' },
+            method: 'GET',
+            path: '/items/1',
+          },
+        },
+      });
+    });
+
+    it('passes responses through untouched', async () => {
+      const response = new Response('ok', { status: 201 });
+      const GET = withWingmanRouteHandler(async () => response);
+
+      await expect(GET(new Request('http://localhost/ok'), {})).resolves.toBe(response);
+      expect(reports).toEqual([]);
+    });
+
+    it('does not report redirect() and notFound()', async () => {
+      const redirect = Object.assign(new Error('NEXT_REDIRECT'), { digest: 'NEXT_REDIRECT;replace;/login;307;' });
+      const GET = withWingmanRouteHandler(async () => { throw redirect; });
+
+      await expect(GET(new Request('http://localhost/private'), {})).rejects.toBe(redirect);
+      expect(reports).toEqual([]);
+    });
+  });
+
+  describe('withWingmanApiRoute', () => {
+    it('reports errors from a pages router API route with plain request and response objects', async () => {
+      const res = { statusCode: 200 };
+      const handler = withWingmanApiRoute<{ method: string; url: string; query: Record<string, string> }, typeof res, void>(async () => {
+        throw new Error('api failed');
+      });
+
+      await expect(handler({ method: 'POST', url: '/api/users/7?x=1', query: { id: '7', x: '1' } }, res)).rejects.toThrow('api failed');
+
+      expect(reports[0]).toMatchObject({
+        errorType: 'apiRouteError',
+        metadata: { nextjs: { routerKind: 'Pages Router', route: '/api/users/7', method: 'POST', params: { id: '7', x: '1' } } },
+      });
+    });
+  });
+
+  describe('withWingmanServerAction', () => {
+    it('reports under the action name and keeps the arguments', async () => {
+      const action = jest.fn<(id: string) => Promise<void>>(async () => { throw new Error('action failed'); });
+      const wrapped = withWingmanServerAction('deleteItem', action);
+
+      await expect(wrapped('42')).rejects.toThrow('action failed');
+
+      expect(action).toHaveBeenCalledWith('42');
+      expect(reports[0]).toMatchObject({ errorType: 'serverActionError', metadata: { nextjs: { routeType: 'action', action: 'deleteItem' } } });
+    });
+  });
+
+  describe('withWingmanMiddleware', () => {
+    it('reports the path from nextUrl', async () => {
+      const request = Object.assign(new Request('http://localhost/dashboard?tab=1'), { nextUrl: new URL('http://localhost/dashboard?tab=1') });
+      const middleware = withWingmanMiddleware<typeof request, [], Response>(async () => { throw new Error('middleware failed'); });
+
+      await expect(middleware(request)).rejects.toThrow('middleware failed');
+
+      expect(reports[0]).toMatchObject({ errorType: 'middlewareError', metadata: { nextjs: { routeType: 'middleware', path: '/dashboard' } } });
+    });
+  });
+
+  describe('onRequestError', () => {
+    it('maps the route type to an error type', async () => {
+      await onRequestError(new Error('render failed'), { path: '/blog/hello', method: 'GET', headers: {} }, {
+        routerKind: 'App Router',
+        routePath: '/blog/[slug]',
+        routeType: 'render',
+      });
+      await onRequestError(new Error('pages api failed'), { path: '/api/x', method: 'GET', headers: {} }, {
+        routerKind: 'Pages Router',
+        routePath: '/api/x',
+        routeType: 'route',
+      });
+
+      expect(reports.map(report => report.errorType)).toEqual(['renderError', 'apiRouteError']);
+      expect(reports[0].metadata.nextjs).toMatchObject({ route: '/blog/[slug]', path: '/blog/hello' });
+    });
+
+    it('skips errors a wrapper already reported', async () => {
+      const error = new Error('reported once');
+      const GET = withWingmanRouteHandler(async () => { throw error; });
+
+      await expect(GET(new Request('http://localhost/once'), {})).rejects.toBe(error);
+      await onRequestError(error, { path: '/once', method: 'GET', headers: {} }, { routerKind: 'App Router', routePath: '/once', routeType: 'route' });
+
+      expect(reports).toHaveLength(1);
+    });
+
+    it('reports an error first seen while monitoring was inactive', async () => {
+      const error = new Error('seen while inactive');
+      const inactive = new WingmanMonitor(createOptions());
+
+      await captureRequestError(error, 'routeHandlerError', { route: '/late' }, inactive);
+      await onRequestError(error, { path: '/late', method: 'GET', headers: {} }, { routerKind: 'App Router', routePath: '/late', routeType: 'route' });
+
+      expect(reports.map(report => report.message)).toEqual(['seen while inactive']);
+    });
+
+    it('reports an error again when its first report failed', async () => {
+      const error = new Error('retried');
+      const request = { path: '/retry', method: 'GET', headers: {} };
+      const context = { routerKind: 'App Router', routePath: '/retry', routeType: 'route' } as const;
+      const report = jest.spyOn(getWingmanMonitor()!, 'reportCustomError').mockRejectedValueOnce(new Error('processor failed'));
+
+      await onRequestError(error, request, context);
+      await onRequestError(error, request, context);
+      report.mockRestore();
+
+      expect(reports.map(report => report.message)).toEqual(['retried']);
+    });
+  });
+
+  describe('hydration mismatches', () => {
+    it('recognizes React development warnings and production error codes', () => {
+      expect(isHydrationError('Warning: Text content did not match. Server: "%s" Client: "%s"%s')).toBe(true);
+      expect(isHydrationError('Warning: Prop `%s` did not match. Server: %s Client: %s%s')).toBe(true);
+      expect(isHydrationError('Warning: Did not expect server HTML to contain a <%s> in <%s>.%s')).toBe(true);
+      expect(isHydrationError('Minified React error #418; visit https://react.dev/errors/418')).toBe(true);
+      expect(isHydrationError('Cannot read properties of undefined')).toBe(false);
+    });
+
+    it('reports development hydration warnings logged through console.error', async () => {
+      // The monitor started by register() sees the warning too, so this one sends to its own list
+      const hydrationReports: Record<string, any>[] = [];
+      const monitor = new WingmanMonitor({
+        ...createOptions(),
+        processors: [createHydrationProcessor()],
+        transport: { name: 'memory', send: async (payload: WingmanPayload) => { hydrationReports.push(payload.data); } },
+      });
+      await monitor.start();
+      try {
+        console.error('Warning: Prop `%s` did not match. Server: %s Client: %s%s', 'className', '"a"', '"b"', '\n    at div');
+        await monitor.flush();
+        await new Promise(resolve => setTimeout(resolve, 10));
+      } finally {
+        monitor.stop();
+      }
+
+      expect(hydrationReports).toHaveLength(1);
+      expect(hydrationReports[0]).toMatchObject({ errorType: 'hydrationError', severity: 'medium', metadata: { nextjs: { hydration: true } } });
+    });
+  });
+});
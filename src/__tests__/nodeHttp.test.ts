@@ -0,0 +1,82 @@
+import { afterEach, beforeAll, afterAll, describe, expect, it } from '@jest/globals';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { instrumentNodeHttp } from '../instrumentation/nodeHttp';
+import type { HttpRequestInfo } from '../instrumentation/http';
+
+describe('instrumentNodeHttp', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let uninstall: (() => void) | undefined;
+
+  beforeAll(async () => {
+    server = http.createServer((_req, res) => { res.end('ok'); });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    uninstall?.();
+    uninstall = undefined;
+  });
+
+  it('records completed requests with their status', async () => {
+    const requests: HttpRequestInfo[] = [];
+    uninstall = instrumentNodeHttp({ onComplete: info => { requests.push(info); } });
+
+    await new Promise<void>(resolve => {
+      http.get(`${baseUrl}/items?page=2`, res => {
+        res.resume();
+        res.on('end', resolve);
+      });
+    });
+
+    expect(requests).toEqual([expect.objectContaining({ type: 'http', method: 'GET', url: `${baseUrl}/items?page=2`, status: 200 })]);
+  });
+
+  it('adds no error or response listeners to the request', () => {
+    uninstall = instrumentNodeHttp({ onComplete: () => undefined });
+
+    const req = http.request(`${baseUrl}/`);
+    expect(req.listenerCount('error')).toBe(0);
+    expect(req.listenerCount('response')).toBe(0);
+    req.on('error', () => undefined);
+    req.destroy();
+  });
+
+  it('records network failures and still lets an unhandled request error throw', async () => {
+    const requests: HttpRequestInfo[] = [];
+    uninstall = instrumentNodeHttp({ onComplete: info => { requests.push(info); } });
+
+    const req = http.request('http://127.0.0.1:1/');
+    const thrown = await new Promise<unknown>(resolve => {
+      const originalEmit = req.emit;
+      // Stand in for the process: Node throws from emit('error') when nobody listens
+      req.emit = function (this: unknown, event: string | symbol, ...args: any[]) {
+        try {
+          return originalEmit.call(this, event, ...args);
+        } catch (error) {
+          resolve(error);
+          return false;
+        }
+      } as typeof req.emit;
+      req.end();
+    });
+
+    expect(thrown).toMatchObject({ code: 'ECONNREFUSED' });
+    expect(requests).toEqual([expect.objectContaining({ url: 'http://127.0.0.1:1/', error: thrown })]);
+  });
+
+  it('skips ignored URLs and restores the original functions', () => {
+    const originalRequest = http.request;
+    const remove = instrumentNodeHttp({ shouldIgnore: () => true, onComplete: () => undefined });
+    expect(http.request).not.toBe(originalRequest);
+
+    remove();
+    expect(http.request).toBe(originalRequest);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import type { ErrorReport } from '../monitor';
+import { EventHint, EventProcessor, ProcessorPipeline } from '../processors';
+import { createDefaultProcessors, shouldReportError } from '../utils/errorFiltering';
+
+function createReport(overrides: Partial<ErrorReport> = {}): ErrorReport {
+  return {
+    message: 'boom',
+    errorType: 'customError',
+    severity: 'medium',
+    environment: 'test',
+    accessToken: 'token',
+    timestamp: 1700000000000,
+    ...overrides,
+  };
+}
+
+const hint: EventHint = { originalMessage: 'boom' };
+
+function tagging(name: string): EventProcessor {
+  return {
+    name,
+    process: report => ({ ...report, tags: { ...report.tags, [name]: String(Object.keys(report.tags || {}).length) } }),
+  };
+}
+
+describe('ProcessorPipeline', () => {
+  it('runs processors in order, each seeing the previous result', async () => {
+    const pipeline = new ProcessorPipeline([tagging('first'), tagging('second')]);
+    pipeline.add(tagging('third'));
+    pipeline.add(tagging('zeroth'), 0);
+
+    const report = await pipeline.run(createReport(), hint);
+
+    expect(pipeline.names()).toEqual(['zeroth', 'first', 'second', 'third']);
+    expect(report?.tags).toEqual({ zeroth: '0', first: '1', second: '2', third: '3' });
+  });
+
+  it('awaits async processors', async () => {
+    const pipeline = new ProcessorPipeline([
+      { name: 'async', process: async report => ({ ...report, severity: 'high' }) },
+    ]);
+
+    await expect(pipeline.run(createReport(), hint)).resolves.toMatchObject({ severity: 'high' });
+  });
+
+  it('stops at the first processor that drops the report', async () => {
+    const later = jest.fn((report: ErrorReport) => report);
+    const pipeline = new ProcessorPipeline([{ name: 'drop', process: () => null }, { name: 'later', process: later }]);
+
+    await expect(pipeline.run(createReport(), hint)).resolves.toBeNull();
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('skips a processor that throws and reports the error', async () => {
+    const failure = new Error('processor bug');
+    const onError = jest.fn<(name: string, error: unknown) => void>();
+    const pipeline = new ProcessorPipeline([
+      { name: 'broken', process: () => { throw failure; } },
+      tagging('after'),
+    ]);
+
+    const report = await pipeline.run(createReport(), hint, onError);
+
+    expect(onError).toHaveBeenCalledWith('broken', failure);
+    expect(report?.tags).toEqual({ after: '0' });
+  });
+
+  it('removes processors by name', () => {
+    const pipeline = new ProcessorPipeline([tagging('a'), tagging('b')]);
+
+    expect(pipeline.remove('a')).toBe(true);
+    expect(pipeline.remove('a')).toBe(false);
+    expect(pipeline.names()).toEqual(['b']);
+  });
+});
+
+describe('default filters', () => {
+  const nodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = nodeEnv;
+  });
+
+  it('drop extension, ad blocker and offline fetch errors', async () => {
+    const pipeline = new ProcessorPipeline(createDefaultProcessors());
+    const run = (error: Error, metadata?: Record<string, unknown>) =>
+      pipeline.run(createReport({ metadata }), { originalMessage: error.message, error });
+
+    await expect(run(new Error('at chrome-extension://abc/script.js'))).resolves.toBeNull();
+    await expect(run(new Error('Script error.'))).resolves.toBeNull();
+    await expect(run(new Error('Failed to fetch'), { status: 0 })).resolves.toBeNull();
+    await expect(run(new Error('Failed to fetch'), { status: 502 })).resolves.not.toBeNull();
+  });
+
+  it('drop everything in development', () => {
+    process.env.NODE_ENV = 'development';
+    expect(shouldReportError(new Error('boom'))).toBe(false);
+
+    process.env.NODE_ENV = 'production';
+    expect(shouldReportError(new Error('boom'))).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { DeliveryQueue, MemoryQueueStorage, QueuedPayload, getRetryDelay, isRetryableError } from '../queue';
+
+function httpError(status: number): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, {
+    status,
+    statusText: '',
+    headers: {},
+    config,
+    data: null,
+  });
+}
+
+describe('DeliveryQueue', () => {
+  let queue: DeliveryQueue | undefined;
+
+  afterEach(() => {
+    queue?.stop();
+    queue = undefined;
+  });
+
+  it('delivers a payload right away and reports it as not pending', async () => {
+    const sent: unknown[] = [];
+    queue = new DeliveryQueue(async payload => { sent.push(payload); }, new MemoryQueueStorage());
+
+    await expect(queue.enqueue({ n: 1 })).resolves.toBe(false);
+    expect(sent).toEqual([{ n: 1 }]);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('keeps failed payloads for a retry and persists them', async () => {
+    const storage = new MemoryQueueStorage();
+    queue = new DeliveryQueue(async () => { throw new Error('offline'); }, storage, { baseDelayMs: 60000 });
+
+    await expect(queue.enqueue({ n: 1 })).resolves.toBe(true);
+    const stored = await storage.load();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].attempts).toBe(1);
+    expect(stored[0].nextAttemptAt).toBeGreaterThan(Date.now());
+  });
+
+  it('reports a delivered payload as not pending while older payloads still wait', async () => {
+    let online = false;
+    queue = new DeliveryQueue(async () => {
+      if (!online) throw new Error('offline');
+    }, new MemoryQueueStorage(), { baseDelayMs: 60000 });
+
+    await queue.enqueue({ n: 1 });
+    online = true;
+
+    await expect(queue.enqueue({ n: 2 })).resolves.toBe(false);
+    expect(queue.size()).toBe(1);
+  });
+
+  it('drops payloads the receiver rejects', async () => {
+    const dropped: string[] = [];
+    queue = new DeliveryQueue(async () => { throw httpError(400); }, new MemoryQueueStorage(), {}, (_item, reason) => {
+      dropped.push(reason);
+    });
+
+    await expect(queue.enqueue({ n: 1 })).resolves.toBe(false);
+    expect(queue.size()).toBe(0);
+    expect(dropped).toEqual([expect.stringContaining('rejected by receiver')]);
+  });
+
+  it('drops the oldest payloads beyond maxSize', async () => {
+    const dropped: QueuedPayload[] = [];
+    queue = new DeliveryQueue(async () => { throw new Error('offline'); }, new MemoryQueueStorage(), {
+      maxSize: 2,
+      baseDelayMs: 60000,
+    }, item => { dropped.push(item); });
+
+    await queue.enqueue('a');
+    await queue.enqueue('b');
+    await queue.enqueue('c');
+
+    expect(queue.size()).toBe(2);
+    expect(dropped.map(item => item.payload)).toEqual(['a']);
+  });
+
+  it('replays stored payloads on restore', async () => {
+    const storage = new MemoryQueueStorage();
+    await storage.save([{ id: 'stored', payload: 'old', createdAt: Date.now(), attempts: 3, nextAttemptAt: Date.now() + 60000 }]);
+    const sent: unknown[] = [];
+    queue = new DeliveryQueue(async payload => { sent.push(payload); }, storage);
+
+    await expect(queue.restore()).resolves.toBe(1);
+    await queue.flush();
+    expect(sent).toEqual(['old']);
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it('skips payloads older than maxAgeMs on restore', async () => {
+    const storage = new MemoryQueueStorage();
+    await storage.save([{ id: 'stale', payload: 'old', createdAt: Date.now() - 10000, attempts: 1, nextAttemptAt: 0 }]);
+    const send = jest.fn(async () => undefined);
+    queue = new DeliveryQueue(send, storage, { maxAgeMs: 1000 });
+
+    await expect(queue.restore()).resolves.toBe(0);
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries network errors, server errors, timeouts and rate limits', () => {
+    expect(isRetryableError(new Error('ECONNRESET'))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(httpError(408))).toBe(true);
+    expect(isRetryableError(httpError(429))).toBe(true);
+  });
+
+  it('does not retry other client errors', () => {
+    expect(isRetryableError(httpError(401))).toBe(false);
+    expect(isRetryableError(httpError(422))).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles the delay per attempt within the jitter range and caps it', () => {
+    for (let attempts = 1; attempts <= 4; attempts++) {
+      const delay = getRetryDelay(attempts, 1000, 60000);
+      const exponential = 1000 * 2 ** (attempts - 1);
+      expect(delay).toBeGreaterThanOrEqual(exponential / 2);
+      expect(delay).toBeLessThanOrEqual(exponential);
+    }
+    expect(getRetryDelay(20, 1000, 60000)).toBeLessThanOrEqual(60000);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ReportThrottle, TokenBucket } from '../rateLimiter';
+import type { ErrorReport } from '../monitor';
+
+function createReport(overrides: Partial<ErrorReport> = {}): ErrorReport {
+  return {
+    message: 'boom',
+    errorType: 'customError',
+    severity: 'medium',
+    environment: 'test',
+    accessToken: 'token',
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows a burst up to its capacity and refills over time', () => {
+    const bucket = new TokenBucket(2, 1);
+
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+  });
+
+  it('never refills beyond its capacity', () => {
+    const bucket = new TokenBucket(1, 10);
+    jest.advanceTimersByTime(10000);
+
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+  });
+});
+
+describe('ReportThrottle', () => {
+  it('passes reports through unchanged while nothing was dropped', () => {
+    const throttle = new ReportThrottle();
+    const report = createReport();
+
+    expect(throttle.admit(report)).toBe(report);
+  });
+
+  it('counts rate-limited occurrences and attaches them to the next report sent', () => {
+    jest.useFakeTimers();
+    try {
+      const throttle = new ReportThrottle({ capacity: 1, refillPerSecond: 1 });
+
+      expect(throttle.admit(createReport())).not.toBeNull();
+      expect(throttle.admit(createReport())).toBeNull();
+      expect(throttle.admit(createReport({ occurrences: 4 }))).toBeNull();
+
+      jest.advanceTimersByTime(1000);
+      expect(throttle.admit(createReport())?.sampling).toEqual({ rate: 1, rateLimited: 5, sampledOut: 0 });
+      jest.advanceTimersByTime(1000);
+      expect(throttle.admit(createReport())?.sampling).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('samples per severity and reports the rate and sampled-out count', () => {
+    const draws = [0.9, 0.1];
+    const throttle = new ReportThrottle({}, { low: 0.5 }, () => draws.shift() as number);
+
+    expect(throttle.admit(createReport({ severity: 'low' }))).toBeNull();
+    expect(throttle.admit(createReport({ severity: 'low' }))?.sampling).toEqual({ rate: 0.5, rateLimited: 0, sampledOut: 1 });
+    expect(throttle.admit(createReport({ severity: 'critical' }))?.sampling).toBeUndefined();
+  });
+
+  it('clamps sample rates to the range 0 to 1', () => {
+    const throttle = new ReportThrottle({}, { low: -1, high: 5 }, () => 0);
+
+    expect(throttle.admit(createReport({ severity: 'low' }))).toBeNull();
+    expect(throttle.admit(createReport({ severity: 'high' }))).not.toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs';
+import type * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { rotateAccessToken } from '../rotateToken';
+import { createTailServer } from '../tail';
+import { TokenStore } from '../utils/tokenStore';
+import { setPlatform } from '../platform';
+import { nodePlatform } from '../nodePlatform';
+
+setPlatform(nodePlatform);
+
+const ENV_KEYS = ['WINGMAN_ENV', 'NODE_ENV', 'WINGMAN_ACCESS_TOKEN', 'WINGMAN_WEBHOOK_URL', 'WINGMAN_CONFIG_DIR', 'WINGMAN_STORE_PASSPHRASE', 'WINGMAN_ROTATE_TOKEN'];
+const OLD_TOKEN = 'old-access-token';
+const NEW_TOKEN = 'new-access-token';
+
+describe('rotateAccessToken', () => {
+  let projectPath: string;
+  let server: http.Server;
+  let webhookUrl: string;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(async () => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-rotate-'));
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    process.env.WINGMAN_CONFIG_DIR = path.join(projectPath, 'user-config');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    // The tail server answers the handshake for NEW_TOKEN only
+    server = createTailServer({ accessToken: NEW_TOKEN, projectId: 'project-1', log: () => undefined });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    jest.restoreAllMocks();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    }
+  });
+
+  const configPath = () => path.join(projectPath, '.wingman.json');
+  const writeConfig = (file: Record<string, unknown>) => {
+    fs.writeFileSync(configPath(), JSON.stringify({ schemaVersion: 2, transport: { type: 'webhook', url: webhookUrl }, ...file }));
+  };
+  const readConfig = () => JSON.parse(fs.readFileSync(configPath(), 'utf8'));
+  const rotate = (token: string, options: { profile?: string; force?: boolean } = {}) =>
+    rotateAccessToken(token, { projectPath, ...options });
+
+  it('reports a project without .wingman.json', async () => {
+    await expect(rotate(NEW_TOKEN)).resolves.toEqual({ status: 'uninitialized' });
+  });
+
+  it('verifies the new token with the configured webhook and stores it with the projectId', async () => {
+    writeConfig({ accessToken: OLD_TOKEN });
+    const onVerify = jest.fn<(url: string) => void>();
+
+    const result = await rotateAccessToken(NEW_TOKEN, { projectPath, onVerify });
+
+    expect(result).toEqual({ status: 'rotated', profile: undefined, reference: null, inherited: false });
+    expect(onVerify).toHaveBeenCalledWith(webhookUrl);
+    expect(readConfig()).toMatchObject({ accessToken: NEW_TOKEN, projectId: 'project-1' });
+  });
+
+  it('keeps the current token when the new one is the same or rejected', async () => {
+    writeConfig({ accessToken: NEW_TOKEN });
+    await expect(rotate(NEW_TOKEN)).resolves.toEqual({ status: 'unchanged' });
+
+    writeConfig({ accessToken: OLD_TOKEN });
+    await expect(rotate('unknown-token')).resolves.toEqual({ status: 'rejected', message: 'Access token is invalid or unauthorized.' });
+    expect(readConfig().accessToken).toBe(OLD_TOKEN);
+  });
+
+  it('refuses a token for another project unless forced', async () => {
+    writeConfig({ accessToken: OLD_TOKEN, projectId: 'project-2' });
+
+    await expect(rotate(NEW_TOKEN)).resolves.toEqual({ status: 'projectMismatch', projectId: 'project-1', configuredProjectId: 'project-2' });
+    expect(readConfig()).toMatchObject({ accessToken: OLD_TOKEN, projectId: 'project-2' });
+
+    await expect(rotate(NEW_TOKEN, { force: true })).resolves.toMatchObject({ status: 'rotated' });
+    expect(readConfig()).toMatchObject({ accessToken: NEW_TOKEN, projectId: 'project-1' });
+  });
+
+  describe('with profiles', () => {
+    it('gives a profile that inherits the shared token its own', async () => {
+      writeConfig({ accessToken: OLD_TOKEN, profiles: { staging: { environment: 'staging' }, production: {} } });
+
+      await expect(rotate(NEW_TOKEN, { profile: 'staging' })).resolves.toEqual({ status: 'rotated', profile: 'staging', reference: null, inherited: true });
+
+      expect(readConfig()).toMatchObject({
+        accessToken: OLD_TOKEN,
+        profiles: { staging: { environment: 'staging', accessToken: NEW_TOKEN, projectId: 'project-1' }, production: {} },
+      });
+    });
+
+    it('replaces the token a profile sets itself', async () => {
+      writeConfig({ accessToken: OLD_TOKEN, profiles: { staging: { accessToken: 'staging-token' } } });
+
+      await expect(rotate(NEW_TOKEN, { profile: 'staging' })).resolves.toMatchObject({ status: 'rotated', inherited: false });
+      expect(readConfig()).toMatchObject({ accessToken: OLD_TOKEN, profiles: { staging: { accessToken: NEW_TOKEN } } });
+    });
+  });
+
+  describe('with a token reference', () => {
+    it('replaces the token in the store and keeps the reference', async () => {
+      new TokenStore().set('default', OLD_TOKEN);
+      writeConfig({ accessToken: 'store:default' });
+
+      await expect(rotate(NEW_TOKEN)).resolves.toEqual({ status: 'rotated', profile: undefined, reference: { type: 'store', name: 'default' }, inherited: false });
+
+      expect(new TokenStore().get('default')).toBe(NEW_TOKEN);
+      expect(readConfig().accessToken).toBe('store:default');
+    });
+
+    it('refuses to rotate a store entry that a profile shares with the defaults', async () => {
+      new TokenStore().set('default', OLD_TOKEN);
+      writeConfig({ accessToken: 'store:default', profiles: { staging: {} } });
+
+      await expect(rotate(NEW_TOKEN, { profile: 'staging' })).resolves.toEqual({ status: 'sharedStoreToken', profile: 'staging', accessToken: 'store:default' });
+      expect(new TokenStore().get('default')).toBe(OLD_TOKEN);
+    });
+
+    it('leaves an environment variable to the caller', async () => {
+      process.env.WINGMAN_ROTATE_TOKEN = OLD_TOKEN;
+      writeConfig({ accessToken: 'env:WINGMAN_ROTATE_TOKEN' });
+
+      await expect(rotate(NEW_TOKEN)).resolves.toMatchObject({ status: 'rotated', reference: { type: 'env', name: 'WINGMAN_ROTATE_TOKEN' } });
+
+      expect(readConfig()).toMatchObject({ accessToken: 'env:WINGMAN_ROTATE_TOKEN', projectId: 'project-1' });
+      expect(process.env.WINGMAN_ROTATE_TOKEN).toBe(OLD_TOKEN);
+    });
+  });
+});
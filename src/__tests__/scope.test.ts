@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WingmanMonitor } from '../monitor';
+import { SyncContext, createAsyncContext } from '../asyncContext';
+import { setPlatform } from '../platform';
+import { nodePlatform } from '../nodePlatform';
+import type { WingmanPayload } from '../transports';
+
+setPlatform(nodePlatform);
+
+const tick = (ms = 5) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('monitor scopes', () => {
+  let projectPath: string;
+  let monitor: WingmanMonitor;
+  let reports: Record<string, any>[];
+
+  beforeEach(async () => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-scope-'));
+    reports = [];
+    // The monitor keeps the console functions it finds, so these stay silent after start()
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    monitor = new WingmanMonitor({
+      projectPath,
+      config: { accessToken: 'token', enabled: true, environment: 'test', dedupe: { windowMs: 0 } },
+      defaultProcessors: false,
+      transport: {
+        name: 'memory',
+        send: async (payload: WingmanPayload) => { reports.push(payload.data); },
+      },
+    });
+    await monitor.start();
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    jest.restoreAllMocks();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  const reportFor = (message: string) => reports.find(report => report.message.startsWith(message));
+
+  it('attaches the global user, tags and contexts outside of any scope', async () => {
+    monitor.setUser({ id: '1', username: 'jane' });
+    monitor.setTag('region', 'eu');
+    monitor.setContext('build', { number: 42 });
+
+    await monitor.reportCustomError(new Error('global'));
+
+    expect(reportFor('global')).toMatchObject({
+      user: { id: '1', username: 'jane' },
+      tags: { region: 'eu' },
+      contexts: { build: { number: 42 } },
+    });
+  });
+
+  it('removes the user and contexts with null', async () => {
+    monitor.setUser({ id: '1' });
+    monitor.setContext('build', { number: 42 });
+    monitor.setUser(null);
+    monitor.setContext('build', null);
+
+    await monitor.reportCustomError(new Error('cleared'));
+
+    expect(reportFor('cleared')?.user).toBeUndefined();
+    expect(reportFor('cleared')?.contexts).toBeUndefined();
+  });
+
+  it('keeps concurrent request scopes apart across awaits', async () => {
+    monitor.setTag('region', 'eu');
+
+    const handle = (id: string, delay: number) => monitor.withRequestScope({ id, method: 'GET', path: `/${id}` }, async () => {
+      monitor.setUser({ id: `user-${id}` });
+      monitor.setTag('tenant', `tenant-${id}`);
+      monitor.addBreadcrumb({ message: `started ${id}` });
+      await tick(delay);
+      monitor.addBreadcrumb({ message: `resumed ${id}` });
+      await monitor.reportCustomError(new Error(`failed ${id}`));
+    });
+
+    await Promise.all([handle('a', 20), handle('b', 5)]);
+    await monitor.reportCustomError(new Error('outside'));
+
+    for (const id of ['a', 'b']) {
+      const report = reportFor(`failed ${id}`);
+      expect(report?.user).toEqual({ id: `user-${id}` });
+      expect(report?.tags).toEqual({ region: 'eu', tenant: `tenant-${id}` });
+      expect(report?.metadata.request).toMatchObject({ id, path: `/${id}` });
+      expect(report?.breadcrumbs.map((crumb: { message: string }) => crumb.message)).toEqual([`started ${id}`, `resumed ${id}`]);
+    }
+    expect(reportFor('outside')?.user).toBeUndefined();
+    expect(reportFor('outside')?.tags).toEqual({ region: 'eu' });
+    expect(reportFor('outside')?.metadata?.request).toBeUndefined();
+  });
+
+  it('limits withScope changes to the callback and shares the request breadcrumbs', async () => {
+    await monitor.withRequestScope({ id: 'r', method: 'POST', path: '/orders' }, async () => {
+      monitor.setUser({ id: 'buyer' });
+
+      await monitor.withScope(async scope => {
+        scope.setTag('step', 'payment');
+        monitor.setContext('order', { id: 7 });
+        monitor.addBreadcrumb({ message: 'charging card' });
+        await tick();
+        await monitor.reportCustomError(new Error('inner'));
+      });
+
+      await monitor.reportCustomError(new Error('outer'));
+    });
+
+    expect(reportFor('inner')).toMatchObject({ user: { id: 'buyer' }, tags: { step: 'payment' }, contexts: { order: { id: 7 } } });
+    expect(reportFor('outer')?.user).toEqual({ id: 'buyer' });
+    expect(reportFor('outer')?.tags).toBeUndefined();
+    expect(reportFor('outer')?.contexts).toBeUndefined();
+    expect(reportFor('outer')?.breadcrumbs.map((crumb: { message: string }) => crumb.message)).toContain('charging card');
+  });
+
+  it('adds tags passed with a report to the scope tags', async () => {
+    monitor.setTag('region', 'eu');
+
+    await monitor.reportCustomError(new Error('tagged'), undefined, { tags: { boundaryName: 'checkout' } });
+
+    expect(reportFor('tagged')?.tags).toEqual({ region: 'eu', boundaryName: 'checkout' });
+  });
+});
+
+describe('async contexts', () => {
+  it('follows awaits with AsyncLocalStorage in Node.js', async () => {
+    const context = createAsyncContext<string>();
+
+    await context.run('outer', async () => {
+      await tick();
+      expect(context.get()).toBe('outer');
+    });
+    expect(context.get()).toBeUndefined();
+  });
+
+  it('only covers the synchronous part of run() without AsyncLocalStorage', async () => {
+    const context = new SyncContext<string>();
+
+    const pending = context.run('value', async () => {
+      expect(context.get()).toBe('value');
+      await tick();
+      return context.get();
+    });
+
+    await expect(pending).resolves.toBeUndefined();
+  });
+});
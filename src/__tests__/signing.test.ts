@@ -0,0 +1,60 @@
+import { describe, expect, it } from '@jest/globals';
+import { NONCE_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload } from '../signing';
+import { MemoryNonceStore, verifyWingmanSignature } from '../verifySignature';
+
+const SECRET = 'project-token';
+const BODY = JSON.stringify({ event: 'error.reported', data: { message: 'boom' } });
+
+describe('signPayload and verifyWingmanSignature', () => {
+  it('produces headers that verify against the same body and secret', async () => {
+    const headers = await signPayload(BODY, SECRET);
+
+    expect(headers[SIGNATURE_HEADER]).toMatch(/^v1=[0-9a-f]{64}$/);
+    expect(headers[NONCE_HEADER]).toMatch(/^[0-9a-f]{32}$/);
+    expect(verifyWingmanSignature({ body: BODY, headers: { ...headers }, secret: SECRET })).toEqual({ valid: true });
+  });
+
+  it('matches the signature computed with Node crypto', async () => {
+    const crypto = require('crypto');
+    const headers = await signPayload(BODY, SECRET, 1700000000, 'abc');
+    const expected = crypto.createHmac('sha256', SECRET).update(`1700000000.abc.${BODY}`).digest('hex');
+
+    expect(headers[SIGNATURE_HEADER]).toBe(`v1=${expected}`);
+  });
+
+  it('accepts header names in any case and a Buffer body', async () => {
+    const headers = await signPayload(BODY, SECRET);
+    const upper = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toUpperCase(), value]));
+
+    expect(verifyWingmanSignature({ body: Buffer.from(BODY), headers: upper, secret: SECRET }).valid).toBe(true);
+  });
+
+  it('rejects a modified body or the wrong secret', async () => {
+    const headers = await signPayload(BODY, SECRET);
+
+    expect(verifyWingmanSignature({ body: `${BODY} `, headers: { ...headers }, secret: SECRET })).toEqual({ valid: false, reason: 'mismatch' });
+    expect(verifyWingmanSignature({ body: BODY, headers: { ...headers }, secret: 'other' })).toEqual({ valid: false, reason: 'mismatch' });
+  });
+
+  it('rejects missing, malformed and expired signatures', async () => {
+    const headers = await signPayload(BODY, SECRET, 1700000000);
+
+    expect(verifyWingmanSignature({ body: BODY, headers: {}, secret: SECRET }).reason).toBe('missing');
+    expect(verifyWingmanSignature({ body: BODY, headers: { ...headers, [SIGNATURE_HEADER]: 'v0=abc' }, secret: SECRET }).reason).toBe('malformed');
+    expect(verifyWingmanSignature({ body: BODY, headers: { ...headers }, secret: SECRET, now: 1700000000 * 1000 + 301000 }).reason).toBe('expired');
+    expect(verifyWingmanSignature({ body: BODY, headers: { ...headers }, secret: SECRET, now: 1700000000 * 1000 + 299000 }).valid).toBe(true);
+  });
+
+  it('rejects a replayed nonce', async () => {
+    const headers = await signPayload(BODY, SECRET);
+    const nonceStore = new MemoryNonceStore();
+
+    expect(verifyWingmanSignature({ body: BODY, headers: { ...headers }, secret: SECRET, nonceStore }).valid).toBe(true);
+    expect(verifyWingmanSignature({ body: BODY, headers: { ...headers }, secret: SECRET, nonceStore })).toEqual({ valid: false, reason: 'replayed' });
+  });
+
+  it('signs the timestamp it was given', async () => {
+    const headers = await signPayload(BODY, SECRET, 1700000000);
+    expect(headers[TIMESTAMP_HEADER]).toBe('1700000000');
+  });
+});
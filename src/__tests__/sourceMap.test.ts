@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourceMapConsumer, decodeVlq } from '../sourcemaps/sourceMap';
+import { SourceMapResolver } from '../sourcemaps/resolver';
+import type { StackFrame } from '../utils/stackParser';
+
+// app.min.js is "function greet(n){throw new Error("Hello "+n)}", built from src/greet.js
+const FIXTURES = path.join(__dirname, 'fixtures', 'sourcemaps');
+
+function minifiedFrame(file: string, column: number): StackFrame {
+  return { function: 'greet', file, line: 1, column, inApp: true };
+}
+
+describe('decodeVlq', () => {
+  it('decodes single and multi-digit, positive and negative values', () => {
+    expect(decodeVlq('AAAA')).toEqual([0, 0, 0, 0]);
+    expect(decodeVlq('SAASA')).toEqual([9, 0, 0, 9, 0]);
+    expect(decodeVlq('GACpB')).toEqual([3, 0, 1, -20]);
+    expect(decodeVlq('gC')).toEqual([32]);
+  });
+
+  it('rejects characters outside the base64 alphabet', () => {
+    expect(() => decodeVlq('A!')).toThrow('Invalid base64 VLQ character "!"');
+  });
+});
+
+describe('SourceMapConsumer', () => {
+  const consumer = SourceMapConsumer.fromJSON(fs.readFileSync(path.join(FIXTURES, 'app.min.js.map'), 'utf8'));
+
+  it('maps a generated column to the last segment starting at or before it', () => {
+    expect(consumer.originalPositionFor(1, 9)).toEqual({ source: 'webpack://app/./src/greet.js', line: 1, column: 16, name: 'greet' });
+    expect(consumer.originalPositionFor(1, 12)).toMatchObject({ line: 1, column: 16, name: 'greet' });
+    expect(consumer.originalPositionFor(1, 18)).toEqual({ source: 'webpack://app/./src/greet.js', line: 2, column: 2, name: undefined });
+    expect(consumer.originalPositionFor(1, 30)).toMatchObject({ line: 2, column: 8 });
+  });
+
+  it('returns null for lines without mappings', () => {
+    expect(consumer.originalPositionFor(2, 0)).toBeNull();
+    expect(consumer.lineCount).toBe(1);
+  });
+
+  it('refuses maps other than version 3', () => {
+    expect(() => new SourceMapConsumer({ version: 2, sources: [], mappings: '' })).toThrow('Unsupported source map version 2');
+  });
+});
+
+describe('SourceMapResolver', () => {
+  it('resolves a frame through the sourceMappingURL comment and adds context lines', async () => {
+    const resolver = new SourceMapResolver({ directory: FIXTURES, contextLines: 1 });
+
+    const frame = await resolver.resolveFrame(minifiedFrame('https://example.com/static/app.min.js?v=2', 19));
+
+    expect(frame.original).toEqual({ file: 'src/greet.js', line: 2, column: 3, function: 'greet' });
+    expect(frame.context).toEqual({
+      pre: ['export function greet(name) {'],
+      line: "  throw new Error('Hello ' + name);",
+      post: ['}'],
+    });
+  });
+
+  describe('in a temporary build directory', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-sourcemaps-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('reads an inline map with embedded sources', async () => {
+      const map = { version: 3, sources: ['greet.ts'], sourcesContent: ['const a = 1;\nthrow a;'], names: [], mappings: 'AACA' };
+      fs.writeFileSync(path.join(directory, 'inline.js'),
+        `throw a;\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(JSON.stringify(map)).toString('base64')}\n`);
+
+      const frame = await new SourceMapResolver({ directory }).resolveFrame(minifiedFrame('/inline.js', 1));
+
+      expect(frame.original).toMatchObject({ file: 'greet.ts', line: 2, column: 1 });
+      expect(frame.context?.line).toBe('throw a;');
+    });
+
+    it('leaves frames unchanged when no map is found', async () => {
+      const frame = minifiedFrame('https://example.com/missing.js', 19);
+
+      await expect(new SourceMapResolver({ directory }).resolveFrame(frame)).resolves.toBe(frame);
+    });
+
+    it('leaves frames unchanged when the map is malformed', async () => {
+      fs.writeFileSync(path.join(directory, 'broken.js'), 'throw 1;\n');
+      fs.writeFileSync(path.join(directory, 'broken.js.map'), '{"version":3,"mappings":');
+      const frame = minifiedFrame('/broken.js', 1);
+
+      await expect(new SourceMapResolver({ directory }).resolveFrame(frame)).resolves.toBe(frame);
+    });
+
+    it('leaves frames without a column unchanged', async () => {
+      const frame: StackFrame = { file: path.join(FIXTURES, 'app.min.js'), line: 1, inApp: true };
+
+      await expect(new SourceMapResolver({ directory: FIXTURES }).resolveFrame(frame)).resolves.toBe(frame);
+    });
+  });
+});
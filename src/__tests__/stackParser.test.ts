@@ -0,0 +1,117 @@
+import { describe, expect, it } from '@jest/globals';
+import { isInAppFile, parseStack } from '../utils/stackParser';
+import { computeFingerprint, normalizeMessage, normalizeStack } from '../utils/fingerprint';
+
+const V8_STACK = [
+  'TypeError: Cannot read properties of undefined (reading \'id\') at line @ 3',
+  '    at getUser (/srv/app/src/users.js:12:15)',
+  '    at async Promise.all (index 0)',
+  '    at async handler (/srv/app/src/routes.js:40:3)',
+  '    at Layer.handle (/srv/app/node_modules/express/lib/router/layer.js:95:5)',
+  '    at new Widget (https://example.com/static/app.js?v=3:1:200)',
+  '    at <anonymous>:1:1',
+  '    at eval (eval at compile (/srv/app/src/template.js:8:10), <anonymous>:2:7)',
+  '    at /srv/app/src/index.js:5:1',
+  '    at node:internal/process/task_queues:95:5',
+].join('\n');
+
+const GECKO_STACK = [
+  'getUser@https://example.com/static/app.js:12:15',
+  'handler/<@https://example.com/static/app.js:40:3',
+  '@https://example.com/static/app.js:5:1',
+  'run@https://example.com/static/app.js line 8 > eval:2:7',
+  'dispatch@https://example.com/node_modules/react-dom/index.js:100:9',
+].join('\n');
+
+const JSC_STACK = [
+  'getUser@https://example.com/static/app.js:12:15',
+  'global code@https://example.com/static/app.js:5:1',
+  'forEach@[native code]',
+  'https://example.com/static/app.js:7:3',
+  '[native code]',
+].join('\n');
+
+describe('parseStack', () => {
+  it('parses V8 frames, dropping the message and unwrapping async and eval frames', () => {
+    expect(parseStack(V8_STACK)).toEqual([
+      { function: 'getUser', file: '/srv/app/src/users.js', line: 12, column: 15, inApp: true },
+      { function: 'Promise.all', file: 'index 0', inApp: false },
+      { function: 'handler', file: '/srv/app/src/routes.js', line: 40, column: 3, inApp: true },
+      { function: 'Layer.handle', file: '/srv/app/node_modules/express/lib/router/layer.js', line: 95, column: 5, inApp: false },
+      { function: 'new Widget', file: 'https://example.com/static/app.js?v=3', line: 1, column: 200, inApp: true },
+      { function: undefined, file: '<anonymous>', line: 1, column: 1, inApp: false },
+      { function: 'eval', file: '/srv/app/src/template.js', line: 8, column: 10, inApp: true },
+      { function: undefined, file: '/srv/app/src/index.js', line: 5, column: 1, inApp: true },
+      { function: undefined, file: 'node:internal/process/task_queues', line: 95, column: 5, inApp: false },
+    ]);
+  });
+
+  it('parses SpiderMonkey frames, including anonymous and eval frames', () => {
+    expect(parseStack(GECKO_STACK)).toEqual([
+      { function: 'getUser', file: 'https://example.com/static/app.js', line: 12, column: 15, inApp: true },
+      { function: 'handler/<', file: 'https://example.com/static/app.js', line: 40, column: 3, inApp: true },
+      { function: undefined, file: 'https://example.com/static/app.js', line: 5, column: 1, inApp: true },
+      { function: 'run', file: 'https://example.com/static/app.js', line: 8, column: undefined, inApp: true },
+      { function: 'dispatch', file: 'https://example.com/node_modules/react-dom/index.js', line: 100, column: 9, inApp: false },
+    ]);
+  });
+
+  it('parses JavaScriptCore frames, including global code, bare locations and native code', () => {
+    expect(parseStack(JSC_STACK)).toEqual([
+      { function: 'getUser', file: 'https://example.com/static/app.js', line: 12, column: 15, inApp: true },
+      { function: undefined, file: 'https://example.com/static/app.js', line: 5, column: 1, inApp: true },
+      { function: 'forEach', file: '[native code]', inApp: false },
+      { function: undefined, file: 'https://example.com/static/app.js', line: 7, column: 3, inApp: true },
+      { function: undefined, file: '[native code]', inApp: false },
+    ]);
+  });
+
+  it('returns no frames for a missing stack or one without frames', () => {
+    expect(parseStack(undefined)).toEqual([]);
+    expect(parseStack('Error: no frames here')).toEqual([]);
+  });
+});
+
+describe('isInAppFile', () => {
+  it('excludes dependencies, runtime internals and the monitor', () => {
+    expect(isInAppFile('/srv/app/src/index.js')).toBe(true);
+    expect(isInAppFile('C:\\app\\node_modules\\lib\\index.js')).toBe(false);
+    expect(isInAppFile('node:fs')).toBe(false);
+    expect(isInAppFile('/srv/app/node_modules/wingman-monitor/dist/monitor.js')).toBe(false);
+  });
+});
+
+describe('fingerprinting', () => {
+  it('normalizes values that vary between occurrences out of the message', () => {
+    expect(normalizeMessage('User 42 not found at https://api.example.com/users/42 (id 0x1f, 3f2504e0-4f89-11d3-9a0c-0305e82c3301)'))
+      .toBe('User <n> not found at <url> (id <hex>, <uuid>)');
+  });
+
+  it('uses the in-app frames without positions, query strings or hosts', () => {
+    expect(normalizeStack(V8_STACK)).toEqual([
+      'getUser /srv/app/src/users.js',
+      'handler /srv/app/src/routes.js',
+      'new Widget /static/app.js',
+      'eval /srv/app/src/template.js',
+      '<anonymous> /srv/app/src/index.js',
+    ]);
+  });
+
+  it('is stable across line numbers, values and deployments', () => {
+    const fingerprint = computeFingerprint('TypeError', 'User 42 not found', V8_STACK);
+
+    // Pinned, since a change would split every existing group after an upgrade
+    expect(fingerprint).toBe('1c31bf643a224c');
+    expect(computeFingerprint('TypeError', 'User 7 not found', V8_STACK.replace(/:12:15/, ':14:3').replace('?v=3', '?v=4')))
+      .toBe(fingerprint);
+    expect(computeFingerprint('TypeError', 'User 42 not found', parseStack(V8_STACK))).toBe(fingerprint);
+  });
+
+  it('differs by error type, message template and frames', () => {
+    const fingerprint = computeFingerprint('TypeError', 'User 42 not found', V8_STACK);
+
+    expect(computeFingerprint('RangeError', 'User 42 not found', V8_STACK)).not.toBe(fingerprint);
+    expect(computeFingerprint('TypeError', 'Order 42 not found', V8_STACK)).not.toBe(fingerprint);
+    expect(computeFingerprint('TypeError', 'User 42 not found', GECKO_STACK)).not.toBe(fingerprint);
+  });
+});
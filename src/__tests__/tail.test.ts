@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import type * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { TailServerOptions, createTailServer, formatReport } from '../tail';
+import { signPayload } from '../signing';
+
+const TOKEN = 'project-token';
+
+function runtimePayload(message = 'boom'): string {
+  return JSON.stringify({ event: 'error.runtime', data: { message, severity: 'high', errorType: 'customError' }, timestamp: 1, source: 'test' });
+}
+
+describe('createTailServer', () => {
+  let server: http.Server | undefined;
+  let lines: string[];
+
+  const start = async (options: Partial<TailServerOptions> = {}): Promise<string> => {
+    lines = [];
+    server = createTailServer({ accessToken: TOKEN, projectId: 'local', log: line => { lines.push(line); }, ...options });
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const post = (url: string, body: string, headers: Record<string, string> = {}) =>
+    fetch(url, { method: 'POST', body, headers: { 'Content-Type': 'application/json', ...headers } });
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    server = undefined;
+  });
+
+  describe('unsigned requests', () => {
+    it('accepts the access token as a bearer token or in the payload body', async () => {
+      const url = await start();
+
+      expect((await post(url, runtimePayload(), { Authorization: `Bearer ${TOKEN}` })).status).toBe(200);
+      const beacon = JSON.stringify({ event: 'error.runtime', data: { message: 'beacon', accessToken: TOKEN } });
+      expect((await post(url, beacon)).status).toBe(200);
+      expect(lines.join('\n')).toContain('boom');
+    });
+
+    it('rejects a wrong or missing token', async () => {
+      const url = await start();
+
+      expect((await post(url, runtimePayload(), { Authorization: 'Bearer wrong' })).status).toBe(401);
+      expect((await post(url, runtimePayload())).status).toBe(401);
+      expect(lines.join('\n')).toContain('Rejected error.runtime: invalid access token');
+    });
+
+    it('rejects them when a signature is required', async () => {
+      const url = await start({ requireSignature: true });
+
+      expect((await post(url, runtimePayload(), { Authorization: `Bearer ${TOKEN}` })).status).toBe(401);
+      expect(lines.join('\n')).toContain('request is not signed');
+    });
+
+    it('accepts everything without an access token', async () => {
+      const url = await start({ accessToken: undefined });
+
+      expect((await post(url, runtimePayload())).status).toBe(200);
+    });
+  });
+
+  describe('signed requests', () => {
+    it('accepts a valid signature once', async () => {
+      const url = await start({ requireSignature: true });
+      const body = runtimePayload();
+      const headers = { ...await signPayload(body, TOKEN) };
+
+      expect((await post(url, body, headers)).status).toBe(200);
+      expect((await post(url, body, headers)).status).toBe(401);
+      expect(lines.join('\n')).toContain('signature replayed');
+    });
+
+    it('rejects a body that does not match its signature', async () => {
+      const url = await start();
+      const headers = { ...await signPayload(runtimePayload(), TOKEN) };
+
+      expect((await post(url, runtimePayload('tampered'), headers)).status).toBe(401);
+      expect(lines.join('\n')).toContain('signature mismatch');
+    });
+
+    it('rejects a signature made with another token', async () => {
+      const url = await start();
+      const body = runtimePayload();
+
+      expect((await post(url, body, { ...await signPayload(body, 'other-token') })).status).toBe(401);
+    });
+  });
+
+  it('answers the handshake and counts batches', async () => {
+    const url = await start({ accessToken: undefined });
+
+    const init = await post(url, JSON.stringify({ event: 'wingman.init', data: { environment: 'test' } }));
+    expect(await init.json()).toEqual({ success: true, projectId: 'local' });
+
+    const batch = await post(url, JSON.stringify({ event: 'error.batch', data: { reports: [{ message: 'a' }, { message: 'b' }] } }));
+    expect(await batch.json()).toEqual({ success: true, count: 2 });
+  });
+
+  it('rejects malformed and unknown payloads', async () => {
+    const url = await start({ accessToken: undefined });
+
+    expect((await post(url, '{not json')).status).toBe(400);
+    expect((await post(url, JSON.stringify({ data: {} }))).status).toBe(400);
+    expect((await post(url, JSON.stringify({ event: 'error.unknown', data: {} }))).status).toBe(400);
+    expect((await fetch(url)).status).toBe(405);
+  });
+
+  it('appends accepted payloads to the output file', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-tail-'));
+    const output = path.join(directory, 'reports.ndjson');
+    try {
+      const url = await start({ output });
+
+      await post(url, runtimePayload('rejected'));
+      await post(url, runtimePayload(), { Authorization: `Bearer ${TOKEN}` });
+      // The payload is appended after the response was sent
+      for (let i = 0; i < 50 && !fs.existsSync(output); i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      const saved = fs.readFileSync(output, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(saved.map(payload => payload.data.message)).toEqual(['boom']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('formatReport', () => {
+  const stack = ['Error: boom', ...Array.from({ length: 7 }, (_, i) => `    at fn${i} (/srv/app/src/file${i}.js:${i + 1}:1)`)].join('\n');
+
+  it('shows the first in-app frames and how many are hidden', () => {
+    const output = formatReport({ message: 'boom\nsecond line', severity: 'critical', release: '1.0.0', stack });
+
+    expect(output).toContain('CRITICAL');
+    expect(output).toContain('release 1.0.0');
+    expect(output).not.toContain('second line');
+    expect(output).toContain('at fn4 (/srv/app/src/file4.js:5:1)');
+    expect(output).not.toContain('fn5');
+    expect(output).toContain('2 more frame(s) hidden');
+  });
+
+  it('shows every frame with fullStacks', () => {
+    expect(formatReport({ message: 'boom', stack }, true)).toContain('at fn6');
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../config';
+import { maskToken, parseTokenReference, resolveTokenReference } from '../utils/tokenResolver';
+import { TokenStore } from '../utils/tokenStore';
+import { setPlatform } from '../platform';
+import { nodePlatform } from '../nodePlatform';
+
+const ENV_KEYS = ['WINGMAN_ENV', 'NODE_ENV', 'WINGMAN_ACCESS_TOKEN', 'WINGMAN_CONFIG_DIR', 'WINGMAN_STORE_PASSPHRASE', 'WINGMAN_RESOLVER_TOKEN'];
+
+describe('token references', () => {
+  let directory: string;
+  let warn: ReturnType<typeof jest.spyOn>;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    setPlatform(nodePlatform);
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-resolver-'));
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    process.env.WINGMAN_CONFIG_DIR = path.join(directory, 'user-config');
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setPlatform(nodePlatform);
+    jest.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    }
+  });
+
+  it('parses env: and store: references and leaves literal tokens alone', () => {
+    expect(parseTokenReference('env:WINGMAN_TOKEN')).toEqual({ type: 'env', name: 'WINGMAN_TOKEN' });
+    expect(parseTokenReference('store:staging')).toEqual({ type: 'store', name: 'staging' });
+    expect(parseTokenReference('wm_live_token')).toBeNull();
+    expect(parseTokenReference('env:')).toBeNull();
+  });
+
+  it('returns literal tokens unchanged', () => {
+    expect(resolveTokenReference('wm_live_token')).toBe('wm_live_token');
+    expect(resolveTokenReference(undefined)).toBeUndefined();
+  });
+
+  it('reads env: references from the environment', () => {
+    process.env.WINGMAN_RESOLVER_TOKEN = 'from-env';
+    expect(resolveTokenReference('env:WINGMAN_RESOLVER_TOKEN')).toBe('from-env');
+
+    delete process.env.WINGMAN_RESOLVER_TOKEN;
+    expect(resolveTokenReference('env:WINGMAN_RESOLVER_TOKEN')).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith('Wingman: accessToken refers to WINGMAN_RESOLVER_TOKEN, which is not set');
+  });
+
+  it('reads store: references from the token store', () => {
+    new TokenStore().set('staging', 'from-store');
+
+    expect(resolveTokenReference('store:staging')).toBe('from-store');
+    expect(resolveTokenReference('store:production')).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('No token named "production"'));
+  });
+
+  it('warns instead of throwing when the store cannot be decrypted', () => {
+    process.env.WINGMAN_STORE_PASSPHRASE = 'passphrase';
+    new TokenStore().set('staging', 'from-store');
+    delete process.env.WINGMAN_STORE_PASSPHRASE;
+
+    expect(resolveTokenReference('store:staging')).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('set WINGMAN_STORE_PASSPHRASE'));
+  });
+
+  it('cannot resolve store: references without a platform token store', () => {
+    setPlatform({});
+
+    expect(resolveTokenReference('store:staging')).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('only available in Node.js'));
+  });
+
+  it('resolves the reference in .wingman.json and remembers it', async () => {
+    new TokenStore().set('default', 'from-store');
+    fs.writeFileSync(path.join(directory, '.wingman.json'), JSON.stringify({ schemaVersion: 2, accessToken: 'store:default' }));
+    const manager = new ConfigManager(directory);
+
+    await expect(manager.load()).resolves.toMatchObject({ accessToken: 'from-store' });
+    expect(manager.getTokenReference()).toBe('store:default');
+  });
+});
+
+describe('maskToken', () => {
+  it('shows only the last four characters of a long token', () => {
+    expect(maskToken('wm_live_1234567890abcd')).toBe('********abcd');
+  });
+
+  it('hides short tokens entirely', () => {
+    expect(maskToken('short-token')).toBe('********');
+    expect(maskToken('')).toBe('********');
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TokenStore, getUserConfigDir } from '../utils/tokenStore';
+
+const ENV_KEYS = ['WINGMAN_CONFIG_DIR', 'WINGMAN_STORE_PASSPHRASE', 'XDG_CONFIG_HOME'];
+
+describe('TokenStore', () => {
+  let directory: string;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    directory = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-store-')), 'wingman');
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(directory), { recursive: true, force: true });
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    }
+  });
+
+  const readStoreFile = () => JSON.parse(fs.readFileSync(path.join(directory, 'tokens.json'), 'utf8'));
+  const mode = (file: string) => fs.statSync(path.join(directory, file)).mode & 0o777;
+
+  it('round-trips tokens without writing them in plain text', () => {
+    const store = new TokenStore(directory);
+    store.set('default', 'secret-token-1');
+    store.set('staging', 'secret-token-2');
+
+    expect(new TokenStore(directory).get('default')).toBe('secret-token-1');
+    expect(store.list()).toEqual(['default', 'staging']);
+    expect(store.delete('staging')).toBe(true);
+    expect(store.delete('staging')).toBe(false);
+    expect(store.get('staging')).toBeUndefined();
+    expect(fs.readFileSync(path.join(directory, 'tokens.json'), 'utf8')).not.toContain('secret-token');
+  });
+
+  it('is empty before anything is stored', () => {
+    expect(new TokenStore(directory).list()).toEqual([]);
+    expect(fs.existsSync(directory)).toBe(false);
+  });
+
+  it('encrypts with a key file that only the user can read', () => {
+    new TokenStore(directory).set('default', 'secret-token');
+
+    expect(readStoreFile()).toMatchObject({ version: 1, kdf: 'keyfile' });
+    expect(fs.existsSync(path.join(directory, 'store.key'))).toBe(true);
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(directory).mode & 0o777).toBe(0o700);
+      expect(mode('tokens.json')).toBe(0o600);
+      expect(mode('store.key')).toBe(0o600);
+    }
+  });
+
+  it('derives the key from WINGMAN_STORE_PASSPHRASE instead of a key file', () => {
+    process.env.WINGMAN_STORE_PASSPHRASE = 'correct horse';
+    new TokenStore(directory).set('default', 'secret-token');
+
+    expect(readStoreFile()).toMatchObject({ kdf: 'scrypt' });
+    expect(fs.existsSync(path.join(directory, 'store.key'))).toBe(false);
+    expect(new TokenStore(directory).get('default')).toBe('secret-token');
+
+    process.env.WINGMAN_STORE_PASSPHRASE = 'wrong horse';
+    expect(() => new TokenStore(directory).get('default')).toThrow('check WINGMAN_STORE_PASSPHRASE');
+
+    delete process.env.WINGMAN_STORE_PASSPHRASE;
+    expect(() => new TokenStore(directory).get('default')).toThrow('set WINGMAN_STORE_PASSPHRASE');
+  });
+
+  it('refuses to decrypt with another key file', () => {
+    new TokenStore(directory).set('default', 'secret-token');
+    fs.writeFileSync(path.join(directory, 'store.key'), Buffer.alloc(32, 1).toString('base64'));
+
+    expect(() => new TokenStore(directory).get('default')).toThrow(`Could not decrypt ${path.join(directory, 'tokens.json')}`);
+  });
+
+  it('refuses tampered ciphertext or authentication tags', () => {
+    new TokenStore(directory).set('default', 'secret-token');
+    const file = readStoreFile();
+    const flipFirstByte = (value: string) => {
+      const bytes = Buffer.from(value, 'base64');
+      bytes[0] ^= 1;
+      return bytes.toString('base64');
+    };
+
+    fs.writeFileSync(path.join(directory, 'tokens.json'), JSON.stringify({ ...file, data: flipFirstByte(file.data) }));
+    expect(() => new TokenStore(directory).get('default')).toThrow('Could not decrypt');
+
+    fs.writeFileSync(path.join(directory, 'tokens.json'), JSON.stringify({ ...file, tag: flipFirstByte(file.tag) }));
+    expect(() => new TokenStore(directory).get('default')).toThrow('Could not decrypt');
+  });
+
+  it('refuses an unknown store version', () => {
+    new TokenStore(directory).set('default', 'secret-token');
+    fs.writeFileSync(path.join(directory, 'tokens.json'), JSON.stringify({ ...readStoreFile(), version: 2 }));
+
+    expect(() => new TokenStore(directory).get('default')).toThrow('Unsupported token store version 2');
+  });
+
+  it('defaults to WINGMAN_CONFIG_DIR, then the platform config directory', () => {
+    process.env.WINGMAN_CONFIG_DIR = directory;
+    expect(new TokenStore().directory).toBe(directory);
+
+    delete process.env.WINGMAN_CONFIG_DIR;
+    if (process.platform === 'linux') {
+      process.env.XDG_CONFIG_HOME = '/home/user/.config-custom';
+      expect(getUserConfigDir()).toBe(path.join('/home/user/.config-custom', 'wingman'));
+    }
+  });
+});
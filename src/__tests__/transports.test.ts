@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HttpTransport, StdoutTransport, WebhookTransport, WingmanPayload, createTransport } from '../transports';
+import { FileTransport } from '../transports/file';
+import { PROJECT_HEADER, SIGNATURE_HEADER } from '../signing';
+import { verifyWingmanSignature } from '../verifySignature';
+import { setPlatform } from '../platform';
+import { nodePlatform } from '../nodePlatform';
+
+setPlatform(nodePlatform);
+
+const payload: WingmanPayload = {
+  event: 'error.runtime',
+  data: { message: 'boom', accessToken: 'token' },
+  timestamp: 1700000000000,
+  source: 'wingman-monitor',
+};
+
+function mockPost() {
+  return jest.spyOn(axios, 'post').mockResolvedValue({ status: 200 });
+}
+
+function sentRequest(post: ReturnType<typeof mockPost>) {
+  const [url, body, config] = post.mock.calls[0] as [string, string, { headers: Record<string, string>; timeout: number }];
+  return { url, body, headers: config.headers, timeout: config.timeout };
+}
+
+describe('HttpTransport', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('posts the serialized payload with the configured headers and timeout', async () => {
+    const post = mockPost();
+
+    await new HttpTransport({ url: 'https://collector.example.com', headers: { 'X-Api-Key': 'key' }, timeoutMs: 1000 }).send(payload);
+
+    const request = sentRequest(post);
+    expect(request.url).toBe('https://collector.example.com');
+    expect(JSON.parse(request.body)).toEqual(payload);
+    expect(request.headers).toMatchObject({ 'Content-Type': 'application/json', 'X-Api-Key': 'key' });
+    expect(request.timeout).toBe(1000);
+  });
+
+  it('rejects when the collector fails so the queue can retry', async () => {
+    jest.spyOn(axios, 'post').mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await expect(new HttpTransport({ url: 'https://collector.example.com' }).send(payload)).rejects.toThrow('ECONNREFUSED');
+  });
+});
+
+describe('WebhookTransport', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends the access token as a bearer token', async () => {
+    const post = mockPost();
+
+    await new WebhookTransport({ accessToken: 'token', url: 'https://hooks.example.com' }).send(payload);
+
+    const request = sentRequest(post);
+    expect(request.headers.Authorization).toBe('Bearer token');
+    expect(JSON.parse(request.body)).toEqual(payload);
+  });
+
+  it('signs the body and leaves the token out of the request in signing mode', async () => {
+    const post = mockPost();
+    const queued = { ...payload, event: 'error.batch', data: { reports: [{ message: 'a', accessToken: 'token' }] } };
+
+    await new WebhookTransport({ accessToken: 'token', url: 'https://hooks.example.com', signing: true, projectId: 'project' }).send(queued);
+
+    const request = sentRequest(post);
+    expect(request.headers.Authorization).toBeUndefined();
+    expect(request.headers[PROJECT_HEADER]).toBe('project');
+    expect(request.headers[SIGNATURE_HEADER]).toMatch(/^v1=/);
+    expect(request.body).not.toContain('token');
+    expect(verifyWingmanSignature({ body: request.body, headers: request.headers, secret: 'token' })).toEqual({ valid: true });
+  });
+
+  it('does not hand signed payloads to sendBeacon', () => {
+    expect(new WebhookTransport({ accessToken: 'token', signing: true }).sendBeacon(payload)).toBe(false);
+  });
+});
+
+describe('FileTransport', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wingman-transport-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per payload, creating the directory', async () => {
+    const filePath = path.join(directory, 'logs', 'errors.ndjson');
+    const transport = new FileTransport({ path: filePath });
+
+    await transport.send(payload);
+    await transport.send({ ...payload, event: 'error.batch' });
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.event)).toEqual(['error.runtime', 'error.batch']);
+  });
+});
+
+describe('StdoutTransport', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes the payload as one line to stdout', async () => {
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await new StdoutTransport().send(payload);
+
+    expect(write).toHaveBeenCalledWith(JSON.stringify(payload) + '\n');
+  });
+});
+
+describe('createTransport', () => {
+  const context = { accessToken: 'token', projectPath: '/project' };
+
+  it('defaults to the webhook transport', () => {
+    expect(createTransport(undefined, context).name).toBe('webhook');
+  });
+
+  it('creates the configured transport', () => {
+    expect(createTransport({ type: 'http', url: 'https://collector.example.com' }, context).name).toBe('http');
+    expect(createTransport({ type: 'stdout' }, context).name).toBe('stdout');
+    expect(createTransport({ type: 'file' }, context)).toBeInstanceOf(FileTransport);
+  });
+
+  it('rejects an http transport without a URL and unknown types', () => {
+    expect(() => createTransport({ type: 'http' }, context)).toThrow('requires a "url"');
+    expect(() => createTransport({ type: 'smtp' as 'http' }, context)).toThrow('Unknown transport type "smtp"');
+  });
+});
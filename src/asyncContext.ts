@@ -0,0 +1,43 @@
+import { getPlatform } from './platform';
+
+/**
+ * A value that follows the code started inside run(), including its async continuations where the
+ * runtime can track them
+ */
+export interface AsyncContext<T> {
+  run<R>(value: T, fn: () => R): R;
+  /**
+   * The value of the innermost run() the caller is inside of
+   */
+  get(): T | undefined;
+}
+
+/**
+ * Fallback for runtimes without AsyncLocalStorage: the value is only visible to the synchronous
+ * part of fn, so callbacks and awaited code see the outer value again
+ */
+export class SyncContext<T> implements AsyncContext<T> {
+  private current: T | undefined;
+
+  run<R>(value: T, fn: () => R): R {
+    const previous = this.current;
+    this.current = value;
+    try {
+      return fn();
+    } finally {
+      this.current = previous;
+    }
+  }
+
+  get(): T | undefined {
+    return this.current;
+  }
+}
+
+/**
+ * Uses the installed platform's async context tracking (AsyncLocalStorage in Node.js),
+ * falling back to SyncContext
+ */
+export function createAsyncContext<T>(): AsyncContext<T> {
+  return getPlatform().createAsyncContext?.<T>() ?? new SyncContext<T>();
+}
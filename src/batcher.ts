@@ -0,0 +1,79 @@
+export interface BatchOptions {
+  /**
+   * Number of buffered reports that triggers an immediate flush
+   * @default 20
+   */
+  maxBatchSize?: number;
+  /**
+   * Maximum time a report waits in the buffer before it is flushed
+   * @default 5000
+   */
+  flushIntervalMs?: number;
+}
+
+const DEFAULT_BATCH_OPTIONS: Required<BatchOptions> = {
+  maxBatchSize: 20,
+  flushIntervalMs: 5000,
+};
+
+/**
+ * Buffers items and hands them over in batches on a size threshold or time interval
+ */
+export class ReportBatcher<T> {
+  private buffer: T[] = [];
+  private options: Required<BatchOptions>;
+  private timer: (ReturnType<typeof setTimeout> & { unref?: () => void }) | null = null;
+
+  constructor(
+    private onFlush: (items: T[]) => void | Promise<void>,
+    options: BatchOptions = {}
+  ) {
+    this.options = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  }
+
+  add(item: T): void {
+    this.buffer.push(item);
+
+    if (this.buffer.length >= this.options.maxBatchSize) {
+      this.flush();
+      return;
+    }
+
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, this.options.flushIntervalMs);
+
+      // A pending flush should not keep a Node.js process alive; beforeExit flushes instead
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Removes and returns everything buffered without invoking the flush callback
+   */
+  drain(): T[] {
+    this.clearTimer();
+    const items = this.buffer;
+    this.buffer = [];
+    return items;
+  }
+
+  async flush(): Promise<void> {
+    const items = this.drain();
+    if (items.length === 0) return;
+    await this.onFlush(items);
+  }
+
+  size(): number {
+    return this.buffer.length;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,73 @@
+export type BreadcrumbLevel = 'debug' | 'info' | 'warning' | 'error';
+
+export interface Breadcrumb {
+  /**
+   * Source of the breadcrumb, e.g. 'console', 'navigation', 'fetch', 'xhr', 'http' or a custom name
+   */
+  category: string;
+  level: BreadcrumbLevel;
+  timestamp: number;
+  message: string;
+  data?: Record<string, any>;
+}
+
+export interface BreadcrumbOptions {
+  /**
+   * Maximum number of breadcrumbs kept in memory
+   * @default 50
+   */
+  maxBreadcrumbs?: number;
+  /**
+   * Only breadcrumbs recorded this long before an error are attached to its report
+   * @default 5000
+   */
+  windowMs?: number;
+  /**
+   * Record console.log/warn/error calls
+   * @default true
+   */
+  console?: boolean;
+  /**
+   * Record history navigation in browsers
+   * @default true
+   */
+  navigation?: boolean;
+}
+
+const DEFAULT_MAX_BREADCRUMBS = 50;
+const DEFAULT_WINDOW_MS = 5000;
+
+/**
+ * Fixed-size buffer of the most recent breadcrumbs
+ */
+export class BreadcrumbBuffer {
+  private breadcrumbs: Breadcrumb[] = [];
+  private maxBreadcrumbs: number;
+  private windowMs: number;
+
+  constructor(options: BreadcrumbOptions = {}) {
+    this.maxBreadcrumbs = options.maxBreadcrumbs ?? DEFAULT_MAX_BREADCRUMBS;
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+  }
+
+  add(breadcrumb: Breadcrumb): void {
+    this.breadcrumbs.push(breadcrumb);
+    if (this.breadcrumbs.length > this.maxBreadcrumbs) {
+      this.breadcrumbs.shift(); // Remove oldest breadcrumb
+    }
+  }
+
+  /**
+   * Breadcrumbs recorded within the window before `timestamp`, oldest first
+   */
+  getRecent(timestamp: number): Breadcrumb[] {
+    const startTime = timestamp - this.windowMs;
+    return this.breadcrumbs.filter(breadcrumb =>
+      breadcrumb.timestamp >= startTime && breadcrumb.timestamp <= timestamp
+    );
+  }
+
+  clear(): void {
+    this.breadcrumbs = [];
+  }
+}
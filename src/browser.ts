@@ -0,0 +1,86 @@
+/**
+ * Browser entry, selected through the "browser" export condition. Nothing it imports reads
+ * the file system: the config comes from provider props, WINGMAN_* variables inlined by the
+ * bundler and a `__WINGMAN_CONFIG__` define created with createInlineConfig() at build time.
+ */
+
+export { WingmanMonitor, ErrorReport, type WingmanMonitorOptions, type ReportErrorOptions } from './monitor';
+export {
+  ConfigManager,
+  WingmanConfig,
+  DEFAULT_WEBHOOK_URL,
+  resolveWebhookUrl,
+  resolveProfile,
+  selectProfileName,
+  mergeConfig,
+  readEnvConfig,
+  getInlineConfig,
+  parseConfigFile,
+  getConfigValue,
+  setConfigValue,
+  unsetConfigValue,
+  type ConfigManagerOptions,
+  type ConfigSource,
+  type WingmanConfigFile,
+  type WingmanProfile,
+  type DeliveryOptions,
+  type InstrumentationOptions,
+  type HttpInstrumentationOptions,
+  type SourceMapOptions
+} from './config';
+export { getPlatform, setPlatform, type WingmanPlatform, type ProjectInfo } from './platform';
+export { DeliveryQueue, LocalStorageQueueStorage, MemoryQueueStorage, createQueueStorage, type QueueOptions, type QueueStorage, type QueuedPayload } from './queue';
+export { ReportBatcher, type BatchOptions } from './batcher';
+export { Deduplicator, type DedupeOptions } from './deduplicator';
+export { ReportThrottle, TokenBucket, type RateLimitOptions, type SampleRates } from './rateLimiter';
+export { ProcessorPipeline, type EventProcessor, type EventProcessorFn, type EventHint } from './processors';
+export { BreadcrumbBuffer, type Breadcrumb, type BreadcrumbLevel, type BreadcrumbOptions } from './breadcrumbs';
+export { Scope, type RequestContext, type UserContext } from './scope';
+export { SyncContext, createAsyncContext, type AsyncContext } from './asyncContext';
+export { instrumentHttp, type HttpRequestInfo, type HttpInstrumentationHooks } from './instrumentation/http';
+export { instrumentNavigation } from './instrumentation/navigation';
+export {
+  createTransport,
+  WebhookTransport,
+  HttpTransport,
+  StdoutTransport,
+  type Transport,
+  type TransportConfig,
+  type WingmanPayload
+} from './transports';
+export {
+  WingmanProvider,
+  useWingman,
+  useWingmanReporting,
+  useWingmanConfig,
+  type WingmanProviderProps
+} from './provider';
+export { WingmanErrorBoundary, type WingmanErrorBoundaryProps, type FallbackProps } from './errorBoundary';
+export { WingmanContext, type WingmanContextType } from './context';
+export {
+  shouldReportError,
+  getEnvironmentConfig,
+  defaultErrorFilters,
+  createFilterProcessor,
+  createDefaultProcessors
+} from './utils/errorFiltering';
+export { computeFingerprint, normalizeMessage, normalizeStack } from './utils/fingerprint';
+export { Scrubber, createScrubbingProcessor, type ScrubbingOptions, type ScrubbingRule, type ScrubbingDetector } from './utils/scrubber';
+export { parseStack, isInAppFile, type StackFrame } from './utils/stackParser';
+export { SourceMapConsumer, type RawSourceMap, type OriginalPosition } from './sourcemaps/sourceMap';
+export { createSourceMapProcessor } from './sourcemaps/processor';
+export { WINGMAN_CONFIG_SCHEMA, validateConfig, formatConfigIssues, getSchemaAt, parseConfigValue, type ConfigIssue, type JsonSchema, type ValidateConfigOptions } from './configSchema';
+export { CURRENT_SCHEMA_VERSION, CONFIG_MIGRATIONS, migrateConfig, getSchemaVersion, type ConfigMigration, type MigrationResult } from './configMigrations';
+export { getStoredAccessToken, requireAccessToken, parseTokenReference, resolveTokenReference, type TokenReference } from './utils/tokenResolver';
+export {
+  signPayload,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  NONCE_HEADER,
+  PROJECT_HEADER,
+  type SignatureHeaders
+} from './signing';
+
+// Default export for easy importing
+import { WingmanMonitor } from './monitor';
+export default WingmanMonitor;
@@ -1,107 +1,31 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { ConfigManager } from './config';
+import { ConfigManager, getConfigValue, mergeConfig, resolveProfile, resolveWebhookUrl, setConfigValue, unsetConfigValue, WingmanConfigFile, WingmanProfile } from './config';
 import chalk from 'chalk';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import axios from 'axios';
+import { testWebhookConnection } from './handshake';
+import { ensureGitignored, isTrackedByGit } from './utils/gitignore';
+import { TokenStore } from './utils/tokenStore';
+import { maskToken } from './utils/tokenResolver';
+import { WINGMAN_CONFIG_SCHEMA, formatConfigIssues, getSchemaAt, parseConfigValue, validateConfig } from './configSchema';
+import { CONFIG_SCHEMA_URL, CURRENT_SCHEMA_VERSION, migrateConfig } from './configMigrations';
+import { DoctorStatus, runDoctor } from './doctor';
+import { rotateAccessToken } from './rotateToken';
+import { SourceMapResolver } from './sourcemaps/resolver';
+import { DEFAULT_ARTIFACT_STORE, buildUploadPayload, collectSourceMaps, getReleaseDirectory, writeArtifacts } from './sourcemaps/artifacts';
+import { resolveRelease } from './sourcemaps/release';
+import { createTransport, WingmanPayload } from './transports';
+import type { ErrorReport } from './monitor';
+import { createTailServer } from './tail';
+import { isInAppFile, parseStack, StackFrame } from './utils/stackParser';
+import { setPlatform } from './platform';
+import { nodePlatform } from './nodePlatform';
 
-const program = new Command();
-
-// Function to test webhook connection and validate access token
-async function testWebhookConnection(webhookUrl: string, accessToken: string, environment: string): Promise<{ success: boolean; message: string; projectId?: string }> {
-    let projectId: string | undefined = undefined;
-  try {
-    console.log(chalk.blue('🔗 Testing webhook connection...'));
-    
-    // const testPayload = {
-    //   event: 'wingman.init',
-    //   data: {
-    //     message: 'Wingman initialization test',
-    //     timestamp: new Date().toISOString(),
-    //     environment: environment,
-    //     projectInfo: {
-    //       name: 'wingman-test',
-    //       version: '1.0.0'
-    //     },
-    //     errorType: 'initialization',
-    //     severity: 'low' as const,
-    //     accessToken: accessToken,
-    //     projectPath: process.cwd()
-    //   },
-    //   timestamp: Date.now(),
-    //   source: 'wingman-monitor-init'
-    // };
-    const testPayload = {
-      event: 'wingman.init',
-      data: {
-            accessToken: accessToken,
-            environment: environment,
-        },
-          timestamp: Date.now(),
-            source: 'wingman-monitor-init'
-      }
-        
-
-    const response = await axios.post(webhookUrl, testPayload, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-        'User-Agent': 'Wingman-Monitor/1.0.0'
-      },      timeout: 10000 // 10 second timeout for init
-    });
+setPlatform(nodePlatform);
 
-    if (response.status >= 200 && response.status < 300) {
-      projectId = response.data?.projectId; // Grab projectId from webhook response
-      return { 
-        success: true, 
-        message: 'Webhook connection successful',
-        projectId: projectId
-      };
-    } else {
-      return { 
-        success: false, 
-        message: `Webhook returned status ${response.status}` 
-      };
-    }
-    
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.code === 'ECONNREFUSED') {
-        return { 
-          success: false, 
-          message: 'Unable to connect to webhook URL. Please check the URL and ensure the server is running.' 
-        };
-      } else if (error.response?.status === 401) {
-        return { 
-          success: false, 
-          message: 'Access token is invalid or unauthorized.' 
-        };
-      } else if (error.response?.status === 404) {
-        return { 
-          success: false, 
-          message: 'Webhook endpoint not found. Please check the URL.' 
-        };
-      } else if (error.response && error.response.status >= 500) {
-        return { 
-          success: false, 
-          message: 'Webhook server error. Please try again later.' 
-        };
-      } else {
-        return { 
-          success: false, 
-          message: `Webhook error: ${error.response?.status || error.message}` 
-        };
-      }
-    }
-    
-    return { 
-      success: false, 
-      message: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}` 
-    };
-  }
-}
+const program = new Command();
 
 program
   .name('wingman')
@@ -113,15 +37,33 @@ program
   .description('Initialize Wingman monitoring in the current project')
   .argument('<accessToken>', 'Access token for webhook authentication')
   .option('-w, --webhook <url>', 'Webhook URL for error reporting')
-  .option('-e, --env <environment>', 'Environment name (development, staging, production)', 'development')
-  .action(async (accessToken: string, options: { webhook?: string; env: string }) => {
+  .option('-e, --env <environment>', 'Environment name (development, staging, production); defaults to the profile name or development')
+  .option('-p, --profile <name>', 'Save the token, webhook and environment as this profile instead of the shared defaults')
+  .option('--store [name]', 'Keep the token in the encrypted token store in your user config directory; .wingman.json only refers to it')
+  .option('--env-only', 'Do not save the token; read it from WINGMAN_ACCESS_TOKEN at runtime')
+  .action(async (accessToken: string, options: { webhook?: string; env?: string; profile?: string; store?: string | boolean; envOnly?: boolean }) => {
     try {
+      if (options.store && options.envOnly) {
+        console.error(chalk.red('❌ --store and --env-only cannot be combined'));
+        process.exit(1);
+      }
+
       console.log(chalk.blue('🛡️  Initializing Wingman monitoring...'));
       
-      const webhookUrl = options.webhook || process.env.WINGMAN_WEBHOOK_URL || 'https://patchworks-sigma.vercel.app/webhook';
+      const webhookUrl = resolveWebhookUrl(options.webhook);
+      const environment = options.env || options.profile || 'development';
+
+      // Create or update the wingman config file, keeping other profiles and settings
+      const configPath = path.join(process.cwd(), '.wingman.json');
+      const file: WingmanConfigFile = await fs.pathExists(configPath)
+        ? migrateConfig(await fs.readJson(configPath)).config
+        : { $schema: CONFIG_SCHEMA_URL };
+      const profileTransport = options.profile ? file.profiles?.[options.profile]?.transport : undefined;
+      const signing = profileTransport?.signing ?? file.transport?.signing;
       
       // Test webhook connection and validate access token FIRST
-      const testResult = await testWebhookConnection(webhookUrl, accessToken, options.env);
+      console.log(chalk.blue('🔗 Testing webhook connection...'));
+      const testResult = await testWebhookConnection(webhookUrl, accessToken, environment, signing);
       if (!testResult.success) {
         console.error(chalk.red('❌ Webhook test failed:'), testResult.message);
         console.log(chalk.yellow('💡 Please check:'));
@@ -149,25 +91,72 @@ program
     }    await config.initialize({
       accessToken,
       projectId: testResult.projectId,
-      environment: options.env,
+      environment,
       projectPath: process.cwd()
     });
-      
-      // Create wingman config file
-      const configPath = path.join(process.cwd(), '.wingman.json');      const configData: any = {
-        accessToken,
-        environment: options.env,
+
+      file.schemaVersion = CURRENT_SCHEMA_VERSION;
+
+      // Where the token is kept: in the file, in the user's token store, or only in the environment
+      let storedToken: string | undefined = accessToken;
+      if (options.envOnly) {
+        storedToken = undefined;
+      } else if (options.store) {
+        const storeName = typeof options.store === 'string'
+          ? options.store
+          : [testResult.projectId || path.basename(process.cwd()), options.profile].filter(Boolean).join('-');
+        const tokenStore = new TokenStore();
+        tokenStore.set(storeName, accessToken);
+        storedToken = `store:${storeName}`;
+        console.log(chalk.green(`🔐 Token saved to the encrypted store in ${tokenStore.directory} as "${storeName}"`));
+      }
+
+      const configData: WingmanProfile = {
+        accessToken: storedToken,
         enabled: true,
         createdAt: new Date().toISOString()
       };
       
+      if (!options.profile || options.env) {
+        configData.environment = environment;
+      }
       if (testResult.projectId) {
         configData.projectId = testResult.projectId;
       }
+      if (options.webhook) {
+        configData.transport = { type: 'webhook', url: options.webhook };
+      }
       
-      await fs.writeJson(configPath, configData, { spaces: 2 });
+      if (options.profile) {
+        file.profiles = { ...file.profiles, [options.profile]: mergeConfig(file.profiles?.[options.profile] || {}, configData) };
+      } else {
+        Object.assign(file, mergeConfig(file, configData));
+      }
+      if (options.envOnly) {
+        if (options.profile) {
+          delete file.profiles![options.profile].accessToken;
+        } else {
+          delete file.accessToken;
+        }
+      }
+      await fs.writeJson(configPath, file, { spaces: 2 });
+
+      if (await ensureGitignored(process.cwd(), '.wingman.json')) {
+        console.log(chalk.gray('🙈 Added .wingman.json to .gitignore'));
+      }
+      if (isTrackedByGit(process.cwd(), '.wingman.json')) {
+        console.log(chalk.yellow('⚠️  .wingman.json is tracked by git, so tokens written to it end up in the repository history.'));
+        console.log(chalk.yellow('   Run "git rm --cached .wingman.json" and rotate any token that was committed.'));
+      }
       
       console.log(chalk.green('✅ Wingman monitoring initialized successfully!'));
+      if (options.envOnly) {
+        console.log(chalk.yellow('🔑 The token was not saved. Set it in the environment where the app runs:'));
+        console.log(chalk.cyan(`   WINGMAN_ACCESS_TOKEN=${accessToken}`));
+      }
+      if (options.profile) {
+        console.log(chalk.blue(`🏷️  Profile: ${options.profile} (select it with WINGMAN_ENV=${options.profile})`));
+      }
       if (testResult.projectId) {
         console.log(chalk.blue(`🆔 Project ID: ${testResult.projectId}`));
       }
@@ -186,31 +175,91 @@ program
 program
   .command('status')
   .description('Check Wingman monitoring status')
-  .action(async () => {
+  .option('-p, --profile <name>', 'Profile to show (default: WINGMAN_ENV or NODE_ENV)')
+  .action(async (options: { profile?: string }) => {
     try {
-      const configPath = path.join(process.cwd(), '.wingman.json');
-      
-      if (!await fs.pathExists(configPath)) {
-        console.log(chalk.yellow('⚠️  Wingman not initialized. Run "wingman init <accessToken>" first.'));
+      const configManager = new ConfigManager(undefined, options.profile);
+      const config = await configManager.load();
+
+      if (!config) {
+        console.log(chalk.yellow('⚠️  Wingman not initialized. Run "wingman init <accessToken>" or set WINGMAN_ACCESS_TOKEN.'));
         return;
       }
-      
-      const config = await fs.readJson(configPath);
+
+      const file = configManager.getFile();
+      const from = (key: string) => chalk.gray(` (${configManager.getSource(key) || 'default'})`);
       console.log(chalk.blue('🛡️  Wingman Status:'));
-      console.log(chalk.green(`   Environment: ${config.environment}`));
-      console.log(chalk.green(`   Webhook URL: ${config.webhookUrl}`));
-      console.log(chalk.green(`   Status: ${config.enabled ? 'Enabled' : 'Disabled'}`));
-      console.log(chalk.gray(`   Initialized: ${config.createdAt}`));
+      console.log(chalk.green(`   Profile: ${configManager.getProfile() || '(shared defaults)'}`));
+      if (file?.profiles && Object.keys(file.profiles).length > 0) {
+        console.log(chalk.gray(`   Available profiles: ${Object.keys(file.profiles).join(', ')}`));
+      }
+      const tokenReference = configManager.getTokenReference();
+      console.log(chalk.green(`   Access token: ${config.accessToken ? 'set' : 'missing'}${tokenReference ? ` via ${tokenReference}` : ''}`) + from('accessToken'));
+      console.log(chalk.green(`   Environment: ${config.environment || 'unknown'}`) + from('environment'));
+      if (config.transport?.type === 'file' || config.transport?.type === 'stdout') {
+        console.log(chalk.green(`   Transport: ${config.transport.type}`) + from('transport.type'));
+      } else {
+        console.log(chalk.green(`   Webhook URL: ${config.transport?.url || resolveWebhookUrl()}`) + from('transport.url'));
+      }
+      console.log(chalk.green(`   Status: ${config.enabled ? 'Enabled' : 'Disabled'}`) + from('enabled'));
+      if (config.sampleRates) {
+        const rates = Object.entries(config.sampleRates).map(([severity, rate]) => `${severity} ${rate}`).join(', ');
+        console.log(chalk.green(`   Sample rates: ${rates}`) + from('sampleRates'));
+      }
+      if (config.createdAt) {
+        console.log(chalk.gray(`   Initialized: ${config.createdAt}`));
+      }
       
     } catch (error) {
       console.error(chalk.red('❌ Failed to check status:'), error);
     }
   });
 
+program
+  .command('doctor')
+  .description('Diagnose the Wingman setup of the current project')
+  .option('-w, --webhook <url>', 'Webhook URL to check instead of the configured one')
+  .option('--offline', 'Skip the connectivity and access token check')
+  .option('-p, --profile <name>', 'Profile to check (default: WINGMAN_ENV or NODE_ENV)')
+  .option('--json', 'Print the results as JSON')
+  .action(async (options: { webhook?: string; offline?: boolean; profile?: string; json?: boolean }) => {
+    try {
+      const checks = await runDoctor({ webhookUrl: options.webhook, offline: options.offline, profile: options.profile });
+      const failed = checks.some(check => check.status === 'fail');
+
+      if (options.json) {
+        console.log(JSON.stringify({ ok: !failed, checks }, null, 2));
+      } else {
+        const icons: Record<DoctorStatus, string> = {
+          pass: chalk.green('✅'),
+          warn: chalk.yellow('⚠️ '),
+          fail: chalk.red('❌')
+        };
+        console.log(chalk.blue('🩺 Wingman Doctor'));
+        for (const check of checks) {
+          console.log(`${icons[check.status]} ${chalk.bold(check.name)}: ${check.message}`);
+          if (check.fix) {
+            console.log(chalk.gray(`   💡 ${check.fix}`));
+          }
+        }
+        const count = (status: DoctorStatus) => checks.filter(check => check.status === status).length;
+        console.log(chalk.gray(`\n${count('pass')} passed, ${count('warn')} warning(s), ${count('fail')} failed`));
+      }
+
+      if (failed) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red('❌ Doctor failed:'), error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('disable')
   .description('Disable Wingman monitoring')
-  .action(async () => {
+  .option('-p, --profile <name>', 'Profile to disable (default: WINGMAN_ENV or NODE_ENV, else the shared defaults)')
+  .action(async (options: { profile?: string }) => {
     try {
       const configPath = path.join(process.cwd(), '.wingman.json');
       
@@ -219,11 +268,16 @@ program
         return;
       }
       
-      const config = await fs.readJson(configPath);
-      config.enabled = false;
-      await fs.writeJson(configPath, config, { spaces: 2 });
+      const file = migrateConfig(await fs.readJson(configPath)).config;
+      const { profile } = resolveProfile(file, options.profile);
+      if (profile) {
+        file.profiles![profile].enabled = false;
+      } else {
+        file.enabled = false;
+      }
+      await fs.writeJson(configPath, file, { spaces: 2 });
       
-      console.log(chalk.yellow('⏸️  Wingman monitoring disabled'));
+      console.log(chalk.yellow(`⏸️  Wingman monitoring disabled${profile ? ` for profile ${profile}` : ''}`));
       
     } catch (error) {
       console.error(chalk.red('❌ Failed to disable Wingman:'), error);
@@ -233,7 +287,8 @@ program
 program
   .command('enable')
   .description('Enable Wingman monitoring')
-  .action(async () => {
+  .option('-p, --profile <name>', 'Profile to enable (default: WINGMAN_ENV or NODE_ENV, else the shared defaults)')
+  .action(async (options: { profile?: string }) => {
     try {
       const configPath = path.join(process.cwd(), '.wingman.json');
       
@@ -242,15 +297,439 @@ program
         return;
       }
       
-      const config = await fs.readJson(configPath);
-      config.enabled = true;
-      await fs.writeJson(configPath, config, { spaces: 2 });
+      const file = migrateConfig(await fs.readJson(configPath)).config;
+      const { profile } = resolveProfile(file, options.profile);
+      if (profile) {
+        file.profiles![profile].enabled = true;
+      } else {
+        file.enabled = true;
+      }
+      await fs.writeJson(configPath, file, { spaces: 2 });
       
-      console.log(chalk.green('▶️  Wingman monitoring enabled'));
+      console.log(chalk.green(`▶️  Wingman monitoring enabled${profile ? ` for profile ${profile}` : ''}`));
       
     } catch (error) {
       console.error(chalk.red('❌ Failed to enable Wingman:'), error);
     }
   });
 
+program
+  .command('rotate-token')
+  .description('Replace the access token after verifying the new one with the webhook')
+  .argument('<newToken>', 'New access token')
+  .option('-p, --profile <name>', 'Profile whose token is replaced (default: WINGMAN_ENV or NODE_ENV)')
+  .option('-w, --webhook <url>', 'Webhook URL to verify against instead of the configured one')
+  .option('--force', 'Replace the token even if the webhook reports a different projectId')
+  .action(async (newToken: string, options: { profile?: string; webhook?: string; force?: boolean }) => {
+    try {
+      const result = await rotateAccessToken(newToken, {
+        profile: options.profile,
+        webhookUrl: options.webhook,
+        force: options.force,
+        onVerify: webhookUrl => console.log(chalk.blue(`🔗 Verifying the new token with ${webhookUrl}...`)),
+      });
+
+      switch (result.status) {
+        case 'uninitialized':
+          console.log(chalk.yellow('⚠️  Wingman not initialized. Run "wingman init <accessToken>" first.'));
+          return;
+        case 'unchanged':
+          console.log(chalk.yellow('⚠️  The new token is the same as the current one'));
+          return;
+        case 'sharedStoreToken':
+          // The store entry is shared with every other profile that inherits it
+          console.error(chalk.red(`❌ Profile ${result.profile} inherits accessToken "${result.accessToken}" from the shared defaults`));
+          console.log(chalk.gray('   Run "wingman rotate-token" without a profile to rotate it for every profile that inherits it,'));
+          console.log(chalk.gray(`   or give ${result.profile} its own token with "wingman init <accessToken> --profile ${result.profile} --store".`));
+          process.exit(1);
+        case 'rejected':
+          console.error(chalk.red('❌ The new token was not accepted:'), result.message);
+          console.log(chalk.gray('   The current token was kept.'));
+          process.exit(1);
+        case 'projectMismatch':
+          console.error(chalk.red(`❌ The new token belongs to project ${result.projectId}, but .wingman.json is set up for ${result.configuredProjectId}`));
+          console.log(chalk.gray('   The current token was kept. Pass --force to switch projects.'));
+          process.exit(1);
+      }
+
+      const { reference, profile, inherited } = result;
+      if (reference?.type === 'env') {
+        console.log(chalk.yellow(`⚠️  accessToken refers to ${reference.name}; set it to the new token wherever the app runs`));
+        return;
+      }
+      console.log(chalk.green(`✅ Access token replaced${reference ? ` in the token store as "${reference.name}"` : ''}${profile ? ` for profile ${profile}` : ''}`));
+      if (inherited) {
+        console.log(chalk.gray('   The shared default token and the profiles inheriting it are unchanged'));
+      }
+      if (process.env.WINGMAN_ACCESS_TOKEN) {
+        console.log(chalk.yellow('⚠️  WINGMAN_ACCESS_TOKEN is set and takes precedence over .wingman.json; update it as well'));
+      }
+      console.log(chalk.gray('💡 Revoke the old token once every deployment uses the new one'));
+    } catch (error) {
+      console.error(chalk.red('❌ Failed to rotate the access token:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+const configCommand = program
+  .command('config')
+  .description('Read, change and upgrade .wingman.json');
+
+configCommand
+  .command('get')
+  .description('Print the effective value of a key, e.g. "sampleRates.low"')
+  .argument('<key>', 'Dot-separated config key')
+  .option('-p, --profile <name>', 'Profile to read (default: WINGMAN_ENV or NODE_ENV)')
+  .action(async (key: string, options: { profile?: string }) => {
+    if (!getSchemaAt(key)) {
+      console.error(chalk.red(`❌ Unknown config key "${key}"`));
+      process.exit(1);
+    }
+
+    const configManager = new ConfigManager(undefined, options.profile);
+    const config = await configManager.load();
+    const value = config ? getConfigValue(config, key) : undefined;
+    if (value === undefined) {
+      console.error(chalk.yellow(`⚠️  ${key} is not set`));
+      process.exit(1);
+    }
+
+    if (key === 'accessToken') {
+      // The env: or store: reference, or the literal token masked; never the secret itself
+      console.log(configManager.getTokenReference() || maskToken(String(value)));
+    } else {
+      console.log(typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value));
+    }
+    console.error(chalk.gray(`(from ${configManager.getSource(key) || 'default'})`));
+  });
+
+configCommand
+  .command('set')
+  .description('Set a key in .wingman.json, checked against the config schema')
+  .argument('<key>', 'Dot-separated config key, e.g. "queue.maxSize"')
+  .argument('<value>', 'New value; objects and arrays are given as JSON')
+  .option('-p, --profile <name>', 'Profile to change (default: WINGMAN_ENV or NODE_ENV, else the shared defaults)')
+  .action(async (key: string, input: string, options: { profile?: string }) => {
+    try {
+      const configPath = path.join(process.cwd(), '.wingman.json');
+
+      if (!await fs.pathExists(configPath)) {
+        console.log(chalk.yellow('⚠️  Wingman not initialized. Run "wingman init <accessToken>" first.'));
+        return;
+      }
+
+      if (key === 'accessToken') {
+        throw new Error('accessToken cannot be set directly; use "wingman rotate-token <newToken>" to verify and replace it');
+      }
+
+      const value = parseConfigValue(key, input);
+      const file = migrateConfig(await fs.readJson(configPath)).config;
+      const { profile } = resolveProfile(file, options.profile);
+      setConfigValue(profile ? file.profiles![profile] : file, key, value);
+      await fs.writeJson(configPath, file, { spaces: 2 });
+
+      console.log(chalk.green(`✅ ${key} = ${JSON.stringify(value)}${profile ? ` in profile ${profile}` : ''}`));
+    } catch (error) {
+      console.error(chalk.red('❌ Failed to set config value:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('unset')
+  .description('Remove a key from .wingman.json so its default applies')
+  .argument('<key>', 'Dot-separated config key')
+  .option('-p, --profile <name>', 'Profile to change (default: WINGMAN_ENV or NODE_ENV, else the shared defaults)')
+  .action(async (key: string, options: { profile?: string }) => {
+    try {
+      const configPath = path.join(process.cwd(), '.wingman.json');
+
+      if (!await fs.pathExists(configPath)) {
+        console.log(chalk.yellow('⚠️  Wingman not initialized. Run "wingman init <accessToken>" first.'));
+        return;
+      }
+
+      if (!getSchemaAt(key)) {
+        throw new Error(`Unknown config key "${key}"`);
+      }
+      if (key === 'accessToken') {
+        throw new Error('accessToken cannot be removed; use "wingman rotate-token <newToken>" to replace it');
+      }
+
+      const file = migrateConfig(await fs.readJson(configPath)).config;
+      const { profile } = resolveProfile(file, options.profile);
+      if (!unsetConfigValue(profile ? file.profiles![profile] : file, key)) {
+        console.log(chalk.yellow(`⚠️  ${key} is not set${profile ? ` in profile ${profile}` : ''}`));
+        return;
+      }
+      await fs.writeJson(configPath, file, { spaces: 2 });
+
+      console.log(chalk.green(`✅ Removed ${key}${profile ? ` from profile ${profile}` : ''}`));
+    } catch (error) {
+      console.error(chalk.red('❌ Failed to unset config value:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('migrate')
+  .description(`Upgrade .wingman.json to schema version ${CURRENT_SCHEMA_VERSION}`)
+  .option('--dry-run', 'Print the migrated file instead of writing it')
+  .action(async (options: { dryRun?: boolean }) => {
+    try {
+      const configPath = path.join(process.cwd(), '.wingman.json');
+
+      if (!await fs.pathExists(configPath)) {
+        console.log(chalk.yellow('⚠️  Wingman not initialized. Run "wingman init <accessToken>" first.'));
+        return;
+      }
+
+      const { config: file, fromVersion, applied } = migrateConfig(await fs.readJson(configPath));
+      if (applied.length === 0) {
+        console.log(chalk.green(`✅ .wingman.json is already at schema version ${CURRENT_SCHEMA_VERSION}`));
+      } else {
+        console.log(chalk.blue(`🔧 Migrating .wingman.json from schema version ${fromVersion} to ${CURRENT_SCHEMA_VERSION}:`));
+        applied.forEach(description => console.log(chalk.gray(`   - ${description}`)));
+      }
+
+      const migrated: WingmanConfigFile = file.$schema ? file : { $schema: CONFIG_SCHEMA_URL, schemaVersion: file.schemaVersion, ...file };
+      const issues = validateConfig(migrated, { requireAccessToken: false });
+      const errors = issues.filter(issue => issue.severity === 'error');
+      const warnings = issues.filter(issue => issue.severity === 'warning');
+      if (warnings.length > 0) {
+        console.log(chalk.yellow('⚠️  Unknown keys:'));
+        console.log(chalk.yellow(formatConfigIssues(warnings)));
+      }
+      if (errors.length > 0) {
+        console.error(chalk.red('❌ .wingman.json has errors that need fixing by hand:'));
+        console.error(chalk.red(formatConfigIssues(errors)));
+        process.exit(1);
+      }
+
+      if (options.dryRun) {
+        console.log(JSON.stringify(migrated, null, 2));
+        return;
+      }
+      if (applied.length > 0 || migrated !== file) {
+        await fs.copy(configPath, `${configPath}.bak`);
+        await fs.writeJson(configPath, migrated, { spaces: 2 });
+        console.log(chalk.green('✅ .wingman.json updated (previous version saved to .wingman.json.bak)'));
+      }
+    } catch (error) {
+      console.error(chalk.red('❌ Failed to migrate .wingman.json:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('schema')
+  .description('Print the JSON Schema of .wingman.json for editor autocompletion')
+  .option('-o, --output <file>', 'Write the schema to a file instead')
+  .action(async (options: { output?: string }) => {
+    const schema = JSON.stringify(WINGMAN_CONFIG_SCHEMA, null, 2);
+    if (options.output) {
+      await fs.outputFile(options.output, schema + '\n');
+      console.log(chalk.green(`✅ Schema written to ${options.output}`));
+    } else {
+      console.log(schema);
+    }
+  });
+
+program
+  .command('symbolicate')
+  .description('Resolve minified stack frames in saved reports against local source maps')
+  .argument('<reportFile>', 'JSON or NDJSON file of reports, e.g. written by the file transport')
+  .option('-m, --maps <dir>', 'Build output directory containing the .map files')
+  .option('-s, --store <dir>', 'Artifact store written by upload-sourcemaps; used for reports with a stored release', DEFAULT_ARTIFACT_STORE)
+  .option('-o, --output <file>', 'Write the resolved payloads as NDJSON to this file')
+  .option('-c, --context <lines>', 'Source lines shown around each frame', '3')
+  .action(async (reportFile: string, options: { maps?: string; store: string; output?: string; context: string }) => {
+    try {
+      const content = await fs.readFile(reportFile, 'utf8');
+      // Transport payloads, as written by the file transport, or bare reports
+      let payloads: Array<WingmanPayload | ErrorReport>;
+      try {
+        const parsed = JSON.parse(content);
+        payloads = Array.isArray(parsed) ? parsed : [parsed];
+      } catch {
+        payloads = content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+      }
+
+      const resolvers = new Map<string, SourceMapResolver>();
+      const getResolver = (release?: string): SourceMapResolver | null => {
+        let directory = options.maps;
+        if (release && fs.pathExistsSync(getReleaseDirectory(options.store, release))) {
+          directory = getReleaseDirectory(options.store, release);
+        }
+        if (!directory) return null;
+        if (!resolvers.has(directory)) {
+          resolvers.set(directory, new SourceMapResolver({ directory, contextLines: Number(options.context) }));
+        }
+        return resolvers.get(directory)!;
+      };
+
+      for (const payload of payloads) {
+        // Batches carry several reports; single payloads wrap one report in `data`
+        const reports: ErrorReport[] = !('event' in payload)
+          ? [payload]
+          : payload.event === 'error.batch' ? payload.data.reports : [payload.data as ErrorReport];
+
+        for (const report of reports) {
+          let frames: StackFrame[] = report.frames || parseStack(report.stack);
+          if (frames.length === 0 && report.metadata?.source && report.metadata?.lineno) {
+            const { source, lineno, colno } = report.metadata;
+            frames = [{ file: source, line: lineno, column: colno || undefined, inApp: isInAppFile(source) }];
+          }
+          const resolver = getResolver(report.release);
+          if (resolver) {
+            report.frames = await resolver.resolveFrames(frames);
+          } else {
+            report.frames = frames;
+            console.log(chalk.yellow(`⚠️  No source maps for release ${report.release || '(none)'}; pass --maps <dir>`));
+          }
+
+          console.log(chalk.red(`\n${report.errorType || 'error'}: ${String(report.message || '').split('\n')[0]}`));
+          for (const frame of report.frames as StackFrame[]) {
+            const location = frame.original || frame;
+            const name = location.function || frame.function || '<anonymous>';
+            console.log(`  at ${name} (${location.file}:${location.line}:${location.column})`);
+            if (frame.context) {
+              frame.context.pre.forEach(line => console.log(chalk.gray(`      ${line}`)));
+              console.log(chalk.yellow(`    > ${frame.context.line}`));
+              frame.context.post.forEach(line => console.log(chalk.gray(`      ${line}`)));
+            }
+          }
+        }
+      }
+
+      if (options.output) {
+        await fs.writeFile(options.output, payloads.map(payload => JSON.stringify(payload)).join('\n') + '\n', 'utf8');
+        console.log(chalk.green(`\n✅ Resolved reports written to ${options.output}`));
+      }
+    } catch (error) {
+      console.error(chalk.red('❌ Failed to symbolicate reports:'), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('upload-sourcemaps')
+  .description('Validate the source maps in a build directory and upload them for a release')
+  .argument('<buildDir>', 'Build output directory containing .js and .js.map files')
+  .option('-r, --release <release>', 'Release identifier (default: package.json version + git SHA)')
+  .option('-s, --store [dir]', `Write to a local artifact store instead of uploading (default: ${DEFAULT_ARTIFACT_STORE})`)
+  .option('-p, --profile <name>', 'Profile whose token and transport are used (default: WINGMAN_ENV or NODE_ENV)')
+  .action(async (buildDir: string, options: { release?: string; store?: string | boolean; profile?: string }) => {
+    try {
+      const configManager = new ConfigManager(undefined, options.profile);
+      const config = await configManager.load();
+
+      const release = resolveRelease(process.cwd(), options.release || config?.release);
+      if (!release) {
+        console.error(chalk.red('❌ Could not determine a release. Pass --release <release>.'));
+        process.exit(1);
+      }
+
+      if (!await fs.pathExists(buildDir)) {
+        console.error(chalk.red(`❌ Build directory ${buildDir} does not exist`));
+        process.exit(1);
+      }
+
+      const artifacts = await collectSourceMaps(buildDir);
+      if (artifacts.length === 0) {
+        console.log(chalk.yellow(`⚠️  No .js.map files found in ${buildDir}`));
+        return;
+      }
+
+      const invalid = artifacts.filter(artifact => artifact.errors.length > 0);
+      for (const artifact of artifacts) {
+        if (artifact.errors.length === 0) {
+          console.log(chalk.green(`   ✓ ${artifact.name}`));
+        } else {
+          console.log(chalk.red(`   ✗ ${artifact.name}`));
+          artifact.errors.forEach(error => console.log(chalk.gray(`     ${error}`)));
+        }
+      }
+      if (invalid.length > 0) {
+        console.error(chalk.red(`❌ ${invalid.length} source map(s) do not match their bundles`));
+        process.exit(1);
+      }
+
+      if (options.store) {
+        const storeDir = typeof options.store === 'string' ? options.store : DEFAULT_ARTIFACT_STORE;
+        const releaseDir = await writeArtifacts(storeDir, release, artifacts);
+        console.log(chalk.green(`✅ Stored ${artifacts.length} source map(s) for release ${release} in ${releaseDir}`));
+        return;
+      }
+
+      if (!config) {
+        console.log(chalk.yellow('⚠️  Wingman not initialized. Run "wingman init <accessToken>" first, or use --store.'));
+        process.exit(1);
+      }
+
+      const transport = createTransport(config.transport, {
+        accessToken: config.accessToken,
+        projectPath: process.cwd(),
+        projectId: config.projectId
+      });
+      await transport.send(await buildUploadPayload(release, artifacts, {
+        accessToken: config.accessToken,
+        environment: config.environment
+      }));
+      console.log(chalk.green(`✅ Uploaded ${artifacts.length} source map(s) for release ${release} via ${transport.name} transport`));
+    } catch (error) {
+      console.error(chalk.red('❌ Failed to upload source maps:'), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('tail')
+  .description('Run a local webhook receiver that pretty-prints incoming reports')
+  .option('-p, --port <port>', 'Port to listen on', '3001')
+  .option('--host <host>', 'Host to bind to', '127.0.0.1')
+  .option('-t, --token <token>', 'Access token to accept (default: accessToken from .wingman.json)')
+  .option('--project-id <id>', 'projectId returned from the wingman.init handshake')
+  .option('-o, --output <file>', 'Also append every accepted payload to this NDJSON file')
+  .option('--full', 'Show every stack frame instead of only in-app frames')
+  .option('--require-signature', 'Reject requests that are not HMAC-signed with the access token')
+  .option('--profile <name>', 'Profile whose access token is accepted (default: WINGMAN_ENV or NODE_ENV)')
+  .action(async (options: { port: string; host: string; token?: string; projectId?: string; output?: string; full?: boolean; requireSignature?: boolean; profile?: string }) => {
+    try {
+      const config = await new ConfigManager(undefined, options.profile).load();
+      const accessToken = options.token || config?.accessToken;
+
+      const server = createTailServer({
+        accessToken,
+        projectId: options.projectId || config?.projectId || 'wingman-local',
+        output: options.output,
+        fullStacks: options.full,
+        requireSignature: options.requireSignature
+      });
+
+      server.on('error', (error: NodeJS.ErrnoException) => {
+        console.error(chalk.red('❌ Failed to start receiver:'), error.code === 'EADDRINUSE' ? `port ${options.port} is in use` : error);
+        process.exit(1);
+      });
+
+      server.listen(Number(options.port), options.host, () => {
+        const url = `http://${options.host === '0.0.0.0' ? 'localhost' : options.host}:${options.port}/webhook`;
+        console.log(chalk.blue(`🛡️  Wingman tail listening on ${url}`));
+        console.log(chalk.gray(`   Point your app at it with WINGMAN_WEBHOOK_URL=${url}`));
+        if (!accessToken) {
+          console.log(chalk.gray(`   No access token configured, accepting every request${options.requireSignature ? ' (--require-signature needs a token)' : ''}`));
+        } else {
+          console.log(chalk.gray(options.requireSignature ? '   Requests must be signed with the configured access token' : '   Requests must carry or be signed with the configured access token'));
+        }
+        if (options.output) {
+          console.log(chalk.gray(`   Saving reports to ${options.output}`));
+        }
+        console.log(chalk.gray('   Press Ctrl+C to stop\n'));
+      });
+    } catch (error) {
+      console.error(chalk.red('❌ Failed to start receiver:'), error);
+      process.exit(1);
+    }
+  });
+
 program.parse();
@@ -1,5 +1,76 @@
-import * as fs from 'fs-extra';
-import * as path from 'path';
+import { QueueOptions } from './queue';
+import { BatchOptions } from './batcher';
+import { DedupeOptions } from './deduplicator';
+import type { TransportConfig } from './transports/types';
+import { RateLimitOptions, SampleRates } from './rateLimiter';
+import type { ScrubbingOptions } from './utils/scrubber';
+import type { BreadcrumbOptions } from './breadcrumbs';
+import { formatConfigIssues, validateConfig } from './configSchema';
+import { CONFIG_SCHEMA_URL, CURRENT_SCHEMA_VERSION, migrateConfig } from './configMigrations';
+import { parseTokenReference, resolveTokenReference } from './utils/tokenResolver';
+import { ProjectInfo, getPlatform } from './platform';
+
+export interface HttpInstrumentationOptions {
+  /**
+   * Report responses with a 5xx status as 'httpError' reports
+   * @default false
+   */
+  reportServerErrors?: boolean;
+  /**
+   * Report requests that failed without a response as 'networkError' reports
+   * @default false
+   */
+  reportNetworkErrors?: boolean;
+  /**
+   * Requests whose URL contains one of these strings are not instrumented
+   */
+  ignoreUrls?: string[];
+}
+
+export interface InstrumentationOptions {
+  /**
+   * Wrap fetch, XMLHttpRequest and Node's http/https to record requests as breadcrumbs,
+   * and optionally report failed requests
+   * @default false
+   */
+  http?: boolean | HttpInstrumentationOptions;
+}
+
+export interface SourceMapOptions {
+  /**
+   * Build output directory with the current .map files, relative to the project path.
+   * Used for reports whose release has no stored artifacts.
+   */
+  directory?: string;
+  /**
+   * Local artifact store written by `wingman upload-sourcemaps --store`, relative to the project path
+   * @default '.wingman/sourcemaps'
+   */
+  artifactStore?: string;
+  /**
+   * Number of original source lines included before and after each resolved line
+   * @default 3
+   */
+  contextLines?: number;
+}
+
+export const DEFAULT_WEBHOOK_URL = 'https://patchworks-sigma.vercel.app/webhook';
+
+/**
+ * Resolves the webhook URL from an explicit value, WINGMAN_WEBHOOK_URL or the hosted default
+ */
+export function resolveWebhookUrl(explicitUrl?: string): string {
+  return explicitUrl || readEnv(() => process.env.WINGMAN_WEBHOOK_URL) || DEFAULT_WEBHOOK_URL;
+}
+
+export interface DeliveryOptions extends BatchOptions {
+  /**
+   * 'single' posts every report as its own 'error.runtime' event,
+   * 'batch' coalesces reports into one 'error.batch' event
+   * @default 'single'
+   */
+  mode?: 'single' | 'batch';
+}
 
 export interface WingmanConfig {
   accessToken: string;
@@ -8,14 +79,344 @@ export interface WingmanConfig {
   projectPath: string;
   enabled?: boolean;
   createdAt?: string;
+  /**
+   * Release stamped on every report, also read from WINGMAN_RELEASE. It is never derived at runtime;
+   * createInlineConfig() and `wingman upload-sourcemaps` default to "<package.json version>+<git short SHA>".
+   */
+  release?: string;
+  /**
+   * Name, version and URL of the project attached to reports; read from package.json in Node.js.
+   * Browser builds get it from createInlineConfig() or set it here.
+   */
+  projectInfo?: ProjectInfo;
+  /**
+   * Retry queue for reports that could not be delivered
+   */
+  queue?: QueueOptions;
+  /**
+   * How reports are grouped into webhook calls
+   */
+  delivery?: DeliveryOptions;
+  /**
+   * Collapsing of repeated errors with the same fingerprint
+   */
+  dedupe?: DedupeOptions;
+  /**
+   * Where reports are delivered
+   * @default { type: 'webhook' }
+   */
+  transport?: TransportConfig;
+  /**
+   * Token bucket bounding how many reports this process sends
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Fraction of reports sent per severity, e.g. { critical: 1, low: 0.1 }
+   */
+  sampleRates?: SampleRates;
+  /**
+   * Redaction of PII and secrets in messages, stacks, metadata and console logs
+   */
+  scrubbing?: ScrubbingOptions;
+  /**
+   * Size, time window and sources of the breadcrumb trail attached to reports
+   */
+  breadcrumbs?: BreadcrumbOptions;
+  /**
+   * Local .map files used to resolve report stacks to original sources
+   */
+  sourceMaps?: SourceMapOptions;
+  /**
+   * Opt-in wrappers around platform APIs
+   */
+  instrumentation?: InstrumentationOptions;
+}
+
+/**
+ * Overrides applied on top of the shared defaults when a profile is active
+ */
+export type WingmanProfile = Partial<WingmanConfig>;
+
+/**
+ * Contents of .wingman.json: shared defaults at the top level plus named profiles
+ */
+export interface WingmanConfigFile extends Partial<WingmanConfig> {
+  /**
+   * JSON Schema used by editors for autocompletion
+   */
+  $schema?: string;
+  /**
+   * Version of the file format, see CURRENT_SCHEMA_VERSION
+   */
+  schemaVersion?: number;
+  profiles?: Record<string, WingmanProfile>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merges profile overrides into the defaults; arrays and primitives are replaced
+ */
+export function mergeConfig<T extends Record<string, any>>(base: T, overrides: Partial<T>): T {
+  const result: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? mergeConfig(result[key], value) : value;
+  }
+  return result as T;
+}
+
+/**
+ * Reads a dot-separated key such as "queue.maxSize"
+ */
+export function getConfigValue(config: Record<string, any>, key: string): unknown {
+  return key.split('.').reduce<any>((value, part) => (isPlainObject(value) ? value[part] : undefined), config);
+}
+
+/**
+ * Sets a dot-separated key, creating intermediate objects
+ */
+export function setConfigValue(config: Record<string, any>, key: string, value: unknown): void {
+  const parts = key.split('.');
+  let target = config;
+  for (const part of parts.slice(0, -1)) {
+    if (!isPlainObject(target[part])) target[part] = {};
+    target = target[part];
+  }
+  target[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Removes a dot-separated key and any objects left empty by it. Returns false when the key was not set.
+ */
+export function unsetConfigValue(config: Record<string, any>, key: string): boolean {
+  const parts = key.split('.');
+  const parents: Array<Record<string, any>> = [config];
+  for (const part of parts.slice(0, -1)) {
+    const next = parents[parents.length - 1][part];
+    if (!isPlainObject(next)) return false;
+    parents.push(next);
+  }
+  const last = parts[parts.length - 1];
+  if (!(last in parents[parents.length - 1])) return false;
+
+  delete parents[parents.length - 1][last];
+  for (let index = parents.length - 1; index > 0 && Object.keys(parents[index]).length === 0; index--) {
+    delete parents[index - 1][parts[index - 1]];
+  }
+  return true;
+}
+
+/**
+ * Picks the profile name from an explicit value, WINGMAN_ENV or NODE_ENV
+ */
+export function selectProfileName(explicitProfile?: string): { name?: string; explicit: boolean } {
+  if (explicitProfile) return { name: explicitProfile, explicit: true };
+  const name = readEnv(() => process.env.WINGMAN_ENV) || readEnv(() => process.env.NODE_ENV);
+  return { name, explicit: false };
+}
+
+function profileNotFound(name: string, files: WingmanConfigFile[]): Error {
+  const available = Array.from(new Set(files.flatMap(file => Object.keys(file.profiles || {}))));
+  return new Error(`Wingman: Profile "${name}" not found in .wingman.json${available.length > 0 ? ` (available: ${available.join(', ')})` : ''}`);
+}
+
+/**
+ * Merges the selected profile over the shared defaults. The profile name becomes the
+ * environment unless the profile sets one. A profile named through WINGMAN_ENV/NODE_ENV
+ * that does not exist falls back to the defaults; an explicitly requested one throws.
+ */
+export function resolveProfile(file: WingmanConfigFile, explicitProfile?: string): { config: WingmanConfig; profile?: string } {
+  const { profiles, ...defaults } = file;
+  const { name, explicit } = selectProfileName(explicitProfile);
+  const overrides = name ? profiles?.[name] : undefined;
+
+  if (!overrides) {
+    if (explicit) throw profileNotFound(name!, [file]);
+    return { config: defaults as WingmanConfig };
+  }
+
+  const config = mergeConfig(defaults, overrides) as WingmanConfig;
+  config.environment = overrides.environment || name!;
+  return { config, profile: name };
+}
+
+/**
+ * Where an effective config value came from, lowest precedence last:
+ * constructor/provider options, WINGMAN_* environment variables, config inlined at build time,
+ * the active profile, the shared defaults of .wingman.json, built-in defaults
+ */
+export type ConfigSource = 'options' | 'env' | 'inline' | 'profile' | 'file' | 'default';
+
+export interface ConfigManagerOptions {
+  /**
+   * Directory containing .wingman.json
+   * @default process.cwd()
+   */
+  projectPath?: string;
+  /**
+   * Profile to use; defaults to WINGMAN_ENV, then NODE_ENV
+   */
+  profile?: string;
+  /**
+   * Values that take precedence over every other source
+   */
+  overrides?: Partial<WingmanConfig>;
+  /**
+   * Read .wingman.json; turn off where the working directory is unknown or read-only.
+   * Never read by the browser entry.
+   * @default true
+   */
+  readFile?: boolean;
+}
+
+declare const __WINGMAN_CONFIG__: WingmanConfigFile | undefined;
+
+/**
+ * Reads a variable through a literal `process.env.X` expression so bundlers can inline it,
+ * without failing where `process` does not exist
+ */
+function readEnv(get: () => string | undefined): string | undefined {
+  try {
+    return get() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseBoolean(name: string, value: string | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (/^(true|1|yes|on)$/i.test(value)) return true;
+  if (/^(false|0|no|off)$/i.test(value)) return false;
+  console.warn(`Wingman: Ignoring ${name}="${value}", expected true or false`);
+  return undefined;
+}
+
+function parseRate(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const rate = Number(value);
+  if (value.trim() === '' || !Number.isFinite(rate) || rate < 0 || rate > 1) {
+    console.warn(`Wingman: Ignoring ${name}="${value}", expected a number between 0 and 1`);
+    return undefined;
+  }
+  return rate;
+}
+
+/**
+ * Reads WINGMAN_ACCESS_TOKEN, WINGMAN_ENVIRONMENT, WINGMAN_WEBHOOK_URL, WINGMAN_ENABLED, WINGMAN_RELEASE,
+ * WINGMAN_SAMPLE_RATE and WINGMAN_SAMPLE_RATE_<SEVERITY>
+ */
+export function readEnvConfig(): Partial<WingmanConfig> {
+  const config: Partial<WingmanConfig> = {};
+
+  const accessToken = readEnv(() => process.env.WINGMAN_ACCESS_TOKEN);
+  if (accessToken) config.accessToken = accessToken;
+
+  const environment = readEnv(() => process.env.WINGMAN_ENVIRONMENT);
+  if (environment) config.environment = environment;
+
+  const webhookUrl = readEnv(() => process.env.WINGMAN_WEBHOOK_URL);
+  if (webhookUrl) config.transport = { url: webhookUrl };
+
+  const enabled = parseBoolean('WINGMAN_ENABLED', readEnv(() => process.env.WINGMAN_ENABLED));
+  if (enabled !== undefined) config.enabled = enabled;
+
+  const release = readEnv(() => process.env.WINGMAN_RELEASE);
+  if (release) config.release = release;
+
+  const allRate = parseRate('WINGMAN_SAMPLE_RATE', readEnv(() => process.env.WINGMAN_SAMPLE_RATE));
+  const sampleRates: SampleRates = {
+    low: parseRate('WINGMAN_SAMPLE_RATE_LOW', readEnv(() => process.env.WINGMAN_SAMPLE_RATE_LOW)) ?? allRate,
+    medium: parseRate('WINGMAN_SAMPLE_RATE_MEDIUM', readEnv(() => process.env.WINGMAN_SAMPLE_RATE_MEDIUM)) ?? allRate,
+    high: parseRate('WINGMAN_SAMPLE_RATE_HIGH', readEnv(() => process.env.WINGMAN_SAMPLE_RATE_HIGH)) ?? allRate,
+    critical: parseRate('WINGMAN_SAMPLE_RATE_CRITICAL', readEnv(() => process.env.WINGMAN_SAMPLE_RATE_CRITICAL)) ?? allRate,
+  };
+  if (Object.values(sampleRates).some(rate => rate !== undefined)) {
+    config.sampleRates = mergeConfig<SampleRates>({}, sampleRates);
+  }
+
+  return config;
+}
+
+/**
+ * Config inlined at build time through a `__WINGMAN_CONFIG__` define, or set on globalThis before start
+ */
+export function getInlineConfig(): WingmanConfigFile | undefined {
+  try {
+    if (typeof __WINGMAN_CONFIG__ !== 'undefined' && __WINGMAN_CONFIG__) return __WINGMAN_CONFIG__;
+  } catch {
+    // Not defined by the bundler
+  }
+  return (globalThis as { __WINGMAN_CONFIG__?: WingmanConfigFile }).__WINGMAN_CONFIG__;
+}
+
+function collectSources(value: Record<string, any>, source: ConfigSource, sources: Record<string, ConfigSource>, prefix = ''): void {
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(item) && Object.keys(item).length > 0) {
+      collectSources(item, source, sources, keyPath);
+    } else {
+      sources[keyPath] = source;
+    }
+  }
+}
+
+/**
+ * Migrates a parsed .wingman.json to the current schema version and validates it.
+ * Throws with every error and its path; unknown keys are only warned about.
+ */
+export function parseConfigFile(raw: unknown, fileName = '.wingman.json'): WingmanConfigFile {
+  if (!isPlainObject(raw)) {
+    throw new Error(`Wingman: ${fileName} must contain a JSON object`);
+  }
+
+  const { config, fromVersion, applied } = migrateConfig(raw);
+  if (applied.length > 0) {
+    console.warn(`Wingman: ${fileName} uses schema version ${fromVersion} and was migrated in memory. Run "wingman config migrate" to update the file.`);
+  }
+
+  const issues = validateConfig(config, { requireAccessToken: false });
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+  if (errors.length > 0) {
+    throw new Error(`Wingman: ${fileName} is invalid:\n${formatConfigIssues(errors)}`);
+  }
+  if (warnings.length > 0) {
+    console.warn(`Wingman: ${fileName} has unknown keys:\n${formatConfigIssues(warnings)}`);
+  }
+  return config;
 }
 
 export class ConfigManager {
-  private configPath: string;
+  private configPath?: string;
+  private projectPath?: string;
+  private requestedProfile?: string;
+  private overrides: Partial<WingmanConfig>;
+  private readFile: boolean;
   private config: WingmanConfig | null = null;
+  private file: WingmanConfigFile | null = null;
+  private profile?: string;
+  private sources: Record<string, ConfigSource> = {};
+  private tokenReference?: string;
 
-  constructor(projectPath?: string) {
-    this.configPath = path.join(projectPath || process.cwd(), '.wingman.json');
+  /**
+   * @param profile Profile to use; defaults to WINGMAN_ENV, then NODE_ENV
+   */
+  constructor(projectPathOrOptions?: string | ConfigManagerOptions, profile?: string) {
+    const options: ConfigManagerOptions = typeof projectPathOrOptions === 'string'
+      ? { projectPath: projectPathOrOptions, profile }
+      : { profile, ...projectPathOrOptions };
+
+    this.projectPath = options.projectPath;
+    this.requestedProfile = options.profile;
+    this.overrides = options.overrides || {};
+    this.readFile = options.readFile !== false;
+    if (this.readFile) {
+      this.configPath = getPlatform().getConfigPath?.(options.projectPath);
+    }
   }
 
   async initialize(config: WingmanConfig): Promise<void> {
@@ -26,24 +427,104 @@ export class ConfigManager {
     };
   }
 
+  /**
+   * Resolves the effective config from every source. Returns null when no source provides
+   * an access token and there is no .wingman.json.
+   */
   async load(): Promise<WingmanConfig | null> {
     try {
-      if (await fs.pathExists(this.configPath)) {
-        this.config = await fs.readJson(this.configPath);
-        return this.config;
+      this.file = null;
+      const { readJsonFile } = getPlatform();
+      if (this.configPath && readJsonFile) {
+        const raw = await readJsonFile(this.configPath);
+        if (raw !== undefined) {
+          this.file = parseConfigFile(raw);
+        }
       }
+      return this.resolve();
     } catch (error) {
-      console.error('Failed to load Wingman config:', error);
+      console.error('Failed to load Wingman config:', error instanceof Error ? error.message : error);
     }
     return null;
   }
 
+  private resolve(): WingmanConfig | null {
+    const inline = getInlineConfig();
+    const files = [this.file, inline].filter((file): file is WingmanConfigFile => !!file);
+    const { name, explicit } = selectProfileName(this.requestedProfile);
+
+    const layers: Array<[ConfigSource, Partial<WingmanConfig>]> = [];
+    layers.push(['default', {
+      enabled: true,
+      projectPath: this.projectPath || getPlatform().getWorkingDirectory?.() || ''
+    }]);
+
+    let profileFound = false;
+    for (const [file, source] of [[this.file, 'file'], [inline, 'inline']] as const) {
+      if (!file) continue;
+      const { profiles, ...defaults } = file;
+      layers.push([source, defaults]);
+
+      const overrides = name ? profiles?.[name] : undefined;
+      if (overrides) {
+        profileFound = true;
+        layers.push([source === 'file' ? 'profile' : 'inline', { ...overrides, environment: overrides.environment || name }]);
+      }
+    }
+    if (explicit && !profileFound) {
+      throw profileNotFound(name!, files);
+    }
+
+    const envConfig = readEnvConfig();
+    const lowerTransport = layers.reduce<Partial<WingmanConfig>>((merged, [, values]) => mergeConfig(merged, values), {}).transport;
+    // WINGMAN_WEBHOOK_URL only redirects the webhook transport
+    if (envConfig.transport && (lowerTransport?.type ?? 'webhook') !== 'webhook') {
+      delete envConfig.transport;
+    }
+    layers.push(['env', envConfig]);
+    layers.push(['options', this.overrides]);
+
+    this.profile = profileFound ? name : undefined;
+    this.sources = {};
+    let merged: Partial<WingmanConfig> = {};
+    for (const [source, values] of layers) {
+      merged = mergeConfig(merged, values);
+      collectSources(values, source, this.sources);
+    }
+
+    if (!merged.accessToken && files.length === 0) {
+      this.config = null;
+      return null;
+    }
+    // "env:NAME" and "store:name" references are resolved after merging, so any layer may use them
+    this.tokenReference = merged.accessToken && parseTokenReference(merged.accessToken) ? merged.accessToken : undefined;
+    if (this.tokenReference) {
+      merged.accessToken = resolveTokenReference(this.tokenReference);
+    }
+    this.config = merged as WingmanConfig;
+    return this.config;
+  }
+
+  /**
+   * Writes the values into the active profile, or into the shared defaults when no profile is active
+   */
   async save(config: Partial<WingmanConfig>): Promise<void> {
     try {
-      if (this.config) {
-        this.config = { ...this.config, ...config };
-        await fs.writeJson(this.configPath, this.config, { spaces: 2 });
+      const { writeJsonFile } = getPlatform();
+      if (!this.configPath || !writeJsonFile) {
+        console.warn('Wingman: Config can only be saved to .wingman.json in Node.js');
+        return;
+      }
+      const file: WingmanConfigFile = this.file || { $schema: CONFIG_SCHEMA_URL };
+      file.schemaVersion = CURRENT_SCHEMA_VERSION;
+      if (this.profile && file.profiles?.[this.profile]) {
+        file.profiles[this.profile] = { ...file.profiles[this.profile], ...config };
+      } else {
+        Object.assign(file, config);
       }
+      this.file = file;
+      this.resolve();
+      await writeJsonFile(this.configPath, file);
     } catch (error) {
       console.error('Failed to save Wingman config:', error);
     }
@@ -53,7 +534,66 @@ export class ConfigManager {
     return this.config;
   }
 
+  /**
+   * Name of the profile merged into the loaded config, if any
+   */
+  getProfile(): string | undefined {
+    return this.profile;
+  }
+
+  /**
+   * The raw .wingman.json contents including all profiles
+   */
+  getFile(): WingmanConfigFile | null {
+    return this.file;
+  }
+
+  /**
+   * Source of every effective value by dot-separated key, e.g. { accessToken: 'env', 'sampleRates.low': 'file' }
+   */
+  getSources(): Record<string, ConfigSource> {
+    return { ...this.sources };
+  }
+
+  /**
+   * The "env:" or "store:" reference the access token was resolved from, if any
+   */
+  getTokenReference(): string | undefined {
+    return this.tokenReference;
+  }
+
+  /**
+   * Source of one effective value, or of the most specific value set under that key
+   */
+  getSource(key: string): ConfigSource | undefined {
+    if (this.sources[key]) return this.sources[key];
+    const nested = Object.keys(this.sources).filter(sourceKey => sourceKey.startsWith(`${key}.`));
+    return nested.length > 0 ? this.sources[nested[nested.length - 1]] : undefined;
+  }
+
   isEnabled(): boolean {
     return this.config?.enabled === true;
   }
 }
+
+/**
+ * Resolves the config a client bundle should inline at build time (Node.js only), for use with
+ * a bundler define, e.g. `define: { __WINGMAN_CONFIG__: JSON.stringify(await createInlineConfig()) }`.
+ * The release and project info are filled in from the project unless configured; projectPath
+ * and createdAt are left out.
+ */
+export async function createInlineConfig(options: ConfigManagerOptions = {}): Promise<Partial<WingmanConfig>> {
+  const config = await new ConfigManager(options).load();
+  if (!config) {
+    throw new Error('Wingman: No configuration found to inline. Run "wingman init <accessToken>" or set WINGMAN_ACCESS_TOKEN.');
+  }
+  const platform = getPlatform();
+  const inline: Partial<WingmanConfig> = {
+    ...config,
+    release: config.release || platform.resolveRelease?.(options.projectPath),
+    projectInfo: config.projectInfo || platform.readProjectInfo?.(options.projectPath),
+  };
+  delete inline.projectPath;
+  delete inline.createdAt;
+  return inline;
+}
@@ -0,0 +1,86 @@
+import type { WingmanConfigFile } from './config';
+
+/**
+ * Version written to `schemaVersion` by this release. Files without one are version 1.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/**
+ * Where editors find the JSON Schema of .wingman.json once the package is installed
+ */
+export const CONFIG_SCHEMA_URL = './node_modules/wingman-monitor/wingman.schema.json';
+
+export interface ConfigMigration {
+  /**
+   * Schema version the migration produces
+   */
+  version: number;
+  description: string;
+  migrate: (file: Record<string, any>) => Record<string, any>;
+}
+
+// `webhookUrl` was read by earlier releases of `wingman status`; the URL now lives in the transport
+function moveWebhookUrl(config: Record<string, any>): Record<string, any> {
+  const { webhookUrl, ...rest } = config;
+  if (typeof webhookUrl !== 'string') return config;
+  if (rest.transport?.url) return rest;
+  return { ...rest, transport: { type: 'webhook', ...rest.transport, url: webhookUrl } };
+}
+
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 2,
+    description: 'Move "webhookUrl" to "transport.url" and add "schemaVersion"',
+    migrate: file => {
+      const migrated = moveWebhookUrl(file);
+      if (migrated.profiles && typeof migrated.profiles === 'object') {
+        migrated.profiles = Object.fromEntries(
+          Object.entries<Record<string, any>>(migrated.profiles).map(([name, profile]) => [name, moveWebhookUrl(profile)])
+        );
+      }
+      return migrated;
+    },
+  },
+];
+
+export interface MigrationResult {
+  config: WingmanConfigFile;
+  fromVersion: number;
+  /**
+   * Descriptions of the migrations applied, oldest first; empty when the file was current
+   */
+  applied: string[];
+}
+
+/**
+ * Schema version of a parsed .wingman.json; files written before versioning are version 1
+ */
+export function getSchemaVersion(file: Record<string, any>): number {
+  return typeof file.schemaVersion === 'number' ? file.schemaVersion : 1;
+}
+
+/**
+ * Upgrades a parsed .wingman.json to CURRENT_SCHEMA_VERSION without modifying the input.
+ * Throws for files written by a newer release.
+ */
+export function migrateConfig(file: Record<string, any>): MigrationResult {
+  const fromVersion = getSchemaVersion(file);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Wingman: .wingman.json has schemaVersion ${fromVersion}, but this release supports up to ${CURRENT_SCHEMA_VERSION}. Upgrade wingman-monitor.`);
+  }
+
+  let config: Record<string, any> = JSON.parse(JSON.stringify(file));
+  const applied: string[] = [];
+  for (const migration of CONFIG_MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    config = migration.migrate(config);
+    config.schemaVersion = migration.version;
+    applied.push(migration.description);
+  }
+  if (applied.length > 0) {
+    // Keep the version next to the top of the file
+    const { $schema, schemaVersion, ...rest } = config;
+    config = { ...($schema ? { $schema } : {}), schemaVersion, ...rest };
+  }
+  return { config: config as WingmanConfigFile, fromVersion, applied };
+}
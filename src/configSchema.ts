@@ -0,0 +1,371 @@
+/**
+ * JSON Schema (draft-07 subset) describing .wingman.json
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  enum?: Array<string | number | boolean>;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+}
+
+export interface ConfigIssue {
+  /**
+   * Dot-separated location of the value, e.g. "queue.maxSize"; empty for the root
+   */
+  path: string;
+  message: string;
+  /**
+   * Errors make the config unusable; warnings are unknown keys the monitor ignores
+   */
+  severity: 'error' | 'warning';
+}
+
+const nonNegative: JsonSchema = { type: 'number', minimum: 0 };
+const rate: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const section = (description: string, properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'object',
+  description,
+  properties,
+  additionalProperties: false,
+});
+
+// Keys allowed both as shared defaults and inside a profile
+const CONFIG_PROPERTIES: Record<string, JsonSchema> = {
+  accessToken: { type: 'string', description: 'Access token used to authenticate reports, or a reference: "env:VARIABLE" or "store:name"' },
+  projectId: { type: 'string' },
+  environment: { type: 'string' },
+  projectPath: { type: 'string' },
+  enabled: { type: 'boolean' },
+  createdAt: { type: 'string' },
+  release: { type: 'string' },
+  projectInfo: section('Project name, version and URL attached to reports', {
+    name: { type: 'string' },
+    version: { type: 'string' },
+    url: { type: 'string' },
+  }),
+  queue: section('Retry queue for reports that could not be delivered', {
+    maxSize: { type: 'integer', minimum: 1 },
+    maxAgeMs: nonNegative,
+    baseDelayMs: nonNegative,
+    maxDelayMs: nonNegative,
+  }),
+  delivery: section('How reports are grouped into webhook calls', {
+    mode: { type: 'string', enum: ['single', 'batch'] },
+    maxBatchSize: { type: 'integer', minimum: 1 },
+    flushIntervalMs: nonNegative,
+  }),
+  dedupe: section('Collapsing of repeated errors with the same fingerprint', {
+    windowMs: nonNegative,
+  }),
+  transport: section('Where reports are delivered', {
+    type: { type: 'string', enum: ['webhook', 'http', 'file', 'stdout'] },
+    url: { type: 'string' },
+    signing: { type: 'boolean', description: 'Sign webhook payloads with HMAC-SHA256 instead of sending the access token' },
+    headers: { type: 'object', additionalProperties: { type: 'string' } },
+    timeoutMs: nonNegative,
+    path: { type: 'string' },
+  }),
+  rateLimit: section('Token bucket bounding how many reports this process sends', {
+    capacity: { type: 'number', minimum: 1 },
+    refillPerSecond: nonNegative,
+  }),
+  sampleRates: section('Fraction of reports sent per severity', {
+    low: rate,
+    medium: rate,
+    high: rate,
+    critical: rate,
+  }),
+  scrubbing: section('Redaction of PII and secrets', {
+    enabled: { type: 'boolean' },
+    detectors: section('Built-in detectors', {
+      email: { type: 'boolean' },
+      bearerToken: { type: 'boolean' },
+      jwt: { type: 'boolean' },
+      creditCard: { type: 'boolean' },
+      ipAddress: { type: 'boolean' },
+      secretKeys: { type: 'boolean' },
+    }),
+    rules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['pattern'],
+        additionalProperties: false,
+        properties: {
+          pattern: { type: 'string' },
+          flags: { type: 'string' },
+          replacement: { type: 'string' },
+        },
+      },
+    },
+    keys: stringList,
+    keyPaths: stringList,
+    replacement: { type: 'string' },
+  }),
+  breadcrumbs: section('Breadcrumb trail attached to reports', {
+    maxBreadcrumbs: { type: 'integer', minimum: 0 },
+    windowMs: nonNegative,
+    console: { type: 'boolean' },
+    navigation: { type: 'boolean' },
+  }),
+  instrumentation: section('Opt-in wrappers around platform APIs', {
+    http: {
+      anyOf: [
+        { type: 'boolean' },
+        section('HTTP instrumentation', {
+          reportServerErrors: { type: 'boolean' },
+          reportNetworkErrors: { type: 'boolean' },
+          ignoreUrls: stringList,
+        }),
+      ],
+    },
+  }),
+  sourceMaps: section('Local .map files used to resolve report stacks', {
+    directory: { type: 'string' },
+    artifactStore: { type: 'string' },
+    contextLines: { type: 'integer', minimum: 0 },
+  }),
+};
+
+export const WINGMAN_CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Wingman configuration (.wingman.json)',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string', description: 'Location of this schema, for editor autocompletion' },
+    schemaVersion: { type: 'integer', minimum: 1, description: 'Version of the file format; older files are migrated on load' },
+    ...CONFIG_PROPERTIES,
+    profiles: {
+      type: 'object',
+      description: 'Named overrides merged over the shared defaults, selected by WINGMAN_ENV, NODE_ENV or the profile option',
+      additionalProperties: {
+        type: 'object',
+        additionalProperties: false,
+        properties: CONFIG_PROPERTIES,
+      },
+    },
+  },
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function describeValue(value: unknown): string {
+  const type = typeOf(value);
+  return type === 'object' || type === 'array' || type === 'null' ? type : `${type} ${JSON.stringify(value)}`;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+// Levenshtein distance, used to suggest the intended key for a typo
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function unknownKeyMessage(key: string, known: string[]): string {
+  const suggestion = known
+    .map(candidate => ({ candidate, score: distance(key, candidate) }))
+    .filter(({ score }) => score <= Math.max(2, Math.floor(key.length / 3)))
+    .sort((a, b) => a.score - b.score)[0];
+  return suggestion ? `Unknown key, it is ignored (did you mean "${suggestion.candidate}"?)` : 'Unknown key, it is ignored';
+}
+
+function validateNode(value: unknown, schema: JsonSchema, path: string[], issues: ConfigIssue[]): void {
+  const at = path.join('.');
+
+  if (schema.anyOf) {
+    const candidates = schema.anyOf.map(option => {
+      const optionIssues: ConfigIssue[] = [];
+      validateNode(value, option, path, optionIssues);
+      return optionIssues;
+    });
+    const match = candidates.find(optionIssues => !optionIssues.some(issue => issue.severity === 'error'));
+    if (match) {
+      issues.push(...match);
+    } else {
+      // Report against the option of the same type, or the first one
+      const sameType = schema.anyOf.findIndex(option => option.type && matchesType(value, option.type));
+      issues.push(...candidates[sameType === -1 ? 0 : sameType]);
+    }
+    return;
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push({ path: at, message: `Expected ${schema.type}, got ${describeValue(value)}`, severity: 'error' });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    issues.push({ path: at, message: `Expected one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}, got ${JSON.stringify(value)}`, severity: 'error' });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path: at, message: `Must be at least ${schema.minimum}, got ${value}`, severity: 'error' });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path: at, message: `Must be at most ${schema.maximum}, got ${value}`, severity: 'error' });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateNode(item, schema.items!, [...path, String(index)], issues));
+  }
+
+  if (typeOf(value) === 'object' && (schema.properties || schema.additionalProperties !== undefined)) {
+    const object = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        issues.push({ path: [...path, key].join('.'), message: 'Required value is missing', severity: 'error' });
+      }
+    }
+
+    for (const [key, item] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateNode(item, propertySchema, [...path, key], issues);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(item, schema.additionalProperties, [...path, key], issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: [...path, key].join('.'), message: unknownKeyMessage(key, Object.keys(schema.properties || {})), severity: 'warning' });
+      }
+    }
+  }
+}
+
+/**
+ * Schema of a dot-separated key, e.g. "queue.maxSize"; undefined for unknown keys
+ */
+export function getSchemaAt(key: string): JsonSchema | undefined {
+  let schema: JsonSchema | undefined = { type: 'object', properties: CONFIG_PROPERTIES };
+  for (const part of key.split('.')) {
+    const objectSchema: JsonSchema | undefined = schema.anyOf?.find(option => option.type === 'object') || schema;
+    schema = objectSchema.properties?.[part]
+      ?? (typeof objectSchema.additionalProperties === 'object' ? objectSchema.additionalProperties : undefined);
+    if (!schema) return undefined;
+  }
+  return schema;
+}
+
+/**
+ * Converts a command-line value to the type the schema expects at `key` and validates it.
+ * Objects and arrays are given as JSON. Throws with a message naming the key.
+ */
+export function parseConfigValue(key: string, input: string): unknown {
+  const schema = getSchemaAt(key);
+  if (!schema) {
+    // Name the first unknown part, with a suggestion from its siblings
+    const parts = key.split('.');
+    const index = parts.findIndex((_, end) => !getSchemaAt(parts.slice(0, end + 1).join('.')));
+    const parent: JsonSchema | undefined = index === 0 ? { properties: CONFIG_PROPERTIES } : getSchemaAt(parts.slice(0, index).join('.'));
+    const siblings = Object.keys((parent?.anyOf?.find(option => option.type === 'object') || parent)?.properties || {});
+    throw new Error(`${parts.slice(0, index + 1).join('.')}: ${unknownKeyMessage(parts[index], siblings).replace(', it is ignored', '')}`);
+  }
+
+  const parse = (option: JsonSchema): unknown => {
+    switch (option.type) {
+      case 'string':
+        return input;
+      case 'boolean':
+        if (input === 'true' || input === 'false') return input === 'true';
+        return input;
+      case 'number':
+      case 'integer':
+        return input.trim() !== '' && !Number.isNaN(Number(input)) ? Number(input) : input;
+      default:
+        try {
+          return JSON.parse(input);
+        } catch {
+          return input;
+        }
+    }
+  };
+
+  const options = schema.anyOf || [schema];
+  let firstIssues: ConfigIssue[] | undefined;
+  for (const option of options) {
+    const value = parse(option);
+    const issues: ConfigIssue[] = [];
+    validateNode(value, option, key.split('.'), issues);
+    const errors = issues.filter(issue => issue.severity === 'error');
+    if (errors.length === 0) return value;
+    firstIssues = firstIssues || errors;
+  }
+  throw new Error(formatConfigIssues(firstIssues!).trim());
+}
+
+export interface ValidateConfigOptions {
+  /**
+   * Report a missing accessToken; turn off when the token may come from the environment
+   * @default true
+   */
+  requireAccessToken?: boolean;
+}
+
+/**
+ * Validates a parsed .wingman.json, returning every error and unknown key with its path
+ */
+export function validateConfig(value: unknown, options: ValidateConfigOptions = {}): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validateNode(value, WINGMAN_CONFIG_SCHEMA, [], issues);
+  if (issues.some(issue => issue.severity === 'error') || typeOf(value) !== 'object' || options.requireAccessToken === false) return issues;
+
+  // Every profile needs a token once merged with the defaults; without profiles the defaults need one
+  const config = value as Record<string, any>;
+  const profiles = Object.entries<Record<string, any>>(config.profiles || {});
+  if (profiles.length === 0) {
+    if (config.accessToken === undefined) {
+      issues.push({ path: 'accessToken', message: 'Required value is missing', severity: 'error' });
+    }
+  } else {
+    for (const [name, profile] of profiles) {
+      if (config.accessToken === undefined && profile.accessToken === undefined) {
+        issues.push({ path: `profiles.${name}.accessToken`, message: 'Required value is missing (not set in the profile or the defaults)', severity: 'error' });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Formats issues one per line as "path: message"
+ */
+export function formatConfigIssues(issues: ConfigIssue[]): string {
+  return issues.map(issue => `  ${issue.path || '(root)'}: ${issue.message}`).join('\n');
+}
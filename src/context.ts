@@ -0,0 +1,15 @@
+import { createContext } from 'react';
+import type { WingmanMonitor } from './monitor';
+
+export interface WingmanContextType {
+  monitor: WingmanMonitor | null;
+  isActive: boolean;
+}
+
+/**
+ * Provided by WingmanProvider, read by useWingman() and WingmanErrorBoundary
+ */
+export const WingmanContext = createContext<WingmanContextType>({
+  monitor: null,
+  isActive: false,
+});
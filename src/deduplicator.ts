@@ -0,0 +1,101 @@
+import type { ErrorReport } from './monitor';
+
+export interface DedupeOptions {
+  /**
+   * Repeats of the same fingerprint within this window are collapsed into one report.
+   * Set to 0 to report every occurrence.
+   * @default 60000
+   */
+  windowMs?: number;
+}
+
+interface DedupeEntry {
+  latest: ErrorReport;
+  repeats: number;
+  firstSeen: number;
+  lastSeen: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_DEDUPE_WINDOW_MS = 60000;
+
+/**
+ * Collapses repeated reports with the same fingerprint.
+ *
+ * The first occurrence is sent right away with `occurrences: 1`. Repeats inside the
+ * window are counted and sent as one summary report when the window closes, so the
+ * `occurrences` of all reports for a fingerprint add up to the true count.
+ */
+export class Deduplicator {
+  private entries = new Map<string, DedupeEntry>();
+  private windowMs: number;
+
+  constructor(
+    private onSummary: (report: ErrorReport) => void,
+    options: DedupeOptions = {}
+  ) {
+    this.windowMs = options.windowMs ?? DEFAULT_DEDUPE_WINDOW_MS;
+  }
+
+  /**
+   * Returns the report to send now, or null if it was folded into a pending summary
+   */
+  process(report: ErrorReport): ErrorReport | null {
+    if (this.windowMs <= 0 || !report.fingerprint) {
+      return report;
+    }
+
+    const entry = this.entries.get(report.fingerprint);
+    if (entry) {
+      entry.latest = report;
+      entry.repeats++;
+      entry.lastSeen = report.timestamp;
+      if (entry.repeats === 1) {
+        entry.firstSeen = report.timestamp;
+      }
+      return null;
+    }
+
+    const timer: ReturnType<typeof setTimeout> & { unref?: () => void } = setTimeout(() => this.close(report.fingerprint as string), this.windowMs);
+    timer.unref?.();
+
+    this.entries.set(report.fingerprint, {
+      latest: report,
+      repeats: 0,
+      firstSeen: report.timestamp,
+      lastSeen: report.timestamp,
+      timer,
+    });
+
+    return {
+      ...report,
+      occurrences: 1,
+      firstSeen: report.timestamp,
+      lastSeen: report.timestamp,
+    };
+  }
+
+  /**
+   * Emits every pending summary immediately
+   */
+  flush(): void {
+    Array.from(this.entries.keys()).forEach(fingerprint => this.close(fingerprint));
+  }
+
+  private close(fingerprint: string): void {
+    const entry = this.entries.get(fingerprint);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    this.entries.delete(fingerprint);
+
+    if (entry.repeats > 0) {
+      this.onSummary({
+        ...entry.latest,
+        occurrences: entry.repeats,
+        firstSeen: entry.firstSeen,
+        lastSeen: entry.lastSeen,
+      });
+    }
+  }
+}
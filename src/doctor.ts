@@ -0,0 +1,344 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { ConfigManager, ConfigSource, resolveProfile, resolveWebhookUrl, WingmanConfig, WingmanConfigFile } from './config';
+import { validateConfig } from './configSchema';
+import { CURRENT_SCHEMA_VERSION, migrateConfig } from './configMigrations';
+import { testWebhookConnection } from './handshake';
+import { QUEUE_FILE_NAME, QueuedPayload } from './queue';
+
+export type DoctorStatus = 'pass' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  name: string;
+  status: DoctorStatus;
+  message: string;
+  /**
+   * What to do about a warning or failure
+   */
+  fix?: string;
+}
+
+export interface DoctorOptions {
+  projectPath?: string;
+  /**
+   * Profile to check; defaults to WINGMAN_ENV, then NODE_ENV
+   */
+  profile?: string;
+  /**
+   * Webhook URL passed on the command line, which takes precedence over the config and environment
+   */
+  webhookUrl?: string;
+  /**
+   * Skip the network handshake
+   */
+  offline?: boolean;
+}
+
+const CONFIG_FILE_NAME = '.wingman.json';
+
+// Files checked, in order, for WingmanProvider or monitor.start()
+const ENTRY_CANDIDATES = [
+  'src/index.ts', 'src/index.tsx', 'src/index.js', 'src/index.jsx',
+  'src/main.ts', 'src/main.tsx', 'src/main.js', 'src/main.jsx',
+  'src/App.tsx', 'src/App.jsx', 'src/App.js',
+  'src/server.ts', 'src/server.js', 'src/app.ts', 'src/app.js',
+  'pages/_app.tsx', 'pages/_app.jsx', 'pages/_app.js',
+  'src/pages/_app.tsx', 'src/pages/_app.jsx', 'src/pages/_app.js',
+  'app/layout.tsx', 'app/layout.jsx', 'app/layout.js',
+  'src/app/layout.tsx', 'src/app/layout.jsx', 'src/app/layout.js',
+  'instrumentation.ts', 'instrumentation.js',
+  'index.ts', 'index.js', 'server.ts', 'server.js', 'app.ts', 'app.js',
+];
+
+const PROVIDER_USAGE = /<WingmanProvider[\s>]/;
+const MONITOR_USAGE = /new\s+WingmanMonitor\s*\(/;
+const START_CALL = /\.start\s*\(\s*\)/;
+
+function git(projectPath: string, args: string[]): string | null {
+  try {
+    return execFileSync('git', args, { cwd: projectPath, stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+  } catch {
+    return null;
+  }
+}
+
+const SOURCE_LABELS: Record<ConfigSource, string> = {
+  options: 'options',
+  env: 'the environment',
+  inline: 'config inlined at build time',
+  profile: 'the active profile in .wingman.json',
+  file: '.wingman.json',
+  default: 'default',
+};
+
+async function checkConfig(configPath: string, profile?: string): Promise<{ check: DoctorCheck; extra: DoctorCheck[]; valid: boolean }> {
+  if (!await fs.pathExists(configPath)) {
+    return {
+      check: { name: 'config', status: 'fail', message: `${CONFIG_FILE_NAME} not found`, fix: 'Run "wingman init <accessToken>" or set WINGMAN_ACCESS_TOKEN' },
+      extra: [],
+      valid: true,
+    };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(configPath, 'utf8'));
+  } catch (error) {
+    return {
+      check: { name: 'config', status: 'fail', message: `${CONFIG_FILE_NAME} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`, fix: `Fix the syntax in ${CONFIG_FILE_NAME} or run "wingman init <accessToken>" again` },
+      extra: [],
+      valid: false,
+    };
+  }
+
+  const extra: DoctorCheck[] = [];
+  let file = raw as WingmanConfigFile;
+  if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+    try {
+      const migration = migrateConfig(raw);
+      file = migration.config;
+      if (migration.applied.length > 0) {
+        extra.push({
+          name: 'schema',
+          status: 'warn',
+          message: `${CONFIG_FILE_NAME} uses schema version ${migration.fromVersion} (current is ${CURRENT_SCHEMA_VERSION}); it is migrated in memory on every load`,
+          fix: 'Run "wingman config migrate"',
+        });
+      }
+    } catch (error) {
+      return {
+        check: { name: 'config', status: 'fail', message: error instanceof Error ? error.message : String(error), fix: 'Upgrade wingman-monitor' },
+        extra: [],
+        valid: false,
+      };
+    }
+  }
+
+  // The access token may come from the environment, which the token check covers
+  const issues = validateConfig(file, { requireAccessToken: false });
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+  const describe = (list: typeof issues) => list.map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('; ');
+
+  const check: DoctorCheck = errors.length > 0
+    ? {
+      name: 'config',
+      status: 'fail',
+      message: `${CONFIG_FILE_NAME} has ${errors.length} error(s): ${describe(errors)}${warnings.length > 0 ? `; unknown keys: ${describe(warnings)}` : ''}`,
+      fix: `Correct the listed values in ${CONFIG_FILE_NAME}`,
+    }
+    : warnings.length > 0
+      ? { name: 'config', status: 'warn', message: `${CONFIG_FILE_NAME} is valid but has unknown keys: ${describe(warnings)}`, fix: 'Remove the unknown keys or check them for typos' }
+      : { name: 'config', status: 'pass', message: `${CONFIG_FILE_NAME} is valid` };
+
+  if (errors.length > 0) {
+    return { check, extra, valid: false };
+  }
+
+  try {
+    const resolved = resolveProfile(file, profile);
+    extra.push({
+      name: 'profile',
+      status: 'pass',
+      message: resolved.profile
+        ? `Using profile "${resolved.profile}" (environment ${resolved.config.environment})`
+        : `Using the shared defaults (environment ${resolved.config.environment || 'unknown'})`,
+    });
+  } catch (error) {
+    extra.push({ name: 'profile', status: 'fail', message: error instanceof Error ? error.message : String(error), fix: 'Pass an existing --profile or add it under "profiles" in .wingman.json' });
+    return { check, extra, valid: false };
+  }
+
+  return { check, extra, valid: true };
+}
+
+/**
+ * Resolves the effective config the monitor would use, from the environment and .wingman.json
+ */
+async function checkEffectiveConfig(projectPath: string, profile?: string): Promise<{ checks: DoctorCheck[]; config: WingmanConfig | null; manager: ConfigManager }> {
+  const manager = new ConfigManager({ projectPath, profile });
+  const config = await manager.load();
+  const checks: DoctorCheck[] = [];
+  if (!config) {
+    return { checks, config, manager };
+  }
+
+  if (!config.accessToken) {
+    const reference = manager.getTokenReference();
+    checks.push(reference
+      ? { name: 'token', status: 'fail', message: `accessToken refers to ${reference}, which could not be resolved`, fix: reference.startsWith('env:') ? `Set ${reference.slice('env:'.length)}` : 'Run "wingman init <accessToken> --store" on this machine' }
+      : { name: 'token', status: 'fail', message: 'No access token is configured', fix: 'Set accessToken in .wingman.json or WINGMAN_ACCESS_TOKEN' });
+  } else {
+    const reference = manager.getTokenReference();
+    checks.push({ name: 'token', status: 'pass', message: `Access token from ${reference ? `${reference} in ` : ''}${SOURCE_LABELS[manager.getSource('accessToken')!]}` });
+  }
+
+  if (config.enabled === false) {
+    checks.push({ name: 'enabled', status: 'warn', message: `Monitoring is disabled (by ${SOURCE_LABELS[manager.getSource('enabled')!]})`, fix: 'Run "wingman enable" or unset WINGMAN_ENABLED' });
+  }
+  return { checks, config, manager };
+}
+
+async function checkDelivery(config: WingmanConfig, manager: ConfigManager, options: DoctorOptions): Promise<DoctorCheck[]> {
+  const transport = config.transport?.type ?? 'webhook';
+
+  if (transport === 'file' || transport === 'stdout') {
+    const target = transport === 'file' ? ` to ${config.transport?.path || 'wingman-errors.ndjson'}` : '';
+    return [{ name: 'transport', status: 'pass', message: `Reports are written by the ${transport} transport${target}; no webhook is used` }];
+  }
+
+  let url: string;
+  let source: string;
+  if (options.webhookUrl) {
+    url = options.webhookUrl;
+    source = '--webhook flag';
+  } else if (config.transport?.url) {
+    url = config.transport.url;
+    const urlSource = manager.getSource('transport.url');
+    source = urlSource === 'env' ? 'WINGMAN_WEBHOOK_URL' : `transport.url in ${SOURCE_LABELS[urlSource!]}`;
+  } else if (transport === 'webhook') {
+    url = resolveWebhookUrl();
+    source = 'default';
+  } else {
+    return [{ name: 'webhook', status: 'fail', message: 'The http transport has no "url"', fix: 'Set transport.url in .wingman.json' }];
+  }
+
+  const checks: DoctorCheck[] = [{ name: 'webhook', status: 'pass', message: `Reports go to ${url} (from ${source})` }];
+  if (options.offline) return checks;
+
+  const result = await testWebhookConnection(url, config.accessToken, config.environment, config.transport?.signing);
+  if (result.success) {
+    const projectId = result.projectId ? ` (projectId ${result.projectId})` : '';
+    const mismatch = result.projectId && config.projectId && result.projectId !== config.projectId;
+    checks.push(mismatch
+      ? { name: 'connectivity', status: 'warn', message: `Handshake succeeded but returned projectId ${result.projectId}, .wingman.json has ${config.projectId}`, fix: 'Run "wingman init <accessToken>" again to refresh the projectId' }
+      : { name: 'connectivity', status: 'pass', message: `Handshake succeeded and the access token was accepted${projectId}` });
+  } else {
+    checks.push({ name: 'connectivity', status: 'fail', message: result.message, fix: 'Check the webhook URL, that the server is reachable and that the access token is valid' });
+  }
+  return checks;
+}
+
+async function checkQueue(projectPath: string): Promise<DoctorCheck> {
+  const queuePath = path.join(projectPath, QUEUE_FILE_NAME);
+  if (!await fs.pathExists(queuePath)) {
+    return { name: 'queue', status: 'pass', message: 'No undelivered reports are queued' };
+  }
+
+  let items: QueuedPayload[];
+  try {
+    items = await fs.readJson(queuePath);
+  } catch {
+    return { name: 'queue', status: 'fail', message: `${QUEUE_FILE_NAME} is corrupt and will be ignored`, fix: `Delete ${QUEUE_FILE_NAME}` };
+  }
+  if (!Array.isArray(items) || items.length === 0) {
+    return { name: 'queue', status: 'pass', message: 'No undelivered reports are queued' };
+  }
+
+  const oldest = Math.min(...items.map(item => item.createdAt));
+  const ageMinutes = Math.round((Date.now() - oldest) / 60000);
+  return {
+    name: 'queue',
+    status: 'warn',
+    message: `${items.length} undelivered report(s) queued, the oldest from ${ageMinutes} minute(s) ago`,
+    fix: 'Fix connectivity; the queue is replayed the next time monitoring starts',
+  };
+}
+
+function checkGit(projectPath: string, config: WingmanConfig | null): DoctorCheck[] {
+  if (git(projectPath, ['rev-parse', '--is-inside-work-tree']) !== 'true') {
+    return [{ name: 'git', status: 'pass', message: 'Not a git repository; nothing can be committed' }];
+  }
+
+  const checks: DoctorCheck[] = [];
+  const tracked = git(projectPath, ['ls-files', '--error-unmatch', CONFIG_FILE_NAME]) !== null;
+  if (tracked) {
+    checks.push({
+      name: 'git',
+      status: 'fail',
+      message: `${CONFIG_FILE_NAME} is tracked by git, so its access token is in the repository history`,
+      fix: `Run "git rm --cached ${CONFIG_FILE_NAME}", add it to .gitignore and rotate the access token`,
+    });
+  } else if (git(projectPath, ['check-ignore', '-q', CONFIG_FILE_NAME]) === null) {
+    checks.push({ name: 'git', status: 'warn', message: `${CONFIG_FILE_NAME} is not in .gitignore`, fix: `Add ${CONFIG_FILE_NAME} to .gitignore` });
+  } else {
+    checks.push({ name: 'git', status: 'pass', message: `${CONFIG_FILE_NAME} is ignored by git` });
+  }
+
+  // The token may also have been pasted into tracked source files
+  if (config?.accessToken && config.accessToken.length >= 8) {
+    const files = git(projectPath, ['grep', '-l', '-F', config.accessToken, '--', '.', `:!${CONFIG_FILE_NAME}`]);
+    if (files) {
+      checks.push({
+        name: 'token',
+        status: 'fail',
+        message: `The access token appears in tracked files: ${files.split('\n').join(', ')}`,
+        fix: 'Remove the token from source, load it from .wingman.json or the environment, and rotate it',
+      });
+    }
+  }
+  return checks;
+}
+
+async function checkWiring(projectPath: string): Promise<DoctorCheck> {
+  const candidates = [...ENTRY_CANDIDATES];
+  try {
+    const packageJson = await fs.readJson(path.join(projectPath, 'package.json'));
+    for (const field of ['main', 'module', 'source']) {
+      if (typeof packageJson[field] === 'string') candidates.unshift(packageJson[field]);
+    }
+  } catch {
+    // No package.json
+  }
+
+  const checked: string[] = [];
+  for (const candidate of candidates) {
+    const filePath = path.join(projectPath, candidate);
+    if (checked.includes(candidate) || !await fs.pathExists(filePath)) continue;
+    checked.push(candidate);
+
+    const source = await fs.readFile(filePath, 'utf8');
+    if (PROVIDER_USAGE.test(source)) {
+      return { name: 'wiring', status: 'pass', message: `WingmanProvider is rendered in ${candidate}` };
+    }
+    if (MONITOR_USAGE.test(source) && START_CALL.test(source)) {
+      return { name: 'wiring', status: 'pass', message: `WingmanMonitor is started in ${candidate}` };
+    }
+  }
+
+  return {
+    name: 'wiring',
+    status: 'warn',
+    message: checked.length > 0
+      ? `Neither WingmanProvider nor monitor.start() found in ${checked.join(', ')}`
+      : 'No application entry file found to check',
+    fix: 'Call "new WingmanMonitor().start()" in your entry file, or wrap your React app in <WingmanProvider>',
+  };
+}
+
+/**
+ * Runs every diagnostic for the project and returns the checks in display order
+ */
+export async function runDoctor(options: DoctorOptions = {}): Promise<DoctorCheck[]> {
+  const projectPath = path.resolve(options.projectPath || process.cwd());
+  const { check, extra, valid } = await checkConfig(path.join(projectPath, CONFIG_FILE_NAME), options.profile);
+  const effective = valid ? await checkEffectiveConfig(projectPath, options.profile) : null;
+  const config = effective?.config ?? null;
+
+  // Without a file, the environment alone may provide a complete config
+  const checks: DoctorCheck[] = [
+    check.status === 'fail' && valid && config
+      ? { name: 'config', status: 'pass', message: `No ${CONFIG_FILE_NAME}; using WINGMAN_* environment variables` }
+      : check,
+    ...extra,
+    ...(effective?.checks || []),
+  ];
+  if (config && effective) {
+    checks.push(...await checkDelivery(config, effective.manager, options));
+  }
+  checks.push(await checkQueue(projectPath));
+  checks.push(...checkGit(projectPath, config));
+  checks.push(await checkWiring(projectPath));
+  return checks;
+}
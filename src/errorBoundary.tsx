@@ -0,0 +1,128 @@
+import React, { ReactNode } from 'react';
+import { WingmanMonitor } from './monitor';
+import { WingmanContext } from './context';
+
+export interface FallbackProps {
+  error: Error;
+  /**
+   * Clears the error and renders the children again
+   */
+  resetError: () => void;
+  componentStack?: string;
+}
+
+export interface WingmanErrorBoundaryProps {
+  children?: ReactNode;
+  /**
+   * Rendered instead of the children after an error; a function receives the error and resetError
+   */
+  fallback?: ReactNode | ((props: FallbackProps) => ReactNode);
+  /**
+   * Component rendered instead of the children after an error; `fallback` takes precedence
+   */
+  FallbackComponent?: React.ComponentType<FallbackProps>;
+  /**
+   * The boundary resets when any of these values changes, e.g. the current route or an item id
+   */
+  resetKeys?: unknown[];
+  /**
+   * Called with every error the boundary catches, after it was reported
+   */
+  onError?: (error: Error, errorInfo: React.ErrorInfo) => void;
+  /**
+   * Called when the boundary resets through resetError or resetKeys
+   */
+  onReset?: () => void;
+  /**
+   * Identifies the boundary in reports, e.g. "checkout" or "sidebar"
+   */
+  boundaryName?: string;
+  /**
+   * Added to the report's `tags`, next to those of the current scope
+   */
+  tags?: Record<string, string>;
+  /**
+   * Extra metadata for every report from this boundary
+   */
+  metadata?: Record<string, any>;
+  /**
+   * Monitor to report to; defaults to the one from the enclosing WingmanProvider
+   */
+  monitor?: WingmanMonitor;
+}
+
+interface WingmanErrorBoundaryState {
+  error: Error | null;
+  componentStack?: string;
+}
+
+function changed(previous: unknown[] = [], next: unknown[] = []): boolean {
+  return previous.length !== next.length || previous.some((value, index) => !Object.is(value, next[index]));
+}
+
+/**
+ * Error boundary for part of the tree, such as a route or a widget. Errors are reported to Wingman
+ * with the component stack and the boundary's name and tags, and the fallback is rendered until
+ * resetError is called or a resetKeys value changes.
+ */
+export class WingmanErrorBoundary extends React.Component<WingmanErrorBoundaryProps, WingmanErrorBoundaryState> {
+  static contextType = WingmanContext;
+  declare context: React.ContextType<typeof WingmanContext>;
+
+  state: WingmanErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): Partial<WingmanErrorBoundaryState> {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
+    const { boundaryName, tags, metadata, onError } = this.props;
+    const componentStack = errorInfo.componentStack || undefined;
+    this.setState({ componentStack });
+
+    const monitor = this.props.monitor || (this.context?.isActive ? this.context.monitor : null);
+    if (monitor?.isActive()) {
+      monitor.reportCustomError(error, {
+        ...metadata,
+        componentStack,
+        errorBoundary: true,
+        boundaryName,
+        type: 'React Component Error',
+      }, {
+        tags: boundaryName ? { boundaryName, ...tags } : tags,
+      });
+    }
+
+    onError?.(error, errorInfo);
+  }
+
+  componentDidUpdate(previousProps: WingmanErrorBoundaryProps, previousState: WingmanErrorBoundaryState) {
+    // Only reset for key changes after the error, not for the render that caught it
+    if (this.state.error && previousState.error && changed(previousProps.resetKeys, this.props.resetKeys)) {
+      this.resetError();
+    }
+  }
+
+  resetError = () => {
+    this.props.onReset?.();
+    this.setState({ error: null, componentStack: undefined });
+  };
+
+  render() {
+    const { children, fallback, FallbackComponent } = this.props;
+    const { error, componentStack } = this.state;
+
+    if (!error) {
+      return children ?? null;
+    }
+
+    const fallbackProps: FallbackProps = { error, resetError: this.resetError, componentStack };
+    if (typeof fallback === 'function') {
+      return fallback(fallbackProps);
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    return FallbackComponent ? <FallbackComponent {...fallbackProps} /> : null;
+  }
+}
@@ -0,0 +1,29 @@
+import { QUEUE_FILE_NAME, QueuedPayload, QueueStorage } from './queue';
+
+/**
+ * Stores the queue as JSON next to .wingman.json (Node.js)
+ */
+export class FileQueueStorage implements QueueStorage {
+  private filePath: string;
+
+  constructor(projectPath?: string) {
+    const path = require('path');
+    this.filePath = path.join(projectPath || process.cwd(), QUEUE_FILE_NAME);
+  }
+
+  async load(): Promise<QueuedPayload[]> {
+    const fs = require('fs-extra');
+    if (!await fs.pathExists(this.filePath)) return [];
+    const items = await fs.readJson(this.filePath);
+    return Array.isArray(items) ? items : [];
+  }
+
+  async save(items: QueuedPayload[]): Promise<void> {
+    const fs = require('fs-extra');
+    if (items.length === 0) {
+      await fs.remove(this.filePath);
+      return;
+    }
+    await fs.writeJson(this.filePath, items);
+  }
+}
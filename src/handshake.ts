@@ -0,0 +1,84 @@
+import axios from 'axios';
+import { signPayload } from './signing';
+
+/**
+ * Sends the wingman.init handshake to validate the webhook URL and access token.
+ * With `signing`, the request is signed with the token instead of carrying it.
+ * On success the webhook may return the projectId for the token.
+ */
+export async function testWebhookConnection(webhookUrl: string, accessToken: string, environment: string, signing = false): Promise<{ success: boolean; message: string; projectId?: string }> {
+  let projectId: string | undefined = undefined;
+  try {
+    const testPayload = {
+      event: 'wingman.init',
+      data: signing
+        ? { environment: environment }
+        : { accessToken: accessToken, environment: environment },
+      timestamp: Date.now(),
+      source: 'wingman-monitor-init'
+    };
+    const body = JSON.stringify(testPayload);
+    const authHeaders: Record<string, string> = signing
+      ? { ...await signPayload(body, accessToken) }
+      : { 'Authorization': `Bearer ${accessToken}` };
+
+    const response = await axios.post(webhookUrl, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+        'User-Agent': 'Wingman-Monitor/1.0.0'
+      },
+      timeout: 10000, // 10 second timeout for init
+      transformRequest: [(data: string) => data]
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      projectId = response.data?.projectId; // Grab projectId from webhook response
+      return { 
+        success: true, 
+        message: 'Webhook connection successful',
+        projectId: projectId
+      };
+    } else {
+      return { 
+        success: false, 
+        message: `Webhook returned status ${response.status}` 
+      };
+    }
+    
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      if (error.code === 'ECONNREFUSED') {
+        return { 
+          success: false, 
+          message: 'Unable to connect to webhook URL. Please check the URL and ensure the server is running.' 
+        };
+      } else if (error.response?.status === 401) {
+        return { 
+          success: false, 
+          message: 'Access token is invalid or unauthorized.' 
+        };
+      } else if (error.response?.status === 404) {
+        return { 
+          success: false, 
+          message: 'Webhook endpoint not found. Please check the URL.' 
+        };
+      } else if (error.response && error.response.status >= 500) {
+        return { 
+          success: false, 
+          message: 'Webhook server error. Please try again later.' 
+        };
+      } else {
+        return { 
+          success: false, 
+          message: `Webhook error: ${error.response?.status || error.message}` 
+        };
+      }
+    }
+    
+    return { 
+      success: false, 
+      message: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}` 
+    };
+  }
+}
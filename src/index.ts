@@ -1,14 +1,43 @@
-export { WingmanMonitor, ErrorReport } from './monitor';
-export { ConfigManager, WingmanConfig } from './config';
-export { 
-  WingmanProvider, 
-  useWingman, 
-  useWingmanReporting,
-  useWingmanConfig,
-  type WingmanProviderProps 
-} from './provider';
-export { shouldReportError, getEnvironmentConfig } from './utils/errorFiltering';
-export { getStoredAccessToken, requireAccessToken } from './utils/tokenResolver';
+/**
+ * Node.js entry: everything in the browser entry, with .wingman.json, the file queue, the file
+ * transport, local source maps and the token store installed through the Node platform.
+ */
+
+import { setPlatform } from './platform';
+import { nodePlatform } from './nodePlatform';
+
+setPlatform(nodePlatform);
+
+export * from './browser';
+export { nodePlatform } from './nodePlatform';
+export { createInlineConfig } from './config';
+export { FileQueueStorage } from './fileQueueStorage';
+export { FileTransport, type FileTransportOptions } from './transports/file';
+export { instrumentNodeHttp } from './instrumentation/nodeHttp';
+export { createExpressHandlers, type ExpressHandlers, type ExpressRequestLike, type ExpressResponseLike } from './middleware/express';
+export { createFastifyPlugin, type FastifyPlugin, type FastifyInstanceLike, type FastifyRequestLike } from './middleware/fastify';
+export { createKoaMiddleware, type KoaMiddleware, type KoaContextLike } from './middleware/koa';
+export { sanitizeHeaders, type RequestMiddlewareOptions } from './middleware/request';
+export { SourceMapResolver, type SourceMapResolverOptions } from './sourcemaps/resolver';
+export {
+  collectSourceMaps,
+  writeArtifacts,
+  getReleaseDirectory,
+  buildUploadPayload,
+  DEFAULT_ARTIFACT_STORE,
+  type SourceMapArtifact,
+  type ArtifactManifest,
+  type UploadedSourceMap
+} from './sourcemaps/artifacts';
+export { resolveRelease } from './sourcemaps/release';
+export { TokenStore, getUserConfigDir } from './utils/tokenStore';
+export {
+  verifyWingmanSignature,
+  MemoryNonceStore,
+  type NonceStore,
+  type VerifySignatureOptions,
+  type VerifySignatureResult
+} from './verifySignature';
 
 // Default export for easy importing
 import { WingmanMonitor } from './monitor';
@@ -0,0 +1,118 @@
+import { getPlatform } from '../platform';
+
+export interface HttpRequestInfo {
+  type: 'fetch' | 'xhr' | 'http';
+  method: string;
+  url: string;
+  /**
+   * Response status; missing when the request failed before a response arrived
+   */
+  status?: number;
+  durationMs: number;
+  /**
+   * Network error, abort or timeout that prevented a response
+   */
+  error?: unknown;
+}
+
+export interface HttpInstrumentationHooks {
+  onComplete(info: HttpRequestInfo): void;
+  /**
+   * Requests for which this returns true are not reported, e.g. the monitor's own transport
+   */
+  shouldIgnore?(url: string): boolean;
+}
+
+/**
+ * Wraps fetch, XMLHttpRequest and the runtime's own HTTP client (Node's http/https in the Node entry).
+ * Returns a function that restores every original.
+ */
+export function instrumentHttp(hooks: HttpInstrumentationHooks): () => void {
+  const uninstallers = [
+    instrumentFetch(hooks),
+    instrumentXhr(hooks),
+    getPlatform().instrumentHttp?.(hooks) ?? (() => undefined),
+  ];
+
+  return () => {
+    uninstallers.forEach(uninstall => uninstall());
+  };
+}
+
+function instrumentFetch(hooks: HttpInstrumentationHooks): () => void {
+  if (typeof globalThis.fetch !== 'function') {
+    return () => undefined;
+  }
+
+  const originalFetch = globalThis.fetch;
+
+  const wrappedFetch = function (this: unknown, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET')).toUpperCase();
+
+    if (hooks.shouldIgnore?.(url)) {
+      return originalFetch.call(this, input, init);
+    }
+
+    const start = Date.now();
+    return originalFetch.call(this, input, init).then(
+      response => {
+        hooks.onComplete({ type: 'fetch', method, url, status: response.status, durationMs: Date.now() - start });
+        return response;
+      },
+      error => {
+        hooks.onComplete({ type: 'fetch', method, url, durationMs: Date.now() - start, error });
+        throw error;
+      }
+    );
+  };
+
+  globalThis.fetch = wrappedFetch as typeof fetch;
+
+  return () => {
+    if (globalThis.fetch === wrappedFetch) {
+      globalThis.fetch = originalFetch;
+    }
+  };
+}
+
+function instrumentXhr(hooks: HttpInstrumentationHooks): () => void {
+  if (typeof XMLHttpRequest === 'undefined') {
+    return () => undefined;
+  }
+
+  const proto = XMLHttpRequest.prototype;
+  const originalOpen = proto.open;
+  const originalSend = proto.send;
+  const requests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+
+  proto.open = function (this: XMLHttpRequest, method: string, url: string | URL, async?: boolean, username?: string | null, password?: string | null) {
+    requests.set(this, { method: method.toUpperCase(), url: String(url) });
+    // Omitted credentials are null either way; only async needs its default spelled out
+    return originalOpen.call(this, method, url, async ?? true, username, password);
+  };
+
+  proto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    const request = requests.get(this);
+    if (request && !hooks.shouldIgnore?.(request.url)) {
+      const start = Date.now();
+      this.addEventListener('loadend', () => {
+        // A status of 0 means the request never got a response (network error, abort, CORS)
+        hooks.onComplete({
+          type: 'xhr',
+          method: request.method,
+          url: request.url,
+          status: this.status || undefined,
+          durationMs: Date.now() - start,
+          error: this.status === 0 ? new Error('XMLHttpRequest failed') : undefined,
+        });
+      });
+    }
+    return originalSend.call(this, body);
+  };
+
+  return () => {
+    proto.open = originalOpen;
+    proto.send = originalSend;
+  };
+}
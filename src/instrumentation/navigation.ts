@@ -0,0 +1,41 @@
+/**
+ * Reports history navigation (pushState, replaceState, popstate, hashchange) in browsers.
+ * Returns a function that restores the original history methods and removes the listeners.
+ */
+export function instrumentNavigation(onNavigate: (from: string, to: string) => void): () => void {
+  if (typeof window === 'undefined' || typeof history === 'undefined') {
+    return () => undefined;
+  }
+
+  let lastUrl = window.location.href;
+  const record = () => {
+    const currentUrl = window.location.href;
+    if (currentUrl !== lastUrl) {
+      onNavigate(lastUrl, currentUrl);
+      lastUrl = currentUrl;
+    }
+  };
+
+  const originalPushState = history.pushState;
+  const originalReplaceState = history.replaceState;
+
+  history.pushState = function (this: History, ...args: Parameters<History['pushState']>) {
+    const result = originalPushState.apply(this, args);
+    record();
+    return result;
+  };
+  history.replaceState = function (this: History, ...args: Parameters<History['replaceState']>) {
+    const result = originalReplaceState.apply(this, args);
+    record();
+    return result;
+  };
+  window.addEventListener('popstate', record);
+  window.addEventListener('hashchange', record);
+
+  return () => {
+    history.pushState = originalPushState;
+    history.replaceState = originalReplaceState;
+    window.removeEventListener('popstate', record);
+    window.removeEventListener('hashchange', record);
+  };
+}
@@ -0,0 +1,87 @@
+import type { ClientRequest, IncomingMessage, RequestOptions } from 'http';
+import type { HttpInstrumentationHooks, HttpRequestInfo } from './http';
+
+type ResponseCallback = (res: IncomingMessage) => void;
+type NodeRequestArgs = [url: string | URL | RequestOptions, options?: RequestOptions | ResponseCallback, callback?: ResponseCallback];
+type NodeRequestFunction = (...args: NodeRequestArgs) => ClientRequest;
+
+interface NodeHttpModule {
+  request: NodeRequestFunction;
+  get: NodeRequestFunction;
+}
+
+/**
+ * Wraps the request and get functions of Node's http and https modules.
+ * Returns a function that restores every original.
+ */
+export function instrumentNodeHttp(hooks: HttpInstrumentationHooks): () => void {
+  if (typeof window !== 'undefined' || typeof process === 'undefined' || !process.versions?.node) {
+    return () => undefined;
+  }
+
+  const uninstallers = ['http', 'https'].map(moduleName => {
+    const mod: NodeHttpModule = require(moduleName);
+    const defaultProtocol = `${moduleName}:`;
+    const originalRequest = mod.request;
+    const originalGet = mod.get;
+
+    const wrap = (original: NodeRequestFunction): NodeRequestFunction => function (this: unknown, ...args: NodeRequestArgs) {
+      const { method, url } = describeNodeRequest(args, defaultProtocol);
+      const req = original.apply(this, args);
+
+      if (!hooks.shouldIgnore?.(url)) {
+        const start = Date.now();
+        let reported = false;
+        const report = (info: Partial<HttpRequestInfo>) => {
+          if (reported) return;
+          reported = true;
+          hooks.onComplete({ type: 'http', method, url, durationMs: Date.now() - start, ...info });
+        };
+        // Observing emit instead of adding listeners keeps Node's behavior for requests without them:
+        // an unhandled 'error' still throws and an unread response is still dumped
+        const originalEmit: (event: string | symbol, ...eventArgs: unknown[]) => boolean = req.emit;
+        req.emit = function (this: ClientRequest, event: string | symbol, ...eventArgs: unknown[]) {
+          if (event === 'response') report({ status: (eventArgs[0] as IncomingMessage).statusCode });
+          if (event === 'error') report({ error: eventArgs[0] });
+          return originalEmit.call(this, event, ...eventArgs);
+        };
+      }
+
+      return req;
+    };
+
+    mod.request = wrap(originalRequest);
+    mod.get = wrap(originalGet);
+
+    return () => {
+      mod.request = originalRequest;
+      mod.get = originalGet;
+    };
+  });
+
+  return () => {
+    uninstallers.forEach(uninstall => uninstall());
+  };
+}
+
+/**
+ * Extracts method and URL from the (url, options, callback) / (options, callback) signatures
+ */
+function describeNodeRequest(args: NodeRequestArgs, defaultProtocol: string): { method: string; url: string } {
+  const [first, second] = args;
+  const options: RequestOptions = typeof first === 'string' || first instanceof URL
+    ? (second && typeof second === 'object' ? second : {})
+    : (first || {});
+
+  let url: string;
+  if (typeof first === 'string' || first instanceof URL) {
+    url = String(first);
+  } else {
+    const protocol = options.protocol || defaultProtocol;
+    const host = options.hostname || options.host || 'localhost';
+    const port = options.port ? `:${options.port}` : '';
+    url = `${protocol}//${host}${port}${options.path || '/'}`;
+  }
+
+  return { method: String(options.method || 'GET').toUpperCase(), url };
+}
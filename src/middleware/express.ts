@@ -0,0 +1,61 @@
+import type { WingmanMonitor } from '../monitor';
+import { IncomingHeaders, RequestMiddlewareOptions, createRequestContext, getErrorStatus, reportRequestError } from './request';
+
+/**
+ * The parts of an Express request the handlers read
+ */
+export interface ExpressRequestLike {
+  method?: string;
+  originalUrl?: string;
+  url?: string;
+  baseUrl?: string;
+  headers?: IncomingHeaders;
+  query?: Record<string, unknown>;
+  route?: { path?: unknown };
+}
+
+export interface ExpressResponseLike {
+  statusCode?: number;
+}
+
+export type ExpressNext = (error?: unknown) => void;
+
+export interface ExpressHandlers {
+  /**
+   * Register before the routes; runs every request in its own scope
+   */
+  requestHandler: (req: ExpressRequestLike, res: ExpressResponseLike, next: ExpressNext) => void;
+  /**
+   * Register after the routes and before your own error handlers; reports the error and passes it on
+   */
+  errorHandler: (error: unknown, req: ExpressRequestLike, res: ExpressResponseLike, next: ExpressNext) => void;
+}
+
+// Express only knows the pattern after a route matched, relative to the router it is mounted on
+function getRoute(req: ExpressRequestLike): string | undefined {
+  const path = req.route?.path;
+  return typeof path === 'string' ? `${req.baseUrl || ''}${path}` : undefined;
+}
+
+/**
+ * Express middleware: `app.use(requestHandler)` before the routes, `app.use(errorHandler)` after them
+ */
+export function createExpressHandlers(monitor: WingmanMonitor, options: RequestMiddlewareOptions = {}): ExpressHandlers {
+  const describe = (req: ExpressRequestLike) => createRequestContext({ ...req, url: req.originalUrl || req.url }, options);
+
+  return {
+    requestHandler: (req, _res, next) => {
+      monitor.withRequestScope(describe(req), () => next());
+    },
+
+    errorHandler: (error, req, res, next) => {
+      const request = monitor.getRequestContext() || describe(req);
+      reportRequestError(monitor, error, {
+        ...request,
+        route: getRoute(req),
+        status: getErrorStatus(error, res.statusCode),
+      }, options);
+      next(error);
+    },
+  };
+}
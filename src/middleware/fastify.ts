@@ -0,0 +1,70 @@
+import type { WingmanMonitor } from '../monitor';
+import { IncomingHeaders, RequestMiddlewareOptions, createRequestContext, getErrorStatus, reportRequestError } from './request';
+
+/**
+ * The parts of a Fastify request the plugin reads
+ */
+export interface FastifyRequestLike {
+  id?: string;
+  method?: string;
+  url?: string;
+  headers?: IncomingHeaders;
+  query?: unknown;
+  routeOptions?: { url?: string };
+  /**
+   * Route pattern in Fastify 3 and early 4 releases
+   */
+  routerPath?: string;
+}
+
+export interface FastifyReplyLike {
+  statusCode?: number;
+}
+
+export type FastifyDone = (error?: Error) => void;
+
+export interface FastifyInstanceLike {
+  addHook(name: 'onRequest', hook: (request: FastifyRequestLike, reply: FastifyReplyLike, done: FastifyDone) => void): unknown;
+  addHook(name: 'onError', hook: (request: FastifyRequestLike, reply: FastifyReplyLike, error: Error, done: FastifyDone) => void): unknown;
+}
+
+export type FastifyPlugin = (instance: FastifyInstanceLike, options: unknown, done: FastifyDone) => void;
+
+function describe(request: FastifyRequestLike, options: RequestMiddlewareOptions) {
+  // Fastify's own request IDs ("req-1") are only unique per process, so a header takes precedence
+  const hasHeader = !!request.headers?.[options.requestIdHeader || 'x-request-id'];
+  return createRequestContext({
+    ...request,
+    id: hasHeader ? undefined : request.id,
+    query: typeof request.query === 'object' && request.query !== null ? request.query as Record<string, unknown> : undefined,
+  }, options);
+}
+
+/**
+ * Fastify plugin: `fastify.register(createFastifyPlugin(monitor))`. Its hooks apply to every route,
+ * as if it were wrapped with fastify-plugin.
+ */
+export function createFastifyPlugin(monitor: WingmanMonitor, options: RequestMiddlewareOptions = {}): FastifyPlugin {
+  const plugin: FastifyPlugin = (instance, _pluginOptions, done) => {
+    instance.addHook('onRequest', (request, _reply, next) => {
+      monitor.withRequestScope(describe(request, options), () => next());
+    });
+
+    instance.addHook('onError', (request, reply, error, next) => {
+      const context = monitor.getRequestContext() || describe(request, options);
+      reportRequestError(monitor, error, {
+        ...context,
+        route: request.routeOptions?.url || request.routerPath,
+        status: getErrorStatus(error, reply.statusCode),
+      }, options);
+      next();
+    });
+
+    done();
+  };
+
+  return Object.assign(plugin, {
+    [Symbol.for('skip-override')]: true,
+    [Symbol.for('fastify.display-name')]: 'wingman-monitor',
+  });
+}
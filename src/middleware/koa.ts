@@ -0,0 +1,42 @@
+import type { WingmanMonitor } from '../monitor';
+import { IncomingHeaders, RequestMiddlewareOptions, createRequestContext, getErrorStatus, reportRequestError } from './request';
+
+/**
+ * The parts of a Koa context the middleware reads
+ */
+export interface KoaContextLike {
+  method?: string;
+  url?: string;
+  headers?: IncomingHeaders;
+  query?: Record<string, unknown>;
+  status?: number;
+  /**
+   * Route pattern set by @koa/router and koa-router
+   */
+  _matchedRoute?: string;
+  routerPath?: string;
+}
+
+export type KoaMiddleware = (ctx: KoaContextLike, next: () => Promise<unknown>) => Promise<void>;
+
+/**
+ * Koa middleware: `app.use(createKoaMiddleware(monitor))` first, so it sees errors from everything after it.
+ * Errors are reported and rethrown for Koa's own error handling.
+ */
+export function createKoaMiddleware(monitor: WingmanMonitor, options: RequestMiddlewareOptions = {}): KoaMiddleware {
+  return (ctx, next) => monitor.withRequestScope(createRequestContext(ctx, options), async () => {
+    try {
+      await next();
+    } catch (error) {
+      // Without AsyncLocalStorage the scope is gone after the first await
+      const request = monitor.getRequestContext() || createRequestContext(ctx, options);
+      reportRequestError(monitor, error, {
+        ...request,
+        route: ctx._matchedRoute || ctx.routerPath,
+        // Koa sets 404 before any middleware runs, so the response status says nothing about the error
+        status: getErrorStatus(error),
+      }, options);
+      throw error;
+    }
+  });
+}
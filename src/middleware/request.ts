@@ -0,0 +1,109 @@
+import type { WingmanMonitor } from '../monitor';
+import type { RequestContext } from '../scope';
+
+export interface RequestMiddlewareOptions {
+  /**
+   * Decides which errors are reported; by default those that end in a 5xx response
+   */
+  shouldReport?: (error: unknown, status: number) => boolean;
+  /**
+   * Header the request ID is read from; requests without it get a generated one
+   * @default 'x-request-id'
+   */
+  requestIdHeader?: string;
+  /**
+   * Headers whose values are replaced by "[Filtered]", in addition to the credential headers
+   */
+  sensitiveHeaders?: string[];
+}
+
+export type IncomingHeaders = Record<string, string | string[] | number | undefined>;
+
+const FILTERED = '[Filtered]';
+
+// Headers that carry credentials or session state
+const SENSITIVE_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-auth-token',
+  'x-csrf-token',
+  'x-xsrf-token',
+  'x-wingman-signature',
+];
+
+/**
+ * Lowercases header names, joins repeated headers and filters credentials
+ */
+export function sanitizeHeaders(headers: IncomingHeaders = {}, sensitiveHeaders: string[] = []): Record<string, string> {
+  const sensitive = new Set([...SENSITIVE_HEADERS, ...sensitiveHeaders.map(name => name.toLowerCase())]);
+  const sanitized: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    const key = name.toLowerCase();
+    sanitized[key] = sensitive.has(key) ? FILTERED : Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return sanitized;
+}
+
+function getHeader(headers: IncomingHeaders = {}, name: string): string | undefined {
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase());
+  const value = entry?.[1];
+  return Array.isArray(value) ? value[0] : value === undefined ? undefined : String(value);
+}
+
+/**
+ * Path of a request URL without the query string
+ */
+export function getRequestPath(url = '/'): string {
+  return url.split('?')[0] || '/';
+}
+
+/**
+ * Status the framework will respond with for an error: its `status` or `statusCode`,
+ * otherwise the response status when that is already an error, otherwise 500
+ */
+export function getErrorStatus(error: unknown, responseStatus?: number): number {
+  const candidate = typeof error === 'object' && error !== null
+    ? (error as { status?: unknown; statusCode?: unknown }).status ?? (error as { statusCode?: unknown }).statusCode
+    : undefined;
+  if (typeof candidate === 'number' && candidate >= 400 && candidate < 600) return candidate;
+  return responseStatus && responseStatus >= 400 ? responseStatus : 500;
+}
+
+export function createRequestContext(
+  request: { method?: string; url?: string; headers?: IncomingHeaders; query?: Record<string, unknown>; id?: string },
+  options: RequestMiddlewareOptions = {}
+): RequestContext {
+  return {
+    id: request.id || getHeader(request.headers, options.requestIdHeader || 'x-request-id') || require('crypto').randomUUID(),
+    method: (request.method || 'GET').toUpperCase(),
+    path: getRequestPath(request.url),
+    headers: sanitizeHeaders(request.headers, options.sensitiveHeaders),
+    query: request.query && Object.keys(request.query).length > 0 ? { ...request.query } : undefined,
+  };
+}
+
+/**
+ * Reports a route error as 'requestError' with the request attached, without delaying the response
+ */
+export function reportRequestError(
+  monitor: WingmanMonitor,
+  error: unknown,
+  request: RequestContext,
+  options: RequestMiddlewareOptions = {}
+): void {
+  const status = request.status ?? 500;
+  const shouldReport = options.shouldReport ? options.shouldReport(error, status) : status >= 500;
+  if (!shouldReport || !monitor.isActive()) return;
+
+  monitor.reportCustomError(
+    error instanceof Error ? error : new Error(String(error)),
+    { request },
+    { errorType: 'requestError', severity: status >= 500 ? 'high' : 'medium' }
+  ).catch(reportingError => {
+    console.warn('Wingman: Failed to report request error:', reportingError);
+  });
+}
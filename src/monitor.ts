@@ -1,5 +1,24 @@
-import axios from 'axios';
 import { ConfigManager, WingmanConfig } from './config';
+import { DeliveryQueue, createQueueStorage } from './queue';
+import { ReportBatcher } from './batcher';
+import { Deduplicator } from './deduplicator';
+import { ReportThrottle } from './rateLimiter';
+import { computeFingerprint } from './utils/fingerprint';
+import { Transport, WingmanPayload, createTransport } from './transports';
+import { EventHint, EventProcessor, ProcessorPipeline } from './processors';
+import { createDefaultProcessors } from './utils/errorFiltering';
+import { Scrubber, createScrubbingProcessor } from './utils/scrubber';
+import { StackFrame, isInAppFile, parseStack } from './utils/stackParser';
+import type { SourceMapResolver } from './sourcemaps/resolver';
+import { createSourceMapProcessor } from './sourcemaps/processor';
+import { ProjectInfo, getPlatform } from './platform';
+import { Breadcrumb, BreadcrumbBuffer, BreadcrumbLevel } from './breadcrumbs';
+import { instrumentNavigation } from './instrumentation/navigation';
+import { HttpRequestInfo, instrumentHttp } from './instrumentation/http';
+import { AsyncContext, createAsyncContext } from './asyncContext';
+import { RequestContext, Scope, UserContext } from './scope';
+import { isHydrationError } from './nextjs/hydration';
+import type { HttpInstrumentationOptions } from './config';
 
 export interface ErrorReport {
   message: string;
@@ -8,82 +27,322 @@ export interface ErrorReport {
   environment: string;
   accessToken: string;
   timestamp: number;
+  /**
+   * Release of the build that produced the error, used to pick the matching source maps
+   */
+  release?: string;
   stack?: string;
-  projectInfo?: {
-    name?: string;
-    version?: string;
-    url?: string;
-  };
+  /**
+   * Parsed stack, innermost first; resolved to original sources when `sourceMaps` is configured
+   */
+  frames?: StackFrame[];
+  projectInfo?: ProjectInfo;
   metadata?: Record<string, any>;
+  /**
+   * User, tags and contexts of the scope the error was captured in
+   */
+  user?: UserContext;
+  tags?: Record<string, string>;
+  contexts?: Record<string, Record<string, unknown>>;
+  /**
+   * Console, navigation, HTTP and manual breadcrumbs recorded shortly before the error
+   */
+  breadcrumbs?: Breadcrumb[];
+  /**
+   * Stable hash of the error type, message template and stack frames
+   */
+  fingerprint?: string;
+  /**
+   * Number of occurrences this report stands for when repeats are deduplicated
+   */
+  occurrences?: number;
+  firstSeen?: number;
+  lastSeen?: number;
+  /**
+   * Sample rate applied to this report and the occurrences dropped since the previous report
+   */
+  sampling?: {
+    rate: number;
+    rateLimited: number;
+    sampledOut: number;
+  };
+}
+
+export interface WingmanMonitorOptions {
+  /**
+   * Directory containing .wingman.json
+   * @default process.cwd()
+   */
+  projectPath?: string;
+  /**
+   * Config values that take precedence over WINGMAN_* environment variables and .wingman.json.
+   * With an accessToken here, no .wingman.json is needed.
+   */
+  config?: Partial<WingmanConfig>;
+  /**
+   * Called with every report after the processors ran; return null to drop it
+   */
+  beforeSend?: (report: ErrorReport, hint: EventHint) => ErrorReport | null | Promise<ErrorReport | null>;
+  /**
+   * Processors run after the built-in filters, in order
+   */
+  processors?: EventProcessor[];
+  /**
+   * Include the built-in filters (developmentFilter, browserExtensionFilter,
+   * networkErrorFilter, scriptErrorFilter). Individual ones can be removed with removeProcessor().
+   * The "scrubber" processor is always added; it is configured through `scrubbing` in .wingman.json.
+   * @default true
+   */
+  defaultProcessors?: boolean;
+  /**
+   * Custom transport used instead of the one configured in .wingman.json
+   */
+  transport?: Transport;
+  /**
+   * Profile from .wingman.json merged over the shared defaults
+   * @default process.env.WINGMAN_ENV || process.env.NODE_ENV
+   */
+  profile?: string;
+  /**
+   * Release stamped on every report; takes precedence over `release` in .wingman.json.
+   * Browser builds should pass the release used with `wingman upload-sourcemaps`.
+   */
+  release?: string;
+}
+
+export interface ReportErrorOptions {
+  /**
+   * Type used for grouping and filtering, e.g. 'routeHandlerError'
+   * @default 'customError'
+   */
+  errorType?: string;
+  /**
+   * @default 'medium'
+   */
+  severity?: ErrorReport['severity'];
+  /**
+   * Added to the tags of the current scope for this report only
+   */
+  tags?: Record<string, string>;
+}
+
+function getUrlPath(url: string): string {
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    return url.split('?')[0];
+  }
 }
 
 export class WingmanMonitor {
   private config: WingmanConfig | null = null;
   private configManager: ConfigManager;
+  private projectPath?: string;
+  private queue: DeliveryQueue | null = null;
+  private batcher: ReportBatcher<Record<string, any>> | null = null;
+  private deduplicator: Deduplicator | null = null;
+  private throttle: ReportThrottle | null = null;
+  private transport: Transport | null = null;
+  private pipeline: ProcessorPipeline;
+  private beforeSend?: WingmanMonitorOptions['beforeSend'];
+  private scrubber: Scrubber | null = null;
+  private sourceMapResolvers = new Map<string, SourceMapResolver>();
+  private releaseOption?: string;
+  private release?: string;
+  private handleBeforeExit?: () => void;
+  private boundUncaughtException?: (error: Error) => void;
+  private boundUnhandledRejection?: (reason: any) => void;
+  private handlePageHide?: () => void;
+  private handleVisibilityChange?: () => void;
   private isStarted = false;
   private originalErrorHandler: OnErrorEventHandler | null = null;
   private originalUnhandledRejectionHandler: ((event: PromiseRejectionEvent) => void) | null = null;
   private originalConsoleError: (...args: any[]) => void;
   private originalConsoleWarn: (...args: any[]) => void;
   private originalConsoleLog: (...args: any[]) => void;
-  private recentLogs: Array<{type: string, message: string, timestamp: number, args: any[]}> = [];
-  private maxLogs = 50;
-
-  constructor(projectPath?: string) {
-    this.configManager = new ConfigManager(projectPath);
+  private globalScope = new Scope();
+  private scopes: AsyncContext<Scope> | null = null;
+  private uninstallInstrumentation: Array<() => void> = [];
+
+  constructor(projectPathOrOptions?: string | WingmanMonitorOptions) {
+    const options: WingmanMonitorOptions = typeof projectPathOrOptions === 'string'
+      ? { projectPath: projectPathOrOptions }
+      : projectPathOrOptions || {};
+
+    this.configManager = new ConfigManager({
+      projectPath: options.projectPath,
+      profile: options.profile,
+      overrides: options.config,
+    });
+    this.projectPath = options.projectPath;
+    this.transport = options.transport || null;
+    this.beforeSend = options.beforeSend;
+    this.releaseOption = options.release;
+    this.pipeline = new ProcessorPipeline([
+      ...(options.defaultProcessors === false ? [] : createDefaultProcessors()),
+      createSourceMapProcessor(report => this.getSourceMapResolver(report)),
+      createScrubbingProcessor(() => this.getScrubber()),
+      ...(options.processors || [])
+    ]);
     this.originalConsoleError = console.error;
     this.originalConsoleWarn = console.warn;
     this.originalConsoleLog = console.log;
   }
 
-  private captureConsoleLog(type: string, args: any[]): void {
-    const logEntry = {
-      type,
-      message: args.map(arg => {
+  private getScrubber(): Scrubber {
+    if (!this.scrubber) {
+      this.scrubber = new Scrubber(this.config?.scrubbing);
+    }
+    return this.scrubber;
+  }
+
+  /**
+   * Picks the maps stored for the report's release, falling back to the configured build directory.
+   * Source maps are read from disk, so resolution only happens in Node.js.
+   */
+  private getSourceMapResolver(report: ErrorReport): SourceMapResolver | null {
+    const options = this.config?.sourceMaps;
+    const platform = getPlatform();
+    if (!options || typeof window !== 'undefined' || !platform.findSourceMapDirectory || !platform.createSourceMapResolver) {
+      return null;
+    }
+
+    const directory = platform.findSourceMapDirectory(options, report.release, this.projectPath);
+    if (!directory) return null;
+
+    let resolver = this.sourceMapResolvers.get(directory);
+    if (!resolver) {
+      resolver = platform.createSourceMapResolver(directory, options.contextLines);
+      this.sourceMapResolvers.set(directory, resolver);
+    }
+    return resolver;
+  }
+
+  private getScopes(): AsyncContext<Scope> {
+    if (!this.scopes) {
+      this.scopes = createAsyncContext<Scope>();
+    }
+    return this.scopes;
+  }
+
+  /**
+   * The innermost scope the caller runs in, or the process-wide one outside of any
+   */
+  private getCurrentScope(): Scope {
+    return this.getScopes().get() || this.globalScope;
+  }
+
+  private getBreadcrumbs(): BreadcrumbBuffer {
+    return this.getCurrentScope().breadcrumbs;
+  }
+
+  private captureConsoleLog(type: 'log' | 'warn' | 'error', args: any[]): void {
+    if (this.config?.breadcrumbs?.console === false) return;
+
+    // Scrub at capture time so secrets never sit in the in-memory trail
+    const scrubbedArgs = args.map(arg => this.getScrubber().scrubValue(arg));
+    const levels: Record<typeof type, BreadcrumbLevel> = { log: 'info', warn: 'warning', error: 'error' };
+
+    this.getBreadcrumbs().add({
+      category: 'console',
+      level: levels[type],
+      timestamp: Date.now(),
+      message: scrubbedArgs.map(arg => {
         try {
-          return typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg);
+          return typeof arg === 'object' ? JSON.stringify(arg) : String(arg);
         } catch {
           return '[Circular Object]';
         }
       }).join(' '),
+      data: { logger: type, arguments: scrubbedArgs }
+    });
+  }
+
+  private setupBreadcrumbSources(): void {
+    if (this.config?.breadcrumbs?.navigation !== false) {
+      this.uninstallInstrumentation.push(instrumentNavigation((from, to) => {
+        this.getBreadcrumbs().add({
+          category: 'navigation',
+          level: 'info',
+          timestamp: Date.now(),
+          message: this.getScrubber().scrubString(to),
+          data: { from: this.getScrubber().scrubString(from), to: this.getScrubber().scrubString(to) }
+        });
+      }));
+    }
+
+    const httpInstrumentation = this.config?.instrumentation?.http;
+    if (httpInstrumentation) {
+      const options = typeof httpInstrumentation === 'object' ? httpInstrumentation : {};
+      const transportEndpoint = this.getTransport().endpoint;
+      this.uninstallInstrumentation.push(instrumentHttp({
+        // Never record the monitor's own deliveries
+        shouldIgnore: url => (!!transportEndpoint && url.startsWith(transportEndpoint))
+          || (options.ignoreUrls || []).some(ignored => url.includes(ignored)),
+        onComplete: info => this.handleHttpRequest(info, options)
+      }));
+    }
+  }
+
+  private handleHttpRequest(info: HttpRequestInfo, options: HttpInstrumentationOptions): void {
+    const url = this.getScrubber().scrubString(info.url);
+    const networkFailure = info.status === undefined;
+    const failed = networkFailure || (info.status as number) >= 400;
+
+    this.getBreadcrumbs().add({
+      category: info.type,
+      level: failed ? 'error' : 'info',
       timestamp: Date.now(),
-      args
+      message: `${info.method} ${url}${info.status ? ` [${info.status}]` : ''}`,
+      data: {
+        method: info.method,
+        url,
+        status: info.status,
+        durationMs: info.durationMs
+      }
+    });
+
+    const metadata = {
+      request: {
+        type: info.type,
+        method: info.method,
+        url,
+        status: info.status,
+        durationMs: info.durationMs
+      }
     };
-    
-    this.recentLogs.push(logEntry);
-    if (this.recentLogs.length > this.maxLogs) {
-      this.recentLogs.shift(); // Remove oldest log
+
+    // Use the path without host or query so the fingerprint groups by endpoint
+    const path = getUrlPath(info.url);
+
+    if (networkFailure && options.reportNetworkErrors) {
+      const reason = info.error instanceof Error ? info.error.message : String(info.error ?? 'no response');
+      this.captureError({
+        message: `${info.method} ${path} failed: ${reason}`,
+        stack: info.error instanceof Error ? info.error.stack : undefined,
+        error: info.error,
+        errorType: 'networkError',
+        severity: 'low',
+        metadata
+      });
+    } else if (!networkFailure && (info.status as number) >= 500 && options.reportServerErrors) {
+      this.captureError({
+        message: `${info.method} ${path} responded with ${info.status}`,
+        errorType: 'httpError',
+        severity: 'medium',
+        metadata
+      });
     }
   }
 
-  private getRelevantLogs(errorTimestamp: number, windowMs = 5000): string {
-    // Get logs from 5 seconds before the error
-    const startTime = errorTimestamp - windowMs;
-    
-    const relevantLogs = this.recentLogs.filter(log => 
-      log.timestamp >= startTime && log.timestamp <= errorTimestamp
-    );
-    
-    if (relevantLogs.length === 0) return '';
-    
-    let logContext = '\n\n--- Recent Console Activity ---\n';
-    relevantLogs.forEach(log => {
-      const timestamp = new Date(log.timestamp).toISOString();
-      logContext += `[${timestamp}] ${log.type.toUpperCase()}: ${log.message}\n`;
-    });
-    
-    return logContext;
+  private removeBreadcrumbSources(): void {
+    this.uninstallInstrumentation.forEach(uninstall => uninstall());
+    this.uninstallInstrumentation = [];
   }
 
   private buildComprehensiveMessage(primaryMessage: string, errorContext: any = {}): string {
     let message = primaryMessage;
     
-    // Add relevant recent logs
-    const relevantLogs = this.getRelevantLogs(Date.now());
-    if (relevantLogs) {
-      message += relevantLogs;
-    }
-    
     // Add error context
     if (errorContext.url) {
       message += `\n\n--- Context ---\nURL: ${errorContext.url}`;
@@ -91,9 +350,6 @@ export class WingmanMonitor {
     if (errorContext.userAgent) {
       message += `\nUser Agent: ${errorContext.userAgent}`;
     }
-    if (errorContext.stack) {
-      message += `\n\n--- Stack Trace ---\n${errorContext.stack}`;
-    }
     
     return message;
   }
@@ -104,7 +360,7 @@ export class WingmanMonitor {
       this.config = await this.configManager.load();
       
       if (!this.config) {
-        console.warn('Wingman: No configuration found. Run "wingman init <accessToken>" first.');
+        console.warn('Wingman: No configuration found. Run "wingman init <accessToken>", set WINGMAN_ACCESS_TOKEN or pass config.accessToken.');
         return;
       }
 
@@ -113,17 +369,44 @@ export class WingmanMonitor {
         return;
       }
 
+      if (!this.config.accessToken) {
+        console.warn('Wingman: No access token configured. Set accessToken in .wingman.json or WINGMAN_ACCESS_TOKEN.');
+        return;
+      }
+
       if (this.isStarted) {
         console.warn('Wingman: Already started.');
         return;
       }
 
+      // Deployed builds rarely have .git, so a release guessed here would not match the one the maps were uploaded for
+      this.release = this.releaseOption || this.config.release;
+      this.globalScope = this.globalScope.clone({ breadcrumbs: this.config.breadcrumbs || {} });
+      // Breadcrumb sources resolve the transport, which throws when it is misconfigured; set them up
+      // before console and process handlers are patched so a failed start leaves nothing installed
+      this.setupBreadcrumbSources();
       this.setupErrorHandlers();
+      if (this.isBatching()) {
+        this.setupFlushHandlers();
+      }
       this.isStarted = true;
       
       console.log(`Wingman: Monitoring started for ${this.config.environment} environment`);
+
+      // Replay reports that could not be delivered during a previous run
+      try {
+        const restored = await this.getQueue().restore();
+        if (restored > 0) {
+          console.log(`Wingman: Replaying ${restored} queued error report(s)`);
+        }
+      } catch (error) {
+        console.warn('Wingman: Failed to restore queued error reports:', error);
+      }
       
     } catch (error) {
+      if (!this.isStarted) {
+        this.removeBreadcrumbSources();
+      }
       console.error('Wingman: Failed to start monitoring:', error);
     }
   }
@@ -132,6 +415,11 @@ export class WingmanMonitor {
     if (!this.isStarted) return;
 
     this.removeErrorHandlers();
+    this.removeBreadcrumbSources();
+    this.removeFlushHandlers();
+    this.deduplicator?.flush();
+    this.batcher?.flush();
+    this.queue?.stop();
     this.isStarted = false;
     console.log('Wingman: Monitoring stopped');
   }
@@ -139,8 +427,10 @@ export class WingmanMonitor {
   private setupErrorHandlers(): void {
     // Handle uncaught exceptions (Node.js)
     if (typeof process !== 'undefined' && process.on) {
-      process.on('uncaughtException', this.handleUncaughtException.bind(this));
-      process.on('unhandledRejection', this.handleUnhandledRejection.bind(this));
+      this.boundUncaughtException = this.handleUncaughtException.bind(this);
+      this.boundUnhandledRejection = this.handleUnhandledRejection.bind(this);
+      process.on('uncaughtException', this.boundUncaughtException);
+      process.on('unhandledRejection', this.boundUnhandledRejection);
     }
 
     // Handle browser errors
@@ -176,85 +466,109 @@ export class WingmanMonitor {
 
   private removeErrorHandlers(): void {
     if (typeof process !== 'undefined' && process.removeListener) {
-      process.removeListener('uncaughtException', this.handleUncaughtException);
-      process.removeListener('unhandledRejection', this.handleUnhandledRejection);
+      if (this.boundUncaughtException) {
+        process.removeListener('uncaughtException', this.boundUncaughtException);
+      }
+      if (this.boundUnhandledRejection) {
+        process.removeListener('unhandledRejection', this.boundUnhandledRejection);
+      }
+      this.boundUncaughtException = undefined;
+      this.boundUnhandledRejection = undefined;
     }
 
     if (typeof window !== 'undefined') {
-      if (this.originalErrorHandler) {
-        window.onerror = this.originalErrorHandler;
+      window.onerror = this.originalErrorHandler;
+      window.onunhandledrejection = this.originalUnhandledRejectionHandler;
+    }
+
+    console.error = this.originalConsoleError;
+    console.warn = this.originalConsoleWarn;
+    console.log = this.originalConsoleLog;
+  }
+
+  private setupFlushHandlers(): void {
+    // Flush buffered reports once the event loop drains (Node.js)
+    if (typeof process !== 'undefined' && process.on) {
+      this.handleBeforeExit = () => {
+        this.batcher?.flush();
+      };
+      process.on('beforeExit', this.handleBeforeExit);
+    }
+
+    // Flush with sendBeacon when the page is hidden or unloaded
+    if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+      this.handlePageHide = () => this.flushWithBeacon();
+      this.handleVisibilityChange = () => {
+        if (document.visibilityState === 'hidden') {
+          this.flushWithBeacon();
+        }
+      };
+      window.addEventListener('pagehide', this.handlePageHide);
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  private removeFlushHandlers(): void {
+    if (this.handleBeforeExit && typeof process !== 'undefined' && process.removeListener) {
+      process.removeListener('beforeExit', this.handleBeforeExit);
+    }
+    if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+      if (this.handlePageHide) {
+        window.removeEventListener('pagehide', this.handlePageHide);
       }
-      if (this.originalUnhandledRejectionHandler) {
-        window.onunhandledrejection = this.originalUnhandledRejectionHandler;
+      if (this.handleVisibilityChange) {
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
       }
     }
+    this.handleBeforeExit = undefined;
+    this.handlePageHide = undefined;
+    this.handleVisibilityChange = undefined;
   }
 
-  private handleUncaughtException(error: Error): void {
-    const timestamp = Date.now();
-    const comprehensiveMessage = this.buildComprehensiveMessage(error.message, {
-      stack: error.stack,
-      url: typeof window !== 'undefined' ? window.location?.href : undefined,
-      userAgent: typeof window !== 'undefined' ? navigator?.userAgent : undefined
-    });
+  private flushWithBeacon(): void {
+    if (!this.batcher || this.batcher.size() === 0) return;
 
-    this.reportError({
-      message: comprehensiveMessage,
+    const payload = this.buildBatchPayload(this.batcher.drain());
+    const transport = this.getTransport();
+    const sent = transport.sendBeacon ? transport.sendBeacon(payload) : false;
+
+    if (!sent) {
+      // The queue persists to localStorage, so the batch is replayed on the next start()
+      this.deliver(payload);
+    }
+  }
+
+  private handleUncaughtException(error: Error): void {
+    this.captureError({
+      message: error.message,
       stack: error.stack,
-      timestamp,
-      environment: this.config?.environment || 'unknown',
-      projectInfo: this.getProjectInfo(),
+      error,
       errorType: 'uncaughtException',
-      severity: 'critical',
-      accessToken: this.config?.accessToken || ''
+      severity: 'critical'
     });
   }
 
   private handleUnhandledRejection(reason: any): void {
-    const timestamp = Date.now();
-    const message = reason instanceof Error ? reason.message : String(reason);
-    const stack = reason instanceof Error ? reason.stack : undefined;
-    
-    const comprehensiveMessage = this.buildComprehensiveMessage(message, {
-      stack,
-      url: typeof window !== 'undefined' ? window.location?.href : undefined,
-      userAgent: typeof window !== 'undefined' ? navigator?.userAgent : undefined
-    });
-
-    this.reportError({
-      message: comprehensiveMessage,
-      stack,
-      timestamp,
-      environment: this.config?.environment || 'unknown',
-      projectInfo: this.getProjectInfo(),
+    this.captureError({
+      message: reason instanceof Error ? reason.message : String(reason),
+      stack: reason instanceof Error ? reason.stack : undefined,
+      error: reason,
       errorType: 'unhandledRejection',
-      severity: 'high',
-      accessToken: this.config?.accessToken || ''
+      severity: 'high'
     });
   }
 
   private handleWindowError(message: string | Event, source?: string, lineno?: number, colno?: number, error?: Error): boolean {
-    const timestamp = Date.now();
-    const errorMessage = typeof message === 'string' ? message : 'Unknown error';
-    
-    const comprehensiveMessage = this.buildComprehensiveMessage(errorMessage, {
-      stack: error?.stack,
-      url: window.location?.href,
-      userAgent: navigator?.userAgent,
-      source,
-      lineno,
-      colno
-    });
-
-    this.reportError({
-      message: comprehensiveMessage,
+    this.captureError({
+      message: typeof message === 'string' ? message : 'Unknown error',
       stack: error?.stack,
-      timestamp,
-      environment: this.config?.environment || 'unknown',
-      projectInfo: this.getProjectInfo(),
+      // Cross-origin scripts and some browsers provide no error object, only the location
+      frames: source && lineno
+        ? [{ file: source, line: lineno, column: colno || undefined, inApp: isInAppFile(source) }]
+        : undefined,
+      error,
       errorType: 'windowError',
       severity: 'medium',
-      accessToken: this.config?.accessToken || '',
       metadata: {
         source,
         lineno,
@@ -266,26 +580,14 @@ export class WingmanMonitor {
   }
 
   private handleWindowUnhandledRejection(event: PromiseRejectionEvent): boolean {
-    const timestamp = Date.now();
     const reason = event.reason;
-    const message = reason instanceof Error ? reason.message : String(reason);
-    const stack = reason instanceof Error ? reason.stack : undefined;
-
-    const comprehensiveMessage = this.buildComprehensiveMessage(message, {
-      stack,
-      url: window.location?.href,
-      userAgent: navigator?.userAgent
-    });
 
-    this.reportError({
-      message: comprehensiveMessage,
-      stack,
-      timestamp,
-      environment: this.config?.environment || 'unknown',
-      projectInfo: this.getProjectInfo(),
+    this.captureError({
+      message: reason instanceof Error ? reason.message : String(reason),
+      stack: reason instanceof Error ? reason.stack : undefined,
+      error: reason,
       errorType: 'windowUnhandledRejection',
-      severity: 'high',
-      accessToken: this.config?.accessToken || ''
+      severity: 'high'
     });
 
     if (this.originalUnhandledRejectionHandler) {
@@ -295,24 +597,16 @@ export class WingmanMonitor {
   }
 
   private handleConsoleError(args: any[]): void {
-    const timestamp = Date.now();
     const message = args.map(arg => typeof arg === 'string' ? arg : JSON.stringify(arg)).join(' ');
     
-    // Only report if it looks like an actual error
-    if (message.toLowerCase().includes('error') || args.some(arg => arg instanceof Error)) {
-      const comprehensiveMessage = this.buildComprehensiveMessage(message, {
-        url: typeof window !== 'undefined' ? window.location?.href : undefined,
-        userAgent: typeof window !== 'undefined' ? navigator?.userAgent : undefined
-      });
-
-      this.reportError({
-        message: comprehensiveMessage,
-        timestamp,
-        environment: this.config?.environment || 'unknown',
-        projectInfo: this.getProjectInfo(),
+    // Only report if it looks like an actual error. React logs hydration mismatches in development as
+    // "Warning: ... did not match" without the word error.
+    if (message.toLowerCase().includes('error') || args.some(arg => arg instanceof Error) || isHydrationError(message)) {
+      this.captureError({
+        message,
+        error: args.find(arg => arg instanceof Error),
         errorType: 'consoleError',
         severity: 'low',
-        accessToken: this.config?.accessToken || '',
         metadata: {
           args: args.map(arg => {
             try {
@@ -324,91 +618,328 @@ export class WingmanMonitor {
         }
       });
     }
-  }  private async reportError(errorReport: ErrorReport): Promise<void> {
-    if (!this.config) return;
+  }
 
-    try {
-      // Get webhook URL from environment variable or default (same as CLI)
-      const webhookUrl = process.env.WINGMAN_WEBHOOK_URL || 'https://patchworks-sigma.vercel.app/webhook';
-      
-      // Format payload to match webhook's expected structure
-      const payload = {
-        event: 'error.runtime',
-        data: {
-          message: errorReport.message,
-          errorType: errorReport.errorType,
-          severity: errorReport.severity,
-          environment: errorReport.environment,
-          accessToken: errorReport.accessToken,
-          timestamp: errorReport.timestamp, // This is now a number (Date.now())
-          stack: errorReport.stack,
-          projectInfo: errorReport.projectInfo,
-          metadata: errorReport.metadata
-        },
-        timestamp: errorReport.timestamp,
-        source: 'wingman-monitor'
-      };
+  /**
+   * Builds the full ErrorReport for a captured error and hands it to reportError
+   */
+  private captureError(details: {
+    message: string;
+    errorType: string;
+    severity: ErrorReport['severity'];
+    stack?: string;
+    /**
+     * Frames to use when there is no stack to parse
+     */
+    frames?: StackFrame[];
+    metadata?: Record<string, any>;
+    tags?: Record<string, string>;
+    error?: unknown;
+  }): Promise<void> {
+    const comprehensiveMessage = this.buildComprehensiveMessage(details.message, {
+      url: typeof window !== 'undefined' ? window.location?.href : undefined,
+      userAgent: typeof window !== 'undefined' ? navigator?.userAgent : undefined
+    });
+
+    const timestamp = Date.now();
+    const scope = this.getCurrentScope();
+    const request = scope.request;
+    const tags = { ...scope.tags, ...details.tags };
+    const parsedFrames = parseStack(details.stack);
+    const frames = parsedFrames.length > 0 ? parsedFrames : details.frames || [];
+
+    return this.reportError({
+      message: comprehensiveMessage,
+      stack: details.stack,
+      frames,
+      timestamp,
+      release: this.release,
+      environment: this.config?.environment || 'unknown',
+      projectInfo: this.getProjectInfo(),
+      errorType: details.errorType,
+      severity: details.severity,
+      accessToken: this.config?.accessToken || '',
+      fingerprint: computeFingerprint(details.errorType, details.message, frames),
+      metadata: request && !details.metadata?.request ? { ...details.metadata, request } : details.metadata,
+      user: scope.user,
+      tags: Object.keys(tags).length > 0 ? tags : undefined,
+      contexts: Object.keys(scope.contexts).length > 0 ? { ...scope.contexts } : undefined,
+      breadcrumbs: scope.breadcrumbs.getRecent(timestamp)
+    }, {
+      originalMessage: details.message,
+      error: details.error
+    });
+  }
 
-      await axios.post(webhookUrl, payload, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${errorReport.accessToken}`,
-          'User-Agent': 'Wingman-Monitor/1.0.0'
-        },
-        timeout: 5000 // 5 second timeout
+  private getQueue(): DeliveryQueue {
+    if (!this.queue) {
+      this.queue = new DeliveryQueue(
+        payload => this.sendPayload(payload),
+        createQueueStorage(this.projectPath),
+        this.config?.queue,
+        (_item, reason) => {
+          this.originalConsoleWarn.call(console, `Wingman: Dropped queued error report (${reason})`);
+        }
+      );
+    }
+    return this.queue;
+  }
+
+  private getTransport(): Transport {
+    if (!this.transport) {
+      this.transport = createTransport(this.config?.transport, {
+        accessToken: this.config?.accessToken || '',
+        projectPath: this.projectPath,
+        projectId: this.config?.projectId
       });
+    }
+    return this.transport;
+  }
 
-      console.log('Wingman: Error reported successfully');
-      
-    } catch (error) {
-      console.error('Wingman: Failed to report error:', error);
+  private async sendPayload(payload: WingmanPayload): Promise<void> {
+    await this.getTransport().send(payload);
+  }
+
+  private isSigning(): boolean {
+    return this.config?.transport?.signing === true;
+  }
+
+  private isBatching(): boolean {
+    return this.config?.delivery?.mode === 'batch';
+  }
+
+  private getBatcher(): ReportBatcher<Record<string, any>> {
+    if (!this.batcher) {
+      this.batcher = new ReportBatcher(
+        reports => this.deliver(this.buildBatchPayload(reports)),
+        this.config?.delivery
+      );
+    }
+    return this.batcher;
+  }
+
+  private buildReportData(errorReport: ErrorReport): Record<string, any> {
+    return {
+      message: errorReport.message,
+      errorType: errorReport.errorType,
+      severity: errorReport.severity,
+      environment: errorReport.environment,
+      // Signed payloads authenticate with the signature, so the token stays out of the body
+      accessToken: this.isSigning() ? undefined : errorReport.accessToken,
+      timestamp: errorReport.timestamp, // This is now a number (Date.now())
+      release: errorReport.release,
+      stack: errorReport.stack,
+      frames: errorReport.frames,
+      projectInfo: errorReport.projectInfo,
+      metadata: errorReport.metadata,
+      user: errorReport.user,
+      tags: errorReport.tags,
+      contexts: errorReport.contexts,
+      breadcrumbs: errorReport.breadcrumbs,
+      fingerprint: errorReport.fingerprint,
+      occurrences: errorReport.occurrences,
+      firstSeen: errorReport.firstSeen,
+      lastSeen: errorReport.lastSeen,
+      sampling: errorReport.sampling
+    };
+  }
+
+  private buildBatchPayload(reports: Record<string, any>[]): WingmanPayload {
+    return {
+      event: 'error.batch',
+      data: {
+        accessToken: this.isSigning() ? undefined : this.config?.accessToken,
+        environment: this.config?.environment,
+        count: reports.length,
+        reports
+      },
+      timestamp: Date.now(),
+      source: 'wingman-monitor'
+    };
+  }
+
+  private getDeduplicator(): Deduplicator {
+    if (!this.deduplicator) {
+      this.deduplicator = new Deduplicator(
+        summary => this.dispatch(summary),
+        this.config?.dedupe
+      );
+    }
+    return this.deduplicator;
+  }
+
+  private async reportError(errorReport: ErrorReport, hint: EventHint): Promise<void> {
+    if (!this.config) return;
+
+    let processed = await this.pipeline.run(errorReport, hint, (name, error) => {
+      this.originalConsoleError.call(console, `Wingman: Event processor "${name}" failed:`, error);
+    });
+    if (processed && this.beforeSend) {
+      try {
+        processed = await this.beforeSend(processed, hint);
+      } catch (error) {
+        this.originalConsoleError.call(console, 'Wingman: beforeSend failed:', error);
+      }
+    }
+    if (!processed) return;
+
+    const report = this.getDeduplicator().process(processed);
+    if (report) {
+      await this.dispatch(report);
+    }
+  }
+
+  private getThrottle(): ReportThrottle {
+    if (!this.throttle) {
+      this.throttle = new ReportThrottle(this.config?.rateLimit, this.config?.sampleRates);
     }
+    return this.throttle;
   }
 
-  private getProjectInfo(): ErrorReport['projectInfo'] {
+  private async dispatch(errorReport: ErrorReport): Promise<void> {
+    const report = this.getThrottle().admit(errorReport);
+    if (report) {
+      await this.sendReport(report);
+    }
+  }
+
+  private async sendReport(errorReport: ErrorReport): Promise<void> {
+    const data = this.buildReportData(errorReport);
+
+    if (this.isBatching()) {
+      const batcher = this.getBatcher();
+      batcher.add(data);
+      // Critical errors may take the process down, so they do not wait for the interval
+      if (errorReport.severity === 'critical') {
+        await batcher.flush();
+      }
+      return;
+    }
+
+    // Format payload to match webhook's expected structure
+    await this.deliver({
+      event: 'error.runtime',
+      data,
+      timestamp: errorReport.timestamp,
+      source: 'wingman-monitor'
+    });
+  }
+
+  private async deliver(payload: WingmanPayload): Promise<void> {
     try {
-      // Try to read package.json for project info
-      const fs = require('fs');
-      const path = require('path');
-      const packageJsonPath = path.join(this.config?.projectPath || process.cwd(), 'package.json');
-      
-      if (fs.existsSync(packageJsonPath)) {
-        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
-        return {
-          name: packageJson.name,
-          version: packageJson.version,
-          url: packageJson.homepage || packageJson.repository?.url
-        };
+      const queue = this.getQueue();
+      const pending = await queue.enqueue(payload);
+
+      if (pending) {
+        // Use the unpatched console so delivery failures are not captured as new errors
+        this.originalConsoleWarn.call(console, `Wingman: Error report queued for retry (${queue.size()} pending)`);
+      } else {
+        this.originalConsoleLog.call(console, 'Wingman: Error reported successfully');
       }
     } catch (error) {
-      // Ignore errors when reading package.json
+      this.originalConsoleError.call(console, 'Wingman: Failed to report error:', error);
     }
+  }
 
-    return {};
+  private getProjectInfo(): ProjectInfo {
+    // Browser builds have no package.json to read, so it is supplied through the config
+    return this.config?.projectInfo || getPlatform().readProjectInfo?.(this.config?.projectPath) || {};
   }
 
   // Public method to manually report errors
-  public async reportCustomError(error: Error, metadata?: Record<string, any>): Promise<void> {
-    const timestamp = Date.now();
-    const comprehensiveMessage = this.buildComprehensiveMessage(error.message, {
+  public async reportCustomError(error: Error, metadata?: Record<string, any>, options: ReportErrorOptions = {}): Promise<void> {
+    await this.captureError({
+      message: error.message,
       stack: error.stack,
-      url: typeof window !== 'undefined' ? window.location?.href : undefined,
-      userAgent: typeof window !== 'undefined' ? navigator?.userAgent : undefined
+      error,
+      errorType: options.errorType || 'customError',
+      severity: options.severity || 'medium',
+      metadata,
+      tags: options.tags
     });
+  }
 
-    await this.reportError({
-      message: comprehensiveMessage,
-      stack: error.stack,
-      timestamp,
-      environment: this.config?.environment || 'unknown',
-      projectInfo: this.getProjectInfo(),
-      errorType: 'customError',
-      severity: 'medium',
-      accessToken: this.config?.accessToken || '',
-      metadata
+  /**
+   * Sends deduplicated and batched reports now instead of waiting for their window or interval,
+   * e.g. before a serverless function returns
+   */
+  public async flush(): Promise<void> {
+    this.deduplicator?.flush();
+    await this.batcher?.flush();
+  }
+
+  /**
+   * Records a custom breadcrumb that is attached to reports of errors that follow it
+   */
+  public addBreadcrumb(breadcrumb: Pick<Breadcrumb, 'message'> & Partial<Breadcrumb>): void {
+    this.getBreadcrumbs().add({
+      category: breadcrumb.category || 'manual',
+      level: breadcrumb.level || 'info',
+      timestamp: breadcrumb.timestamp ?? Date.now(),
+      message: this.getScrubber().scrubString(breadcrumb.message),
+      data: breadcrumb.data ? this.getScrubber().scrubValue(breadcrumb.data) : undefined
     });
   }
 
+  /**
+   * Runs fn in a scope of its own: breadcrumbs recorded until it settles, including after awaits in
+   * Node.js, are kept apart from concurrent requests, and reports carry the request as `metadata.request`
+   */
+  public withRequestScope<T>(request: RequestContext, fn: () => T): T {
+    const scope = this.getCurrentScope().clone({ breadcrumbs: this.config?.breadcrumbs || {}, request });
+    return this.getScopes().run(scope, fn);
+  }
+
+  /**
+   * The request of the scope the caller runs in, if any
+   */
+  public getRequestContext(): RequestContext | undefined {
+    return this.getCurrentScope().request;
+  }
+
+  /**
+   * Runs fn in a copy of the current scope, so setUser, setTag and setContext inside it only apply to
+   * errors captured inside it. In Node.js that includes code after awaits; in the browser only the
+   * synchronous part of fn sees the copy.
+   */
+  public withScope<T>(fn: (scope: Scope) => T): T {
+    const scope = this.getCurrentScope().clone();
+    return this.getScopes().run(scope, () => fn(scope));
+  }
+
+  /**
+   * Sets the user of the current scope, or removes it with null; outside of a scope it applies to
+   * every report
+   */
+  public setUser(user: UserContext | null): void {
+    this.getCurrentScope().setUser(user);
+  }
+
+  public setTag(key: string, value: string | number | boolean): void {
+    this.getCurrentScope().setTag(key, value);
+  }
+
+  /**
+   * Sets a named context of the current scope, or removes it with null
+   */
+  public setContext(name: string, context: Record<string, unknown> | null): void {
+    this.getCurrentScope().setContext(name, context);
+  }
+
+  /**
+   * Appends an event processor, or inserts it at `index`
+   */
+  public addProcessor(processor: EventProcessor, index?: number): void {
+    this.pipeline.add(processor, index);
+  }
+
+  /**
+   * Removes a processor by name, e.g. removeProcessor('developmentFilter')
+   */
+  public removeProcessor(name: string): boolean {
+    return this.pipeline.remove(name);
+  }
+
   // Check if monitoring is active
   public isActive(): boolean {
     return this.isStarted && this.config?.enabled === true;
@@ -417,22 +948,12 @@ export class WingmanMonitor {
   // Temporary method for testing webhook calls
   public async testWebhook(): Promise<void> {
     const testError = new Error('Temporary test error');
-    const timestamp = Date.now();
-    const comprehensiveMessage = this.buildComprehensiveMessage(testError.message, {
-      stack: testError.stack,
-      url: typeof window !== 'undefined' ? window.location?.href : undefined,
-      userAgent: typeof window !== 'undefined' ? navigator?.userAgent : undefined
-    });
 
-    await this.reportError({
-      message: comprehensiveMessage,
+    await this.captureError({
+      message: testError.message,
       stack: testError.stack,
-      timestamp,
-      environment: this.config?.environment || 'test',
-      projectInfo: this.getProjectInfo(),
       errorType: 'testError',
       severity: 'low',
-      accessToken: this.config?.accessToken || '',
       metadata: { test: true }
     });
     console.log('Test webhook call sent successfully.');
@@ -0,0 +1,50 @@
+import type { EventProcessor } from '../processors';
+import { computeFingerprint } from '../utils/fingerprint';
+
+// Messages React 18 and 19 log or throw when the server HTML does not match the first client render.
+// Production builds only report the minified error codes.
+const HYDRATION_PATTERNS = [
+  /hydration failed/i,
+  /error while hydrating/i,
+  /error occurred during hydration/i,
+  /text content does not match server-rendered html/i,
+  /text content did not match/i,
+  /expected server html to contain a matching/i,
+  /did not expect server html to contain/i,
+  /server rendered html didn't match the client/i,
+  /did not match\. server:/i,
+  /minified react error #(418|419|422|423|425)[;.\s]/i,
+];
+
+/**
+ * Whether a message comes from a React hydration mismatch
+ */
+export function isHydrationError(message: string): boolean {
+  return HYDRATION_PATTERNS.some(pattern => pattern.test(message));
+}
+
+/**
+ * Event processor that turns hydration mismatches reported through window.onerror or
+ * console.error into 'hydrationError' reports, grouped by message rather than by how they surfaced
+ */
+export const createHydrationProcessor = (): EventProcessor => ({
+  name: 'hydration',
+  process: (report, hint) => {
+    if (!isHydrationError(hint.originalMessage)) return report;
+
+    return {
+      ...report,
+      errorType: 'hydrationError',
+      severity: 'medium',
+      fingerprint: computeFingerprint('hydrationError', hint.originalMessage, report.frames),
+      metadata: {
+        ...report.metadata,
+        nextjs: {
+          ...report.metadata?.nextjs,
+          hydration: true,
+          path: typeof window !== 'undefined' ? window.location?.pathname : undefined,
+        },
+      },
+    };
+  },
+});
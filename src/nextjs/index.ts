@@ -0,0 +1,27 @@
+/**
+ * Next.js integration, imported as `wingman-monitor/nextjs`. Safe for the Node.js, edge and browser
+ * runtimes; the "node" export condition adds the file system backed platform.
+ */
+
+export {
+  register,
+  onRequestError,
+  getWingmanMonitor,
+  getNextRuntime,
+  isNextControlFlowError,
+  captureRequestError,
+  type NextRuntime,
+  type WingmanNextOptions,
+  type NextErrorContext,
+  type NextRequestInfo,
+  type NextRequestErrorContext
+} from './register';
+export {
+  withWingmanApiRoute,
+  withWingmanRouteHandler,
+  withWingmanServerAction,
+  withWingmanMiddleware,
+  type WithWingmanOptions,
+  type ApiRequestLike
+} from './wrappers';
+export { isHydrationError, createHydrationProcessor } from './hydration';
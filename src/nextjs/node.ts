@@ -0,0 +1,10 @@
+/**
+ * Next.js integration for the Node.js runtime: reads .wingman.json and uses the file queue
+ */
+
+import { setPlatform } from '../platform';
+import { nodePlatform } from '../nodePlatform';
+
+setPlatform(nodePlatform);
+
+export * from './index';
@@ -0,0 +1,214 @@
+import { WingmanMonitor, WingmanMonitorOptions } from '../monitor';
+import type { EventProcessor } from '../processors';
+import { createHydrationProcessor } from './hydration';
+
+/**
+ * Where the code runs: the Node.js or edge server runtime, or the browser
+ */
+export type NextRuntime = 'nodejs' | 'edge' | 'client';
+
+export interface WingmanNextOptions extends WingmanMonitorOptions {
+  /**
+   * Report React hydration mismatches in the browser as 'hydrationError'
+   * @default true
+   */
+  captureHydrationErrors?: boolean;
+}
+
+/**
+ * Route details attached to reports as `metadata.nextjs`
+ */
+export interface NextErrorContext {
+  routerKind?: 'Pages Router' | 'App Router';
+  /**
+   * What was running: a page render, a route handler, a server action or middleware
+   */
+  routeType?: 'render' | 'route' | 'action' | 'middleware';
+  /**
+   * Route pattern such as "/blog/[slug]", or the request path when the pattern is unknown
+   */
+  route?: string;
+  params?: Record<string, unknown>;
+  method?: string;
+  path?: string;
+  /**
+   * Name of the server action
+   */
+  action?: string;
+}
+
+/**
+ * Request passed to `onRequestError` by Next.js 15 and later
+ */
+export interface NextRequestInfo {
+  path: string;
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Context passed to `onRequestError` by Next.js 15 and later
+ */
+export interface NextRequestErrorContext {
+  routerKind: 'Pages Router' | 'App Router';
+  routePath: string;
+  routeType: 'render' | 'route' | 'action' | 'middleware';
+  renderSource?: string;
+  revalidateReason?: string;
+}
+
+interface NextState {
+  monitor: WingmanMonitor | null;
+  started: Promise<WingmanMonitor> | null;
+  /**
+   * Errors already reported by a wrapper, so onRequestError does not report them again
+   */
+  reported: WeakSet<object>;
+}
+
+// Next.js bundles instrumentation.ts, middleware and each route separately, so every copy of
+// this module has to find the same monitor
+const STATE_KEY = Symbol.for('wingman-monitor.nextjs');
+
+function getState(): NextState {
+  const global = globalThis as typeof globalThis & { [STATE_KEY]?: NextState };
+  if (!global[STATE_KEY]) {
+    global[STATE_KEY] = { monitor: null, started: null, reported: new WeakSet() };
+  }
+  return global[STATE_KEY];
+}
+
+/**
+ * Reads NEXT_RUNTIME through a literal `process.env` expression so Next.js can inline it
+ */
+export function getNextRuntime(): NextRuntime {
+  if (typeof window !== 'undefined') return 'client';
+  try {
+    return process.env.NEXT_RUNTIME === 'edge' ? 'edge' : 'nodejs';
+  } catch {
+    return 'nodejs';
+  }
+}
+
+const createRuntimeProcessor = (runtime: NextRuntime): EventProcessor => ({
+  name: 'nextjsRuntime',
+  process: report => ({
+    ...report,
+    metadata: {
+      ...report.metadata,
+      nextjs: { runtime, ...report.metadata?.nextjs },
+    },
+  }),
+});
+
+/**
+ * Starts monitoring for the current Next.js runtime. Call it from `register()` in instrumentation.ts
+ * for the server runtimes, and from instrumentation-client.ts for the browser. Later calls return
+ * the monitor started by the first one.
+ */
+export function register(options: WingmanNextOptions = {}): Promise<WingmanMonitor> {
+  const state = getState();
+  if (state.started) return state.started;
+
+  const runtime = getNextRuntime();
+  const { captureHydrationErrors, ...monitorOptions } = options;
+  const monitor = new WingmanMonitor({
+    ...monitorOptions,
+    processors: [
+      createRuntimeProcessor(runtime),
+      ...(runtime === 'client' && captureHydrationErrors !== false ? [createHydrationProcessor()] : []),
+      ...(options.processors || []),
+    ],
+  });
+
+  state.monitor = monitor;
+  state.started = monitor.start().then(() => monitor);
+  return state.started;
+}
+
+/**
+ * The monitor started by register(), or null before it was called
+ */
+export function getWingmanMonitor(): WingmanMonitor | null {
+  return getState().monitor;
+}
+
+/**
+ * redirect(), notFound() and dynamic rendering bailouts are thrown as errors, but are not failures
+ */
+export function isNextControlFlowError(error: unknown): boolean {
+  const digest = typeof error === 'object' && error !== null ? (error as { digest?: unknown }).digest : undefined;
+  if (typeof digest !== 'string') return false;
+  return digest.startsWith('NEXT_REDIRECT')
+    || digest === 'NEXT_NOT_FOUND'
+    || digest.startsWith('NEXT_HTTP_ERROR_FALLBACK')
+    || digest === 'DYNAMIC_SERVER_USAGE'
+    || digest === 'BAILOUT_TO_CLIENT_SIDE_RENDERING';
+}
+
+/**
+ * Reports an error from a request with its route details and flushes, so the report is sent before a
+ * serverless function is frozen. Never throws; control flow errors and errors reported before are skipped.
+ */
+export async function captureRequestError(
+  error: unknown,
+  errorType: string,
+  context: NextErrorContext,
+  monitor: WingmanMonitor | null = getWingmanMonitor()
+): Promise<void> {
+  if (isNextControlFlowError(error)) return;
+
+  if (!monitor?.isActive()) return;
+
+  // Marked before the first await, so onRequestError skips an error a wrapper is still reporting;
+  // errors seen while monitoring is inactive or whose report fails stay unmarked
+  const reported = getState().reported;
+  const trackable = typeof error === 'object' && error !== null;
+  if (trackable) {
+    if (reported.has(error)) return;
+    reported.add(error);
+  }
+
+  try {
+    const digest = error instanceof Error ? (error as Error & { digest?: string }).digest : undefined;
+    await monitor.reportCustomError(
+      error instanceof Error ? error : new Error(String(error)),
+      { nextjs: { runtime: getNextRuntime(), ...context, digest } },
+      { errorType, severity: 'high' }
+    );
+  } catch (reportingError) {
+    if (trackable) reported.delete(error);
+    console.warn('Wingman: Failed to report Next.js request error:', reportingError);
+    return;
+  }
+
+  try {
+    await monitor.flush();
+  } catch (flushError) {
+    console.warn('Wingman: Failed to report Next.js request error:', flushError);
+  }
+}
+
+const ERROR_TYPES: Record<NextRequestErrorContext['routeType'], string> = {
+  render: 'renderError',
+  route: 'routeHandlerError',
+  action: 'serverActionError',
+  middleware: 'middlewareError',
+};
+
+/**
+ * Next.js 15 instrumentation hook for errors in server components, route handlers, server actions
+ * and middleware. Re-export it from instrumentation.ts: `export { onRequestError } from 'wingman-monitor/nextjs'`.
+ */
+export async function onRequestError(error: unknown, request: NextRequestInfo, context: NextRequestErrorContext): Promise<void> {
+  const errorType = context.routerKind === 'Pages Router' && context.routeType === 'route'
+    ? 'apiRouteError'
+    : ERROR_TYPES[context.routeType] || 'renderError';
+  await captureRequestError(error, errorType, {
+    routerKind: context.routerKind,
+    routeType: context.routeType,
+    route: context.routePath,
+    method: request.method,
+    path: request.path,
+  });
+}
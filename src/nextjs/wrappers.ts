@@ -0,0 +1,133 @@
+import type { WingmanMonitor } from '../monitor';
+import { captureRequestError } from './register';
+
+export interface WithWingmanOptions {
+  /**
+   * Route pattern reported with errors, e.g. "/api/users/[id]"; defaults to the request path
+   */
+  route?: string;
+  /**
+   * Monitor to report to; defaults to the one started by register()
+   */
+  monitor?: WingmanMonitor;
+}
+
+/**
+ * The parts of a pages router API request the wrapper reads
+ */
+export interface ApiRequestLike {
+  method?: string;
+  url?: string;
+  /**
+   * Search parameters merged with the dynamic route segments
+   */
+  query?: Record<string, string | string[] | undefined>;
+}
+
+function getPath(url?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    return url.split('?')[0];
+  }
+}
+
+/**
+ * Wraps a pages router API route (`pages/api/*`). Errors are reported as 'apiRouteError' and rethrown.
+ */
+export function withWingmanApiRoute<Req extends ApiRequestLike, Res, Result>(
+  handler: (req: Req, res: Res) => Result | Promise<Result>,
+  options: WithWingmanOptions = {}
+): (req: Req, res: Res) => Promise<Result> {
+  return async (req, res) => {
+    try {
+      return await handler(req, res);
+    } catch (error) {
+      const path = getPath(req.url);
+      await captureRequestError(error, 'apiRouteError', {
+        routerKind: 'Pages Router',
+        routeType: 'route',
+        route: options.route || path,
+        params: req.query,
+        method: req.method,
+        path,
+      }, options.monitor);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Wraps an App Router route handler (`route.ts` in the app directory). Errors are reported as 'routeHandlerError'
+ * with the resolved `params` and rethrown.
+ */
+export function withWingmanRouteHandler<Req extends Request, Context, Result>(
+  handler: (request: Req, context: Context) => Result | Promise<Result>,
+  options: WithWingmanOptions = {}
+): (request: Req, context: Context) => Promise<Result> {
+  return async (request, context) => {
+    try {
+      return await handler(request, context);
+    } catch (error) {
+      const path = getPath(request.url);
+      // Next.js 15 passes params as a promise, earlier releases as an object
+      const params = await Promise.resolve((context as { params?: unknown } | undefined)?.params).catch(() => undefined);
+      await captureRequestError(error, 'routeHandlerError', {
+        routerKind: 'App Router',
+        routeType: 'route',
+        route: options.route || path,
+        params: params as Record<string, unknown> | undefined,
+        method: request.method,
+        path,
+      }, options.monitor);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Wraps a server action. Errors are reported as 'serverActionError' under the action's name and rethrown;
+ * redirect() and notFound() pass through unreported.
+ */
+export function withWingmanServerAction<Args extends unknown[], Result>(
+  name: string,
+  action: (...args: Args) => Promise<Result>,
+  options: Pick<WithWingmanOptions, 'monitor'> = {}
+): (...args: Args) => Promise<Result> {
+  return async (...args) => {
+    try {
+      return await action(...args);
+    } catch (error) {
+      await captureRequestError(error, 'serverActionError', {
+        routerKind: 'App Router',
+        routeType: 'action',
+        action: name,
+      }, options.monitor);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Wraps middleware (`middleware.ts`). Errors are reported as 'middlewareError' with the matched path and rethrown.
+ */
+export function withWingmanMiddleware<Req extends Request & { nextUrl?: URL }, Rest extends unknown[], Result>(
+  middleware: (request: Req, ...rest: Rest) => Result | Promise<Result>,
+  options: WithWingmanOptions = {}
+): (request: Req, ...rest: Rest) => Promise<Result> {
+  return async (request, ...rest) => {
+    try {
+      return await middleware(request, ...rest);
+    } catch (error) {
+      const path = request.nextUrl?.pathname || getPath(request.url);
+      await captureRequestError(error, 'middlewareError', {
+        routeType: 'middleware',
+        route: options.route || path,
+        method: request.method,
+        path,
+      }, options.monitor);
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,83 @@
+import { ProjectInfo, WingmanPlatform } from './platform';
+import { FileQueueStorage } from './fileQueueStorage';
+import { FileTransport } from './transports/file';
+import { SourceMapResolver } from './sourcemaps/resolver';
+import { DEFAULT_ARTIFACT_STORE, getReleaseDirectory } from './sourcemaps/artifacts';
+import { resolveRelease } from './sourcemaps/release';
+import { instrumentNodeHttp } from './instrumentation/nodeHttp';
+import { TokenStore } from './utils/tokenStore';
+
+/**
+ * File system backed capabilities installed by the Node.js entry
+ */
+export const nodePlatform: WingmanPlatform = {
+  getWorkingDirectory: () => process.cwd(),
+
+  getConfigPath: projectPath => require('path').join(projectPath || process.cwd(), '.wingman.json'),
+
+  async readJsonFile(filePath) {
+    const fs = require('fs-extra');
+    return await fs.pathExists(filePath) ? fs.readJson(filePath) : undefined;
+  },
+
+  async writeJsonFile(filePath, value) {
+    await require('fs-extra').writeJson(filePath, value, { spaces: 2 });
+  },
+
+  getStoredToken: name => new TokenStore().get(name),
+
+  createQueueStorage: projectPath => new FileQueueStorage(projectPath),
+
+  createFileTransport: (filePath, projectPath) => new FileTransport({
+    path: require('path').resolve(projectPath || process.cwd(), filePath || 'wingman-errors.ndjson')
+  }),
+
+  findSourceMapDirectory(options, release, projectPath) {
+    const fs = require('fs');
+    const path = require('path');
+    const root = projectPath || process.cwd();
+
+    if (release) {
+      const releaseDir = getReleaseDirectory(path.resolve(root, options.artifactStore || DEFAULT_ARTIFACT_STORE), release);
+      if (fs.existsSync(releaseDir)) return releaseDir;
+    }
+    return options.directory ? path.resolve(root, options.directory) : undefined;
+  },
+
+  createSourceMapResolver: (directory, contextLines) => new SourceMapResolver({ directory, contextLines }),
+
+  resolveRelease: projectPath => resolveRelease(projectPath),
+
+  readProjectInfo(projectPath): ProjectInfo | undefined {
+    try {
+      const fs = require('fs');
+      const path = require('path');
+      const packageJsonPath = path.join(projectPath || process.cwd(), 'package.json');
+
+      if (fs.existsSync(packageJsonPath)) {
+        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+        return {
+          name: packageJson.name,
+          version: packageJson.version,
+          url: packageJson.homepage || packageJson.repository?.url
+        };
+      }
+    } catch {
+      // Ignore errors when reading package.json
+    }
+    return undefined;
+  },
+
+  instrumentHttp: instrumentNodeHttp,
+
+  createAsyncContext() {
+    const { AsyncLocalStorage } = require('async_hooks');
+    const storage = new AsyncLocalStorage();
+    return {
+      run: (value, fn) => storage.run(value, fn),
+      get: () => storage.getStore(),
+    };
+  },
+
+  webCrypto: require('crypto').webcrypto,
+};
@@ -0,0 +1,79 @@
+import type { QueueStorage } from './queue';
+import type { Transport } from './transports/types';
+import type { SourceMapOptions } from './config';
+import type { SourceMapResolver } from './sourcemaps/resolver';
+import type { HttpInstrumentationHooks } from './instrumentation/http';
+import type { AsyncContext } from './asyncContext';
+
+export interface ProjectInfo {
+  name?: string;
+  version?: string;
+  url?: string;
+}
+
+/**
+ * Runtime capabilities the monitor uses when they exist. The browser entry installs none of
+ * them, so nothing it imports touches fs, path or process.cwd(); the Node entry installs
+ * implementations backed by the file system.
+ */
+export interface WingmanPlatform {
+  /**
+   * Directory used when no projectPath is given
+   */
+  getWorkingDirectory?(): string;
+  /**
+   * Path of .wingman.json in the project; without it the config comes from options,
+   * inlined config and environment variables only
+   */
+  getConfigPath?(projectPath?: string): string;
+  /**
+   * Reads a JSON file, resolving to undefined when it does not exist
+   */
+  readJsonFile?(filePath: string): Promise<unknown>;
+  writeJsonFile?(filePath: string, value: unknown): Promise<void>;
+  /**
+   * Looks up a "store:<name>" token reference
+   */
+  getStoredToken?(name: string): string | undefined;
+  createQueueStorage?(projectPath?: string): QueueStorage;
+  createFileTransport?(filePath: string | undefined, projectPath?: string): Transport;
+  /**
+   * Directory with the source maps for a release, falling back to `options.directory`
+   */
+  findSourceMapDirectory?(options: SourceMapOptions, release?: string, projectPath?: string): string | undefined;
+  createSourceMapResolver?(directory: string, contextLines?: number): SourceMapResolver;
+  /**
+   * Release derived from the project, e.g. from WINGMAN_RELEASE, package.json and git.
+   * Only used at build time by createInlineConfig(), never by a running monitor.
+   */
+  resolveRelease?(projectPath?: string): string | undefined;
+  readProjectInfo?(projectPath?: string): ProjectInfo | undefined;
+  /**
+   * Wraps the runtime's own HTTP client, e.g. Node's http and https modules
+   */
+  instrumentHttp?(hooks: HttpInstrumentationHooks): () => void;
+  /**
+   * Context that survives awaits and callbacks, used to keep concurrent requests apart
+   */
+  createAsyncContext?<T>(): AsyncContext<T>;
+  /**
+   * Web Crypto implementation for runtimes without globalThis.crypto
+   */
+  webCrypto?: Crypto;
+}
+
+let platform: WingmanPlatform = {};
+
+/**
+ * The capabilities installed by the entry point; empty in the browser entry
+ */
+export function getPlatform(): WingmanPlatform {
+  return platform;
+}
+
+/**
+ * Replaces the installed capabilities, e.g. to give a custom runtime its own queue storage
+ */
+export function setPlatform(next: WingmanPlatform): void {
+  platform = next;
+}
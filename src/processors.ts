@@ -0,0 +1,90 @@
+import type { ErrorReport } from './monitor';
+
+/**
+ * Extra information about the captured error that is not part of the report itself
+ */
+export interface EventHint {
+  /**
+   * The error message before context and stack were appended to `report.message`
+   */
+  originalMessage: string;
+  /**
+   * The thrown value, when there is one
+   */
+  error?: unknown;
+}
+
+export type EventProcessorFn = (
+  report: ErrorReport,
+  hint: EventHint
+) => ErrorReport | null | Promise<ErrorReport | null>;
+
+/**
+ * A named step that can enrich, rewrite or drop (by returning null) a report before delivery
+ */
+export interface EventProcessor {
+  name: string;
+  process: EventProcessorFn;
+}
+
+/**
+ * Ordered list of event processors run on every report before any transport sees it
+ */
+export class ProcessorPipeline {
+  private processors: EventProcessor[];
+
+  constructor(processors: EventProcessor[] = []) {
+    this.processors = [...processors];
+  }
+
+  /**
+   * Appends a processor, or inserts it at `index`
+   */
+  add(processor: EventProcessor, index?: number): void {
+    if (index === undefined) {
+      this.processors.push(processor);
+    } else {
+      this.processors.splice(index, 0, processor);
+    }
+  }
+
+  /**
+   * Removes the processor with the given name, returning whether one was removed
+   */
+  remove(name: string): boolean {
+    const index = this.processors.findIndex(processor => processor.name === name);
+    if (index === -1) return false;
+    this.processors.splice(index, 1);
+    return true;
+  }
+
+  names(): string[] {
+    return this.processors.map(processor => processor.name);
+  }
+
+  /**
+   * Runs the report through every processor; resolves to null as soon as one drops it.
+   * A processor that throws is skipped so a faulty processor never loses a report.
+   */
+  async run(
+    report: ErrorReport,
+    hint: EventHint,
+    onProcessorError?: (name: string, error: unknown) => void
+  ): Promise<ErrorReport | null> {
+    let current = report;
+
+    for (const processor of this.processors) {
+      let result: ErrorReport | null;
+      try {
+        result = await processor.process(current, hint);
+      } catch (error) {
+        onProcessorError?.(processor.name, error);
+        continue;
+      }
+      if (!result) return null;
+      current = result;
+    }
+
+    return current;
+  }
+}
@@ -1,24 +1,16 @@
-import React, { createContext, useContext, ReactNode } from 'react';
-import { WingmanMonitor } from './monitor';
+import React, { useContext, ReactNode } from 'react';
+import { WingmanMonitor, WingmanMonitorOptions } from './monitor';
 import { WingmanConfig } from './config';
-import { shouldReportError, getEnvironmentConfig } from './utils/errorFiltering';
-import { requireAccessToken } from './utils/tokenResolver';
-
-interface WingmanContextType {
-  monitor: WingmanMonitor | null;
-  isActive: boolean;
-}
-
-const WingmanContext = createContext<WingmanContextType>({
-  monitor: null,
-  isActive: false,
-});
+import { EventProcessor } from './processors';
+import { createFilterProcessor, getEnvironmentConfig } from './utils/errorFiltering';
+import { WingmanContext, WingmanContextType } from './context';
+import { FallbackProps, WingmanErrorBoundary, WingmanErrorBoundaryProps } from './errorBoundary';
 
 export interface WingmanProviderProps {
   children: ReactNode;
   /**
-   * Custom configuration for Wingman Monitor
-   * If not provided, will load from wingman.config.json
+   * Config values that take precedence over WINGMAN_* environment variables, config inlined
+   * at build time and .wingman.json. Browser bundles should pass accessToken here or inline it.
    */
   config?: Partial<WingmanConfig>;
   /**
@@ -31,10 +23,22 @@ export interface WingmanProviderProps {
    */
   projectPath?: string;
   /**
-   * Enable error boundary for React component errors
+   * Profile from .wingman.json to use instead of WINGMAN_ENV/NODE_ENV
+   */
+  profile?: string;
+  /**
+   * Wrap the app in a WingmanErrorBoundary that reports React component errors
    * @default true
    */
   enableErrorBoundary?: boolean;
+  /**
+   * Rendered by the app-wide error boundary instead of the default "Something went wrong" message
+   */
+  fallback?: WingmanErrorBoundaryProps['fallback'];
+  /**
+   * Component rendered by the app-wide error boundary; `fallback` takes precedence
+   */
+  FallbackComponent?: React.ComponentType<FallbackProps>;
   /**
    * Enable error reporting (overrides environment detection)
    */
@@ -44,15 +48,65 @@ export interface WingmanProviderProps {
    * @default true
    */
   enablePerformanceMonitoring?: boolean;
+  /**
+   * Called with every report after the processors ran; return null to drop it
+   */
+  beforeSend?: WingmanMonitorOptions['beforeSend'];
+  /**
+   * Event processors run after the built-in filters, in order
+   */
+  processors?: EventProcessor[];
+  /**
+   * Include the built-in filters
+   * @default true
+   */
+  defaultProcessors?: boolean;
+  /**
+   * Return false to drop an error; runs as the "errorFilter" processor
+   */
+  errorFilter?: (error: Error, context?: Record<string, any>) => boolean;
+  /**
+   * Rewrites the metadata of every report; runs as the "contextEnhancer" processor
+   */
+  contextEnhancer?: (context: Record<string, any>) => Record<string, any>;
 }
 
 interface WingmanProviderState {
-  hasError: boolean;
-  error?: Error;
   isInitialized: boolean;
   initError?: string;
 }
 
+/**
+ * Fallback of the app-wide error boundary; shows the stack in development
+ */
+function DefaultErrorFallback({ error }: FallbackProps) {
+  return (
+    <div style={{ 
+      padding: '20px', 
+      backgroundColor: '#fee', 
+      border: '1px solid #fcc',
+      borderRadius: '4px',
+      margin: '20px'
+    }}>
+      <h2>Something went wrong</h2>
+      <p>An error occurred in the application. The error has been reported.</p>
+      {process.env.NODE_ENV === 'development' && (
+        <details style={{ marginTop: '10px' }}>
+          <summary>Error details (development only)</summary>
+          <pre style={{ 
+            backgroundColor: '#f5f5f5', 
+            padding: '10px', 
+            overflow: 'auto',
+            marginTop: '10px'
+          }}>
+            {error.stack}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
+
 export class WingmanProvider extends React.Component<WingmanProviderProps, WingmanProviderState> {
   private monitor: WingmanMonitor;
   private isActive = false;
@@ -62,25 +116,33 @@ export class WingmanProvider extends React.Component<WingmanProviderProps, Wingm
   constructor(props: WingmanProviderProps) {
     super(props);
     this.state = { 
-      hasError: false, 
       isInitialized: false 
     };
-    this.monitor = new WingmanMonitor(props.projectPath);
+    this.monitor = this.createMonitor();
   }
 
-  static getDerivedStateFromError(error: Error): WingmanProviderState {
-    return { hasError: true, error, isInitialized: false };
-  }
+  private createMonitor(): WingmanMonitor {
+    const { config, projectPath, profile, beforeSend, processors = [], defaultProcessors, errorFilter, contextEnhancer } = this.props;
+    const propProcessors: EventProcessor[] = [];
 
-  componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
-    // Check if we should report this error based on environment and filters
-    if (this.isActive && shouldReportError(error, { type: 'React Component Error' })) {
-      this.monitor.reportCustomError(error, {
-        componentStack: errorInfo.componentStack,
-        errorBoundary: true,
-        type: 'React Component Error',
+    if (errorFilter) {
+      propProcessors.push(createFilterProcessor('errorFilter', errorFilter));
+    }
+    if (contextEnhancer) {
+      propProcessors.push({
+        name: 'contextEnhancer',
+        process: report => ({ ...report, metadata: contextEnhancer({ ...report.metadata }) }),
       });
     }
+
+    return new WingmanMonitor({
+      config,
+      projectPath,
+      profile,
+      beforeSend,
+      defaultProcessors,
+      processors: [...propProcessors, ...processors],
+    });
   }
 
   async componentDidMount() {
@@ -89,12 +151,6 @@ export class WingmanProvider extends React.Component<WingmanProviderProps, Wingm
     
     if (autoStart) {
       try {
-        // Try to get the access token from .wingman.json
-        const accessToken = await requireAccessToken();
-        
-        // Update monitor configuration with the token
-        this.monitor = new WingmanMonitor(this.props.projectPath);
-        
         await this.monitor.start();
         this.isActive = this.monitor.isActive();
         
@@ -127,9 +183,7 @@ export class WingmanProvider extends React.Component<WingmanProviderProps, Wingm
         colno: event.colno,
       };
 
-      if (shouldReportError(error, context)) {
-        this.monitor.reportCustomError(error, context);
-      }
+      this.monitor.reportCustomError(error, context);
     };
 
     // Handle unhandled promise rejections
@@ -143,9 +197,7 @@ export class WingmanProvider extends React.Component<WingmanProviderProps, Wingm
         reason: event.reason,
       };
 
-      if (shouldReportError(error, context)) {
-        this.monitor.reportCustomError(error, context);
-      }
+      this.monitor.reportCustomError(error, context);
     };
 
     window.addEventListener('error', this.handleError);
@@ -172,14 +224,22 @@ export class WingmanProvider extends React.Component<WingmanProviderProps, Wingm
   }
 
   render() {
-    const { children, enableErrorBoundary = true } = this.props;
-    const { hasError, error, initError, isInitialized } = this.state;
+    const { children, enableErrorBoundary = true, fallback, FallbackComponent = DefaultErrorFallback } = this.props;
+    const { initError } = this.state;
 
     const contextValue: WingmanContextType = {
       monitor: this.monitor,
       isActive: this.isActive,
     };
 
+    const content = enableErrorBoundary
+      ? (
+        <WingmanErrorBoundary fallback={fallback} FallbackComponent={FallbackComponent}>
+          {children}
+        </WingmanErrorBoundary>
+      )
+      : children;
+
     // Show initialization error in development only
     if (initError && process.env.NODE_ENV === 'development') {
       return (
@@ -197,44 +257,14 @@ export class WingmanProvider extends React.Component<WingmanProviderProps, Wingm
               Run: <code>npx wingman init &lt;your-access-token&gt;</code>
             </p>
           </div>
-          {children}
-        </WingmanContext.Provider>
-      );
-    }
-
-    if (enableErrorBoundary && hasError) {
-      return (
-        <WingmanContext.Provider value={contextValue}>
-          <div style={{ 
-            padding: '20px', 
-            backgroundColor: '#fee', 
-            border: '1px solid #fcc',
-            borderRadius: '4px',
-            margin: '20px'
-          }}>
-            <h2>Something went wrong</h2>
-            <p>An error occurred in the application. The error has been reported.</p>
-            {process.env.NODE_ENV === 'development' && error && (
-              <details style={{ marginTop: '10px' }}>
-                <summary>Error details (development only)</summary>
-                <pre style={{ 
-                  backgroundColor: '#f5f5f5', 
-                  padding: '10px', 
-                  overflow: 'auto',
-                  marginTop: '10px'
-                }}>
-                  {error.stack}
-                </pre>
-              </details>
-            )}
-          </div>
+          {content}
         </WingmanContext.Provider>
       );
     }
 
     return (
       <WingmanContext.Provider value={contextValue}>
-        {children}
+        {content}
       </WingmanContext.Provider>
     );
   }
@@ -265,10 +295,8 @@ export function useWingmanReporting() {
 
     const errorObj = typeof error === 'string' ? new Error(error) : error;
     
-    // Apply error filtering before reporting
-    if (shouldReportError(errorObj, metadata)) {
-      monitor.reportCustomError(errorObj, metadata);
-    }
+    // Error filtering is applied by the monitor's processor pipeline
+    monitor.reportCustomError(errorObj, metadata);
   }, [monitor, isActive]);
 
   const reportInfo = React.useCallback((message: string, metadata?: Record<string, any>) => {
@@ -284,10 +312,8 @@ export function useWingmanReporting() {
       type: 'Info'
     };
 
-    // Apply error filtering (info messages still go through the same filtering)
-    if (shouldReportError(infoError, infoMetadata)) {
-      monitor.reportCustomError(infoError, infoMetadata);
-    }
+    // Info messages go through the same processor pipeline as errors
+    monitor.reportCustomError(infoError, infoMetadata);
   }, [monitor, isActive]);
 
   return {
@@ -0,0 +1,292 @@
+import axios from 'axios';
+import { getPlatform } from './platform';
+
+export interface QueueOptions {
+  /**
+   * Maximum number of undelivered payloads kept; the oldest are dropped first
+   * @default 100
+   */
+  maxSize?: number;
+  /**
+   * Payloads older than this are dropped instead of retried
+   * @default 86400000 (24 hours)
+   */
+  maxAgeMs?: number;
+  /**
+   * Delay before the first retry, doubled on every failed attempt
+   * @default 1000
+   */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for the retry delay
+   * @default 300000 (5 minutes)
+   */
+  maxDelayMs?: number;
+}
+
+export interface QueuedPayload {
+  id: string;
+  payload: any;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Persistence backend for undelivered payloads
+ */
+export interface QueueStorage {
+  load(): Promise<QueuedPayload[]>;
+  save(items: QueuedPayload[]): Promise<void>;
+}
+
+export const QUEUE_FILE_NAME = '.wingman-queue.json';
+const QUEUE_STORAGE_KEY = 'wingman:queue';
+
+const DEFAULT_QUEUE_OPTIONS: Required<QueueOptions> = {
+  maxSize: 100,
+  maxAgeMs: 24 * 60 * 60 * 1000,
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+};
+
+/**
+ * Stores the queue in localStorage (browsers)
+ */
+export class LocalStorageQueueStorage implements QueueStorage {
+  async load(): Promise<QueuedPayload[]> {
+    const raw = window.localStorage.getItem(QUEUE_STORAGE_KEY);
+    if (!raw) return [];
+    const items = JSON.parse(raw);
+    return Array.isArray(items) ? items : [];
+  }
+
+  async save(items: QueuedPayload[]): Promise<void> {
+    if (items.length === 0) {
+      window.localStorage.removeItem(QUEUE_STORAGE_KEY);
+      return;
+    }
+    window.localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(items));
+  }
+}
+
+/**
+ * Keeps the queue in memory only, used when no persistent storage is available
+ */
+export class MemoryQueueStorage implements QueueStorage {
+  private items: QueuedPayload[] = [];
+
+  async load(): Promise<QueuedPayload[]> {
+    return [...this.items];
+  }
+
+  async save(items: QueuedPayload[]): Promise<void> {
+    this.items = [...items];
+  }
+}
+
+/**
+ * Picks the persistent storage available in the current runtime
+ */
+export function createQueueStorage(projectPath?: string): QueueStorage {
+  if (typeof window !== 'undefined') {
+    try {
+      if (window.localStorage) {
+        return new LocalStorageQueueStorage();
+      }
+    } catch {
+      // localStorage access can throw in sandboxed iframes or private mode
+    }
+    return new MemoryQueueStorage();
+  }
+
+  return getPlatform().createQueueStorage?.(projectPath) ?? new MemoryQueueStorage();
+}
+
+/**
+ * Client errors other than timeouts and rate limits will fail again on retry
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (axios.isAxiosError(error) && error.response) {
+    const status = error.response.status;
+    return status >= 500 || status === 408 || status === 429;
+  }
+  return true;
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of the capped exponential delay
+ */
+export function getRetryDelay(attempts: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, Math.max(0, attempts - 1)));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Persistent delivery queue that retries failed payloads with exponential backoff
+ */
+export class DeliveryQueue {
+  private items: QueuedPayload[] = [];
+  private options: Required<QueueOptions>;
+  private timer: (ReturnType<typeof setTimeout> & { unref?: () => void }) | null = null;
+  private flushing: Promise<void> | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    private send: (payload: any) => Promise<void>,
+    private storage: QueueStorage,
+    options: QueueOptions = {},
+    private onDrop?: (item: QueuedPayload, reason: string) => void
+  ) {
+    this.options = { ...DEFAULT_QUEUE_OPTIONS, ...options };
+  }
+
+  /**
+   * Loads payloads left over from a previous run and starts delivering them in the background
+   */
+  async restore(): Promise<number> {
+    this.stopped = false;
+    // Let pending writes land first so payloads delivered meanwhile are not loaded again
+    await this.persisting;
+    const stored = await this.storage.load();
+    const known = new Set(this.items.map(item => item.id));
+    const restored = stored.filter(item => !known.has(item.id));
+    // Replayed payloads are due immediately regardless of their old schedule
+    restored.forEach(item => { item.nextAttemptAt = Date.now(); });
+    this.items.unshift(...restored);
+    this.pruneExpired();
+    this.enforceMaxSize();
+
+    if (this.items.length > 0) {
+      this.flush();
+    }
+    return restored.filter(item => this.items.includes(item)).length;
+  }
+
+  /**
+   * Adds a payload and attempts delivery right away. Resolves to true when the payload is still
+   * queued for a retry, false once it was delivered or dropped.
+   */
+  async enqueue(payload: any): Promise<boolean> {
+    const now = Date.now();
+    const item: QueuedPayload = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      payload,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    };
+    this.items.push(item);
+    this.enforceMaxSize();
+    await this.persist();
+    await this.flush();
+    // A flush that was already running when the payload was added did not attempt it
+    if (this.items.includes(item) && item.attempts === 0 && !this.stopped) {
+      await this.flush();
+    }
+    return this.items.includes(item);
+  }
+
+  /**
+   * Delivers every payload that is due, rescheduling the ones that fail
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+
+    this.flushing = this.deliverDue().finally(() => {
+      this.flushing = null;
+      this.scheduleNext();
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Stops retrying; undelivered payloads stay in storage for the next start()
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  size(): number {
+    return this.items.length;
+  }
+
+  private async deliverDue(): Promise<void> {
+    this.pruneExpired();
+    const now = Date.now();
+    const due = this.items.filter(item => item.nextAttemptAt <= now);
+
+    for (const item of due) {
+      try {
+        await this.send(item.payload);
+        this.remove(item);
+      } catch (error) {
+        item.attempts++;
+        if (!isRetryableError(error)) {
+          this.remove(item);
+          this.onDrop?.(item, `rejected by receiver: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+        item.nextAttemptAt = Date.now() + getRetryDelay(item.attempts, this.options.baseDelayMs, this.options.maxDelayMs);
+      }
+    }
+
+    await this.persist();
+  }
+
+  private scheduleNext(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.stopped || this.items.length === 0) return;
+
+    const next = Math.min(...this.items.map(item => item.nextAttemptAt));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, Math.max(0, next - Date.now()));
+
+    // Pending retries should never keep a Node.js process alive
+    this.timer.unref?.();
+  }
+
+  private pruneExpired(): void {
+    const cutoff = Date.now() - this.options.maxAgeMs;
+    const expired = this.items.filter(item => item.createdAt < cutoff);
+    expired.forEach(item => {
+      this.remove(item);
+      this.onDrop?.(item, 'exceeded max age');
+    });
+  }
+
+  private enforceMaxSize(): void {
+    while (this.items.length > this.options.maxSize) {
+      const dropped = this.items.shift();
+      if (dropped) {
+        this.onDrop?.(dropped, 'queue is full');
+      }
+    }
+  }
+
+  private remove(item: QueuedPayload): void {
+    const index = this.items.indexOf(item);
+    if (index !== -1) {
+      this.items.splice(index, 1);
+    }
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so an older snapshot never overwrites a newer one
+    const snapshot = [...this.items];
+    this.persisting = this.persisting
+      .then(() => this.storage.save(snapshot))
+      .catch(() => undefined);
+    return this.persisting;
+  }
+}
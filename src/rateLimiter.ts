@@ -0,0 +1,109 @@
+import type { ErrorReport } from './monitor';
+
+export interface RateLimitOptions {
+  /**
+   * Maximum burst of reports sent back to back
+   * @default 30
+   */
+  capacity?: number;
+  /**
+   * Reports added back to the bucket per second
+   * @default 0.5
+   */
+  refillPerSecond?: number;
+}
+
+/**
+ * Fraction of reports kept per severity, between 0 and 1. Missing severities are always kept.
+ */
+export type SampleRates = Partial<Record<ErrorReport['severity'], number>>;
+
+const DEFAULT_RATE_LIMIT: Required<RateLimitOptions> = {
+  capacity: 30,
+  refillPerSecond: 0.5,
+};
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Applies per-severity sampling and a process-wide token bucket to outgoing reports.
+ *
+ * Occurrences that are dropped are counted and attached to the next report that is
+ * sent, so receivers can extrapolate the true volume.
+ */
+export class ReportThrottle {
+  private bucket: TokenBucket;
+  private rateLimited = 0;
+  private sampledOut = 0;
+
+  constructor(
+    rateLimit: RateLimitOptions = {},
+    private sampleRates: SampleRates = {},
+    private random: () => number = Math.random
+  ) {
+    const options = { ...DEFAULT_RATE_LIMIT, ...rateLimit };
+    this.bucket = new TokenBucket(options.capacity, options.refillPerSecond);
+  }
+
+  /**
+   * Returns the report annotated with sampling counts, or null if it was dropped
+   */
+  admit(report: ErrorReport): ErrorReport | null {
+    const rate = this.getSampleRate(report.severity);
+    const occurrences = report.occurrences ?? 1;
+
+    if (rate < 1 && this.random() >= rate) {
+      this.sampledOut += occurrences;
+      return null;
+    }
+
+    if (!this.bucket.tryTake()) {
+      this.rateLimited += occurrences;
+      return null;
+    }
+
+    if (rate >= 1 && this.rateLimited === 0 && this.sampledOut === 0) {
+      return report;
+    }
+
+    const sampled = {
+      ...report,
+      sampling: {
+        rate,
+        rateLimited: this.rateLimited,
+        sampledOut: this.sampledOut,
+      }
+    };
+    this.rateLimited = 0;
+    this.sampledOut = 0;
+    return sampled;
+  }
+
+  private getSampleRate(severity: ErrorReport['severity']): number {
+    const rate = this.sampleRates[severity];
+    if (typeof rate !== 'number' || isNaN(rate)) return 1;
+    return Math.min(1, Math.max(0, rate));
+  }
+}
@@ -0,0 +1,76 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { resolveProfile, resolveWebhookUrl, WingmanProfile } from './config';
+import { migrateConfig } from './configMigrations';
+import { testWebhookConnection } from './handshake';
+import { TokenStore } from './utils/tokenStore';
+import { parseTokenReference, resolveTokenReference, TokenReference } from './utils/tokenResolver';
+
+export interface RotateTokenOptions {
+  projectPath?: string;
+  /** Profile whose token is replaced (default: WINGMAN_ENV or NODE_ENV) */
+  profile?: string;
+  /** Webhook to verify the new token against instead of the configured one */
+  webhookUrl?: string;
+  /** Replace the token even if the webhook reports a different projectId */
+  force?: boolean;
+  /** Called before the new token is sent to the webhook */
+  onVerify?: (webhookUrl: string) => void;
+}
+
+export type RotateTokenResult =
+  | { status: 'uninitialized' }
+  | { status: 'unchanged' }
+  /** The profile inherits a store: reference that other profiles share */
+  | { status: 'sharedStoreToken'; profile: string; accessToken: string }
+  | { status: 'rejected'; message: string }
+  | { status: 'projectMismatch'; projectId: string; configuredProjectId: string }
+  /** `profile` is set when the token was written to a profile rather than the shared defaults */
+  | { status: 'rotated'; profile?: string; reference: TokenReference | null; inherited: boolean };
+
+/**
+ * Verifies the new token with the webhook, then replaces the current one wherever it is kept:
+ * in .wingman.json, in the token store for a store: reference, or nowhere for an env: reference,
+ * which the caller must update. .wingman.json is left unchanged unless the token is accepted.
+ */
+export async function rotateAccessToken(newToken: string, options: RotateTokenOptions = {}): Promise<RotateTokenResult> {
+  const configPath = path.join(options.projectPath || process.cwd(), '.wingman.json');
+  if (!await fs.pathExists(configPath)) {
+    return { status: 'uninitialized' };
+  }
+
+  const file = migrateConfig(await fs.readJson(configPath)).config;
+  const { config, profile } = resolveProfile(file, options.profile);
+  const reference = config.accessToken ? parseTokenReference(config.accessToken) : null;
+  const inherited = !!profile && file.profiles![profile].accessToken === undefined;
+  if (inherited && reference?.type === 'store') {
+    return { status: 'sharedStoreToken', profile: profile!, accessToken: config.accessToken! };
+  }
+  if (resolveTokenReference(config.accessToken) === newToken) {
+    return { status: 'unchanged' };
+  }
+
+  const webhookUrl = options.webhookUrl || config.transport?.url || resolveWebhookUrl();
+  options.onVerify?.(webhookUrl);
+  const testResult = await testWebhookConnection(webhookUrl, newToken, config.environment || 'development', config.transport?.signing);
+  if (!testResult.success) {
+    return { status: 'rejected', message: testResult.message };
+  }
+  if (testResult.projectId && config.projectId && testResult.projectId !== config.projectId && !options.force) {
+    return { status: 'projectMismatch', projectId: testResult.projectId, configuredProjectId: config.projectId };
+  }
+
+  // A profile that inherited the shared token gets its own, so the other profiles keep the old one
+  const target: WingmanProfile = profile ? file.profiles![profile] : file;
+  if (reference?.type === 'store') {
+    new TokenStore().set(reference.name, newToken);
+  } else if (reference?.type !== 'env') {
+    target.accessToken = newToken;
+  }
+  if (testResult.projectId && (!config.projectId || options.force)) {
+    target.projectId = testResult.projectId;
+  }
+  await fs.writeJson(configPath, file, { spaces: 2 });
+
+  return { status: 'rotated', profile, reference, inherited };
+}
@@ -0,0 +1,106 @@
+import { BreadcrumbBuffer, BreadcrumbOptions } from './breadcrumbs';
+
+/**
+ * The incoming request a scope belongs to, attached to reports as `metadata.request`
+ */
+export interface RequestContext {
+  /**
+   * Taken from the request ID header, or generated
+   */
+  id: string;
+  method: string;
+  /**
+   * Path of the request, without the query string
+   */
+  path: string;
+  /**
+   * Route pattern such as "/users/:id", once the router matched one
+   */
+  route?: string;
+  /**
+   * Response status the error resulted in
+   */
+  status?: number;
+  /**
+   * Request headers with credentials replaced by "[Filtered]"
+   */
+  headers?: Record<string, string>;
+  query?: Record<string, unknown>;
+}
+
+/**
+ * The user affected by an error, attached to reports as `user`
+ */
+export interface UserContext {
+  id?: string;
+  email?: string;
+  username?: string;
+  ipAddress?: string;
+  /**
+   * Any other fields, e.g. the tenant or plan
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * State that belongs to one unit of work, such as a request, instead of the whole process
+ */
+export class Scope {
+  readonly breadcrumbs: BreadcrumbBuffer;
+  readonly request?: RequestContext;
+  user?: UserContext;
+  /**
+   * Short searchable values, e.g. { tenant: 'acme' }
+   */
+  readonly tags: Record<string, string> = {};
+  /**
+   * Named groups of structured data, e.g. { order: { id: 42, total: 99.5 } }
+   */
+  readonly contexts: Record<string, Record<string, unknown>> = {};
+
+  constructor(options: { breadcrumbs?: BreadcrumbBuffer | BreadcrumbOptions; request?: RequestContext } = {}) {
+    this.breadcrumbs = options.breadcrumbs instanceof BreadcrumbBuffer
+      ? options.breadcrumbs
+      : new BreadcrumbBuffer(options.breadcrumbs);
+    this.request = options.request;
+  }
+
+  /**
+   * Sets the user, or removes it with null
+   */
+  setUser(user: UserContext | null): void {
+    this.user = user ? { ...user } : undefined;
+  }
+
+  setTag(key: string, value: string | number | boolean): void {
+    this.tags[key] = String(value);
+  }
+
+  /**
+   * Sets a named context, or removes it with null
+   */
+  setContext(name: string, context: Record<string, unknown> | null): void {
+    if (context) {
+      this.contexts[name] = { ...context };
+    } else {
+      delete this.contexts[name];
+    }
+  }
+
+  /**
+   * A scope that starts with this scope's user, tags and contexts; changes to either one do not
+   * affect the other. Breadcrumbs and request are shared unless given.
+   */
+  clone(options: { breadcrumbs?: BreadcrumbBuffer | BreadcrumbOptions; request?: RequestContext } = {}): Scope {
+    const scope = new Scope({
+      breadcrumbs: options.breadcrumbs || this.breadcrumbs,
+      request: options.request || this.request,
+    });
+    scope.user = this.user ? { ...this.user } : undefined;
+    Object.assign(scope.tags, this.tags);
+    for (const [name, context] of Object.entries(this.contexts)) {
+      scope.contexts[name] = { ...context };
+    }
+    return scope;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * HMAC-SHA256 request signing for webhook payloads. The access token is the shared secret, so it
+ * never has to travel with the request: the sender signs "<timestamp>.<nonce>.<body>" and the
+ * receiver recomputes the signature with its copy of the token.
+ */
+
+import { getPlatform } from './platform';
+
+export const SIGNATURE_HEADER = 'x-wingman-signature';
+export const TIMESTAMP_HEADER = 'x-wingman-timestamp';
+export const NONCE_HEADER = 'x-wingman-nonce';
+export const PROJECT_HEADER = 'x-wingman-project-id';
+
+export const SIGNATURE_VERSION = 'v1';
+
+export interface SignatureHeaders {
+  [SIGNATURE_HEADER]: string;
+  [TIMESTAMP_HEADER]: string;
+  [NONCE_HEADER]: string;
+}
+
+// Browsers and Node.js 19+ expose Web Crypto globally; the Node entry supplies it for older releases
+function getCrypto(): Crypto {
+  const webCrypto = typeof globalThis.crypto !== 'undefined' ? globalThis.crypto : getPlatform().webCrypto;
+  if (!webCrypto) {
+    throw new Error('Wingman: Payload signing needs the Web Crypto API');
+  }
+  return webCrypto;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function createNonce(): string {
+  const bytes = new Uint8Array(16);
+  getCrypto().getRandomValues(bytes);
+  return toHex(bytes);
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const subtle = getCrypto().subtle;
+  if (!subtle) {
+    throw new Error('Wingman: Payload signing needs the Web Crypto API, which is only available in secure contexts');
+  }
+  const encoder = new TextEncoder();
+  const key = await subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(new Uint8Array(await subtle.sign('HMAC', key, encoder.encode(message))));
+}
+
+/**
+ * Signs a serialized request body, returning the headers to send with it
+ */
+export async function signPayload(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000), nonce = createNonce()): Promise<SignatureHeaders> {
+  const signature = await hmacSha256Hex(secret, `${timestamp}.${nonce}.${body}`);
+  return {
+    [SIGNATURE_HEADER]: `${SIGNATURE_VERSION}=${signature}`,
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [NONCE_HEADER]: nonce,
+  };
+}
@@ -0,0 +1,181 @@
+import { SourceMapConsumer } from './sourceMap';
+import type { WingmanPayload } from '../transports/types';
+
+/**
+ * Default local artifact store, relative to the project path
+ */
+export const DEFAULT_ARTIFACT_STORE = '.wingman/sourcemaps';
+
+export interface SourceMapArtifact {
+  /**
+   * Path of the map relative to the build directory, e.g. "static/js/main.3f2a.js.map"
+   */
+  name: string;
+  mapPath: string;
+  bundlePath: string;
+  /**
+   * Problems that make the map unusable for this bundle; empty when it is valid
+   */
+  errors: string[];
+}
+
+/**
+ * One map in a 'sourcemaps.upload' payload
+ */
+export interface UploadedSourceMap {
+  /**
+   * Path of the map relative to the build directory, as in SourceMapArtifact
+   */
+  name: string;
+  map: string;
+}
+
+export interface ArtifactManifest {
+  release: string;
+  createdAt: string;
+  files: Array<{ bundle: string; map: string }>;
+}
+
+const SOURCE_MAPPING_URL = /\/[/*][#@]\s*sourceMappingURL=([^\s*'"]+)\s*(?:\*\/)?\s*$/m;
+
+/**
+ * Finds every .js.map file under `buildDir` and checks it against the bundle next to it (Node.js only)
+ */
+export async function collectSourceMaps(buildDir: string): Promise<SourceMapArtifact[]> {
+  const fs = require('fs-extra');
+  const path = require('path');
+  const root = path.resolve(buildDir);
+  const artifacts: SourceMapArtifact[] = [];
+
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== 'node_modules') await walk(entryPath);
+      } else if (entry.name.endsWith('.js.map')) {
+        const bundlePath = entryPath.slice(0, -'.map'.length);
+        artifacts.push({
+          name: path.relative(root, entryPath).split(path.sep).join('/'),
+          mapPath: entryPath,
+          bundlePath,
+          errors: await validateSourceMap(entryPath, bundlePath),
+        });
+      }
+    }
+  };
+
+  await walk(root);
+  return artifacts.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Checks that a map parses, belongs to the bundle and does not point past its last line
+ */
+async function validateSourceMap(mapPath: string, bundlePath: string): Promise<string[]> {
+  const fs = require('fs-extra');
+  const path = require('path');
+  const errors: string[] = [];
+
+  let consumer: SourceMapConsumer;
+  try {
+    consumer = SourceMapConsumer.fromJSON(await fs.readFile(mapPath, 'utf8'));
+  } catch (error) {
+    return [`Invalid source map: ${error instanceof Error ? error.message : String(error)}`];
+  }
+
+  if (!await fs.pathExists(bundlePath)) {
+    return [`Bundle ${path.basename(bundlePath)} not found next to the map`];
+  }
+
+  const bundle: string = await fs.readFile(bundlePath, 'utf8');
+  const mapName = path.basename(mapPath);
+  const bundleName = path.basename(bundlePath);
+
+  if (consumer.map.file && path.basename(consumer.map.file) !== bundleName) {
+    errors.push(`Map is for "${consumer.map.file}", not ${bundleName}`);
+  }
+
+  const reference = SOURCE_MAPPING_URL.exec(bundle.slice(-4096))?.[1];
+  if (reference && !reference.startsWith('data:') && path.basename(reference.split(/[?#]/)[0]) !== mapName) {
+    errors.push(`Bundle references "${reference}" instead of ${mapName}`);
+  }
+
+  const bundleLines = bundle.split('\n').length;
+  if (consumer.lineCount > bundleLines) {
+    errors.push(`Map has mappings for ${consumer.lineCount} lines but the bundle has ${bundleLines}; it is likely from a different build`);
+  }
+
+  return errors;
+}
+
+/**
+ * Copies maps and bundles into `<storeDir>/<release>/` with a manifest.json (Node.js only).
+ * Returns the release directory.
+ */
+export async function writeArtifacts(storeDir: string, release: string, artifacts: SourceMapArtifact[]): Promise<string> {
+  const fs = require('fs-extra');
+  const path = require('path');
+  const releaseDir = path.join(path.resolve(storeDir), encodeRelease(release));
+
+  await fs.emptyDir(releaseDir);
+  for (const artifact of artifacts) {
+    await fs.copy(artifact.mapPath, path.join(releaseDir, artifact.name));
+    await fs.copy(artifact.bundlePath, path.join(releaseDir, artifact.name.slice(0, -'.map'.length)));
+  }
+
+  const manifest: ArtifactManifest = {
+    release,
+    createdAt: new Date().toISOString(),
+    files: artifacts.map(artifact => ({ bundle: artifact.name.slice(0, -'.map'.length), map: artifact.name })),
+  };
+  await fs.writeJson(path.join(releaseDir, 'manifest.json'), manifest, { spaces: 2 });
+
+  return releaseDir;
+}
+
+/**
+ * Directory of a release inside an artifact store
+ */
+export function getReleaseDirectory(storeDir: string, release: string): string {
+  const path = require('path');
+  return path.join(path.resolve(storeDir), encodeRelease(release));
+}
+
+/**
+ * Builds the 'sourcemaps.upload' payload sent through the configured transport (Node.js only)
+ */
+export async function buildUploadPayload(
+  release: string,
+  artifacts: SourceMapArtifact[],
+  context: { accessToken: string; environment?: string }
+): Promise<WingmanPayload> {
+  const fs = require('fs-extra');
+
+  const files: UploadedSourceMap[] = [];
+  for (const artifact of artifacts) {
+    files.push({
+      name: artifact.name,
+      map: await fs.readFile(artifact.mapPath, 'utf8'),
+    });
+  }
+
+  return {
+    event: 'sourcemaps.upload',
+    data: {
+      accessToken: context.accessToken,
+      environment: context.environment,
+      release,
+      files,
+    },
+    timestamp: Date.now(),
+    source: 'wingman-cli',
+  };
+}
+
+/**
+ * Releases such as "1.2.0+abc123" or "web@1.2.0" are used as directory names
+ */
+function encodeRelease(release: string): string {
+  return release.replace(/[^\w.+@-]/g, '_');
+}
@@ -0,0 +1,22 @@
+import type { ErrorReport } from '../monitor';
+import type { EventProcessor } from '../processors';
+import type { SourceMapResolver } from './resolver';
+import { parseStack } from '../utils/stackParser';
+
+/**
+ * Event processor that replaces `report.frames` with source-mapped frames
+ */
+export const createSourceMapProcessor = (
+  getResolver: (report: ErrorReport) => SourceMapResolver | null
+): EventProcessor => ({
+  name: 'sourceMaps',
+  process: async (report: ErrorReport) => {
+    const resolver = getResolver(report);
+    if (!resolver) return report;
+
+    const frames = report.frames || parseStack(report.stack);
+    if (frames.length === 0) return report;
+
+    return { ...report, frames: await resolver.resolveFrames(frames) };
+  },
+});
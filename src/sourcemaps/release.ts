@@ -0,0 +1,35 @@
+/**
+ * Release identifier shared by `wingman upload-sourcemaps` and createInlineConfig() so reports
+ * can be matched to the source maps of the build that produced them. Runs git, so it is only
+ * meant for build time; a running monitor uses the configured release.
+ *
+ * Resolution order: explicit value, WINGMAN_RELEASE, then "<package.json version>+<git short SHA>".
+ * Returns undefined when none of them is available (e.g. in a browser without an explicit release).
+ */
+export function resolveRelease(projectPath?: string, explicitRelease?: string): string | undefined {
+  if (explicitRelease) return explicitRelease;
+  if (typeof process === 'undefined' || !process.versions?.node) return undefined;
+  if (process.env.WINGMAN_RELEASE) return process.env.WINGMAN_RELEASE;
+
+  const cwd = projectPath || process.cwd();
+  let version: string | undefined;
+  let sha: string | undefined;
+
+  try {
+    const fs = require('fs');
+    const path = require('path');
+    version = JSON.parse(fs.readFileSync(path.join(cwd, 'package.json'), 'utf8')).version;
+  } catch {
+    // No package.json
+  }
+
+  try {
+    const { execSync } = require('child_process');
+    sha = String(execSync('git rev-parse --short HEAD', { cwd, stdio: ['ignore', 'pipe', 'ignore'] })).trim() || undefined;
+  } catch {
+    // Not a git checkout
+  }
+
+  if (version && sha) return `${version}+${sha}`;
+  return version || sha;
+}
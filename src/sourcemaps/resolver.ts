@@ -0,0 +1,222 @@
+import { SourceMapConsumer } from './sourceMap';
+import { StackFrame, isInAppFile, parseStack } from '../utils/stackParser';
+
+export interface SourceMapResolverOptions {
+  /**
+   * Build output directory containing the bundles and their .map files
+   */
+  directory: string;
+  /**
+   * Number of original source lines included before and after each resolved line
+   * @default 3
+   */
+  contextLines?: number;
+}
+
+interface LoadedMap {
+  consumer: SourceMapConsumer;
+  /**
+   * Directory the map's relative source paths are resolved against
+   */
+  baseDir: string;
+}
+
+const SOURCE_MAPPING_URL = /\/[/*][#@]\s*sourceMappingURL=([^\s*'"]+)\s*(?:\*\/)?\s*$/m;
+
+/**
+ * Strips protocol, host, query and hash from a frame's file so it can be matched against build output
+ */
+function getFilePath(file: string): string {
+  let filePath = file;
+  try {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(file)) {
+      filePath = decodeURIComponent(new URL(file).pathname);
+    }
+  } catch {
+    // Not a URL, treat it as a plain path
+  }
+  return filePath.split(/[?#]/)[0];
+}
+
+/**
+ * Normalizes bundler-specific source names such as "webpack://app/./src/index.ts"
+ */
+function normalizeSourceName(source: string): string {
+  return source
+    .replace(/^webpack:\/\/[^/]*\//, '')
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/\/?/i, '')
+    .replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Resolves minified stack frames to their original positions using local .map files.
+ * Works fully offline against a build output directory (Node.js only).
+ */
+export class SourceMapResolver {
+  private fs: typeof import('fs-extra') = require('fs-extra');
+  private path: typeof import('path') = require('path');
+  private directory: string;
+  private contextLines: number;
+  private maps = new Map<string, Promise<LoadedMap | null>>();
+  private fileIndex: Promise<Map<string, string[]>> | null = null;
+  private sources = new Map<string, Promise<string[] | null>>();
+
+  constructor(options: SourceMapResolverOptions) {
+    this.directory = this.path.resolve(options.directory);
+    this.contextLines = options.contextLines ?? 3;
+  }
+
+  async resolveStack(stack?: string): Promise<StackFrame[]> {
+    return this.resolveFrames(parseStack(stack));
+  }
+
+  async resolveFrames(frames: StackFrame[]): Promise<StackFrame[]> {
+    return Promise.all(frames.map(frame => this.resolveFrame(frame)));
+  }
+
+  /**
+   * Returns the frame with `original` and `context` filled in, or unchanged if no map matches
+   */
+  async resolveFrame(frame: StackFrame): Promise<StackFrame> {
+    if (!frame.line || !frame.column) return frame;
+
+    const loaded = await this.loadMapFor(frame.file);
+    if (!loaded) return frame;
+
+    // Stack columns are 1-based, source map columns are 0-based
+    const position = loaded.consumer.originalPositionFor(frame.line, frame.column - 1);
+    if (!position) return frame;
+
+    const originalFile = normalizeSourceName(position.source);
+    const resolved: StackFrame = {
+      ...frame,
+      // A minified bundle is in-app, but the code it was built from may be a dependency
+      inApp: frame.inApp && isInAppFile(originalFile),
+      original: {
+        file: originalFile,
+        line: position.line,
+        column: position.column + 1,
+        function: position.name || frame.function,
+      },
+    };
+
+    const lines = await this.loadSourceLines(loaded, position.source);
+    if (lines && position.line <= lines.length) {
+      const index = position.line - 1;
+      resolved.context = {
+        pre: lines.slice(Math.max(0, index - this.contextLines), index),
+        line: lines[index],
+        post: lines.slice(index + 1, index + 1 + this.contextLines),
+      };
+    }
+
+    return resolved;
+  }
+
+  private loadMapFor(file: string): Promise<LoadedMap | null> {
+    let loaded = this.maps.get(file);
+    if (!loaded) {
+      loaded = this.findMap(file).catch(() => null);
+      this.maps.set(file, loaded);
+    }
+    return loaded;
+  }
+
+  private async findMap(file: string): Promise<LoadedMap | null> {
+    const bundlePath = await this.findBuildFile(getFilePath(file));
+    if (bundlePath) {
+      const fromComment = await this.readMapFromComment(bundlePath);
+      if (fromComment) return fromComment;
+    }
+
+    const mapPath = await this.findBuildFile(`${getFilePath(file)}.map`);
+    if (!mapPath) return null;
+    return {
+      consumer: SourceMapConsumer.fromJSON(await this.fs.readFile(mapPath, 'utf8')),
+      baseDir: this.path.dirname(mapPath),
+    };
+  }
+
+  private async readMapFromComment(bundlePath: string): Promise<LoadedMap | null> {
+    const content = await this.fs.readFile(bundlePath, 'utf8');
+    const match = SOURCE_MAPPING_URL.exec(content.slice(-4096));
+    if (!match) return null;
+
+    const url = match[1];
+    if (url.startsWith('data:')) {
+      const data = url.slice(url.indexOf(',') + 1);
+      const json = url.includes(';base64,') ? Buffer.from(data, 'base64').toString('utf8') : decodeURIComponent(data);
+      return { consumer: SourceMapConsumer.fromJSON(json), baseDir: this.path.dirname(bundlePath) };
+    }
+
+    const mapPath = this.path.resolve(this.path.dirname(bundlePath), getFilePath(url));
+    if (!await this.fs.pathExists(mapPath)) return null;
+    return {
+      consumer: SourceMapConsumer.fromJSON(await this.fs.readFile(mapPath, 'utf8')),
+      baseDir: this.path.dirname(mapPath),
+    };
+  }
+
+  /**
+   * Finds a file in the build directory by its path suffix, preferring the longest matching suffix
+   */
+  private async findBuildFile(filePath: string): Promise<string | null> {
+    const segments = filePath.split(/[\\/]/).filter(Boolean);
+    if (segments.length === 0) return null;
+
+    for (let i = 0; i < segments.length; i++) {
+      const candidate = this.path.join(this.directory, ...segments.slice(i));
+      if (candidate.startsWith(this.directory) && await this.fs.pathExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    const index = await this.getFileIndex();
+    const matches = index.get(segments[segments.length - 1]) || [];
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  private getFileIndex(): Promise<Map<string, string[]>> {
+    if (!this.fileIndex) {
+      this.fileIndex = this.indexDirectory(this.directory, new Map());
+    }
+    return this.fileIndex;
+  }
+
+  private async indexDirectory(dir: string, index: Map<string, string[]>): Promise<Map<string, string[]>> {
+    const entries = await this.fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = this.path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== 'node_modules') {
+          await this.indexDirectory(entryPath, index);
+        }
+      } else if (/\.(m?js|cjs|map)$/.test(entry.name)) {
+        index.set(entry.name, [...(index.get(entry.name) || []), entryPath]);
+      }
+    }
+    return index;
+  }
+
+  private loadSourceLines(loaded: LoadedMap, source: string): Promise<string[] | null> {
+    const key = `${loaded.baseDir}\0${source}`;
+    let lines = this.sources.get(key);
+    if (!lines) {
+      lines = this.readSource(loaded, source).then(content => content === null ? null : content.split(/\r?\n/));
+      this.sources.set(key, lines);
+    }
+    return lines;
+  }
+
+  private async readSource(loaded: LoadedMap, source: string): Promise<string | null> {
+    const embedded = loaded.consumer.sourceContentFor(source);
+    if (embedded !== null) return embedded;
+
+    const sourcePath = this.path.resolve(loaded.baseDir, loaded.consumer.map.sourceRoot || '', normalizeSourceName(source));
+    try {
+      return await this.fs.readFile(sourcePath, 'utf8');
+    } catch {
+      return null;
+    }
+  }
+}
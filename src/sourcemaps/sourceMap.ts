@@ -0,0 +1,174 @@
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES: Record<string, number> = {};
+BASE64_CHARS.split('').forEach((char, index) => { BASE64_VALUES[char] = index; });
+
+/**
+ * Raw source map as described by the Source Map Revision 3 proposal
+ */
+export interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent?: Array<string | null>;
+  names?: string[];
+  mappings: string;
+}
+
+export interface OriginalPosition {
+  source: string;
+  /**
+   * 1-based line in the original source
+   */
+  line: number;
+  /**
+   * 0-based column in the original source
+   */
+  column: number;
+  name?: string;
+}
+
+interface Segment {
+  generatedColumn: number;
+  sourceIndex?: number;
+  originalLine?: number;
+  originalColumn?: number;
+  nameIndex?: number;
+}
+
+/**
+ * Decodes one base64 VLQ-encoded segment into its numeric fields
+ */
+export function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES[char];
+    if (digit === undefined) {
+      throw new Error(`Invalid base64 VLQ character "${char}"`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const negative = value & 1;
+      value >>>= 1;
+      values.push(negative ? -value : value);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Looks up original positions in a parsed source map
+ */
+export class SourceMapConsumer {
+  private lines: Segment[][] = [];
+
+  constructor(public readonly map: RawSourceMap) {
+    if (map.version !== 3) {
+      throw new Error(`Unsupported source map version ${map.version}`);
+    }
+    this.decodeMappings();
+  }
+
+  static fromJSON(json: string): SourceMapConsumer {
+    return new SourceMapConsumer(JSON.parse(json));
+  }
+
+  /**
+   * Number of generated lines up to the last one that has mappings
+   */
+  get lineCount(): number {
+    for (let i = this.lines.length - 1; i >= 0; i--) {
+      if (this.lines[i]?.length) return i + 1;
+    }
+    return 0;
+  }
+
+  /**
+   * @param line 1-based generated line
+   * @param column 0-based generated column
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+
+    // Last segment starting at or before the column
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid].generatedColumn <= column) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (found === -1) return null;
+
+    const segment = segments[found];
+    if (segment.sourceIndex === undefined || segment.originalLine === undefined) {
+      return null;
+    }
+
+    return {
+      source: this.map.sources[segment.sourceIndex],
+      line: segment.originalLine + 1,
+      column: segment.originalColumn ?? 0,
+      name: segment.nameIndex !== undefined ? this.map.names?.[segment.nameIndex] : undefined,
+    };
+  }
+
+  /**
+   * Embedded content of an original source, if the map carries sourcesContent
+   */
+  sourceContentFor(source: string): string | null {
+    const index = this.map.sources.indexOf(source);
+    if (index === -1) return null;
+    return this.map.sourcesContent?.[index] ?? null;
+  }
+
+  private decodeMappings(): void {
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let nameIndex = 0;
+
+    this.lines = this.map.mappings.split(';').map(line => {
+      let generatedColumn = 0;
+      const segments: Segment[] = [];
+
+      for (const encoded of line.split(',')) {
+        if (!encoded) continue;
+        const fields = decodeVlq(encoded);
+
+        generatedColumn += fields[0];
+        const segment: Segment = { generatedColumn };
+        if (fields.length >= 4) {
+          sourceIndex += fields[1];
+          originalLine += fields[2];
+          originalColumn += fields[3];
+          segment.sourceIndex = sourceIndex;
+          segment.originalLine = originalLine;
+          segment.originalColumn = originalColumn;
+        }
+        if (fields.length >= 5) {
+          nameIndex += fields[4];
+          segment.nameIndex = nameIndex;
+        }
+        segments.push(segment);
+      }
+
+      return segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+    });
+  }
+}
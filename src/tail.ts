@@ -0,0 +1,235 @@
+import * as http from 'http';
+import chalk from 'chalk';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import type { Breadcrumb } from './breadcrumbs';
+import type { ErrorReport } from './monitor';
+import type { WingmanPayload } from './transports/types';
+import { StackFrame, parseStack } from './utils/stackParser';
+import { SIGNATURE_HEADER } from './signing';
+import { MemoryNonceStore, verifyWingmanSignature } from './verifySignature';
+
+export interface TailServerOptions {
+  /**
+   * Token expected in the Authorization header (or `data.accessToken` for beacons), or used
+   * to verify signed requests. Every request is accepted when it is not set.
+   */
+  accessToken?: string;
+  /**
+   * Reject requests that are not signed with the access token
+   * @default false
+   */
+  requireSignature?: boolean;
+  /**
+   * Returned from the wingman.init handshake
+   */
+  projectId: string;
+  /**
+   * NDJSON file every accepted payload is appended to
+   */
+  output?: string;
+  /**
+   * Print every stack frame instead of only the in-app ones
+   */
+  fullStacks?: boolean;
+  /**
+   * Receives the formatted output
+   * @default console.log
+   */
+  log?: (line: string) => void;
+}
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const COLLAPSED_FRAMES = 5;
+
+const SEVERITY_STYLES: Record<ErrorReport['severity'], chalk.Chalk> = {
+  critical: chalk.bgRed.white.bold,
+  high: chalk.red.bold,
+  medium: chalk.yellow.bold,
+  low: chalk.cyan,
+};
+
+const BREADCRUMB_LEVEL_STYLES: Record<Breadcrumb['level'], chalk.Chalk> = {
+  error: chalk.red,
+  warning: chalk.yellow,
+  info: chalk.white,
+  debug: chalk.gray,
+};
+
+function formatTime(timestamp?: number): string {
+  return new Date(timestamp || Date.now()).toISOString().slice(11, 23);
+}
+
+function formatFrame(frame: StackFrame): string {
+  const location = frame.original || frame;
+  const name = location.function || frame.function || '<anonymous>';
+  const position = location.line ? `${location.file}:${location.line}:${location.column ?? ''}`.replace(/:$/, '') : location.file;
+  return `at ${name} (${position})`;
+}
+
+/**
+ * Formats one report as colored, multi-line terminal output
+ */
+export function formatReport(report: Partial<ErrorReport>, fullStacks = false): string {
+  const severity = report.severity || 'medium';
+  const style = SEVERITY_STYLES[severity] || chalk.white;
+  const [firstLine] = String(report.message ?? '').split('\n');
+  const lines: string[] = [];
+
+  const occurrences = report.occurrences && report.occurrences > 1 ? chalk.magenta(` ×${report.occurrences}`) : '';
+  lines.push(`${chalk.gray(formatTime(report.timestamp))} ${style(` ${severity.toUpperCase()} `)} ${chalk.bold(report.errorType || 'error')} ${firstLine}${occurrences}`);
+
+  const details = [report.environment, report.release && `release ${report.release}`, report.fingerprint && `fingerprint ${report.fingerprint}`]
+    .filter(Boolean)
+    .join(' · ');
+  if (details) lines.push(chalk.gray(`  ${details}`));
+
+  const frames = report.frames || parseStack(report.stack);
+  const inAppFrames = frames.filter(frame => frame.inApp);
+  const shown = fullStacks ? frames : (inAppFrames.length > 0 ? inAppFrames : frames).slice(0, COLLAPSED_FRAMES);
+  shown.forEach(frame => lines.push((frame.inApp ? chalk.white : chalk.gray)(`    ${formatFrame(frame)}`)));
+  if (shown.length < frames.length) {
+    lines.push(chalk.gray(`    … ${frames.length - shown.length} more frame(s) hidden, use --full to show them`));
+  }
+
+  if (report.breadcrumbs && report.breadcrumbs.length > 0) {
+    lines.push(chalk.gray('  Breadcrumbs:'));
+    for (const breadcrumb of report.breadcrumbs) {
+      const levelStyle = BREADCRUMB_LEVEL_STYLES[breadcrumb.level] || chalk.white;
+      lines.push(`    ${chalk.gray(formatTime(breadcrumb.timestamp))} ${chalk.blue(breadcrumb.category.padEnd(10))} ${levelStyle(breadcrumb.message)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: Record<string, any>): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Local HTTP server implementing the webhook contract for development (`wingman tail`).
+ * Handles wingman.init, error.runtime, error.batch and sourcemaps.upload events.
+ */
+export function createTailServer(options: TailServerOptions): http.Server {
+  const log = options.log || ((line: string) => console.log(line));
+
+  const nonceStore = new MemoryNonceStore();
+
+  // Returns why the request was rejected, or null when it is authorized
+  const authorize = (req: http.IncomingMessage, body: string, payload: WingmanPayload): string | null => {
+    if (!options.accessToken) return null;
+
+    if (req.headers[SIGNATURE_HEADER]) {
+      const result = verifyWingmanSignature({ body, headers: req.headers, secret: options.accessToken, nonceStore });
+      return result.valid ? null : `signature ${result.reason}`;
+    }
+    if (options.requireSignature) return 'request is not signed';
+
+    const header = req.headers.authorization;
+    const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : payload.data?.accessToken;
+    return token === options.accessToken ? null : 'invalid access token';
+  };
+
+  const persist = async (payload: WingmanPayload): Promise<void> => {
+    if (!options.output) return;
+    await fs.ensureDir(path.dirname(path.resolve(options.output)));
+    await fs.appendFile(options.output, JSON.stringify(payload) + '\n', 'utf8');
+  };
+
+  return http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Wingman-Signature, X-Wingman-Timestamp, X-Wingman-Nonce, X-Wingman-Project-Id',
+      });
+      res.end();
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    let body: string;
+    let payload: WingmanPayload;
+    try {
+      body = await readBody(req);
+      payload = JSON.parse(body);
+    } catch (error) {
+      sendJson(res, 400, { error: error instanceof Error ? error.message : 'Invalid JSON' });
+      return;
+    }
+
+    if (!payload || typeof payload.event !== 'string') {
+      sendJson(res, 400, { error: 'Missing "event"' });
+      return;
+    }
+
+    const rejection = authorize(req, body, payload);
+    if (rejection) {
+      log(chalk.red(`${formatTime()} ✗ Rejected ${payload.event}: ${rejection}`));
+      sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      switch (payload.event) {
+        case 'wingman.init':
+          log(chalk.green(`${formatTime()} ✓ wingman.init from ${payload.data?.environment || 'unknown'} environment`));
+          sendJson(res, 200, { success: true, projectId: options.projectId });
+          break;
+        case 'error.runtime':
+          log(formatReport(payload.data, options.fullStacks) + '\n');
+          sendJson(res, 200, { success: true });
+          break;
+        case 'error.batch': {
+          const reports: Partial<ErrorReport>[] = payload.data?.reports || [];
+          log(chalk.gray(`${formatTime()} batch of ${reports.length} report(s)`));
+          reports.forEach(report => log(formatReport(report, options.fullStacks) + '\n'));
+          sendJson(res, 200, { success: true, count: reports.length });
+          break;
+        }
+        case 'sourcemaps.upload':
+          log(chalk.green(`${formatTime()} ✓ ${payload.data?.files?.length ?? 0} source map(s) for release ${payload.data?.release}`));
+          sendJson(res, 200, { success: true });
+          break;
+        default:
+          log(chalk.yellow(`${formatTime()} ? Unknown event ${payload.event}`));
+          sendJson(res, 400, { error: `Unknown event "${payload.event}"` });
+          return;
+      }
+
+      await persist(payload);
+    } catch (error) {
+      log(chalk.red(`${formatTime()} ✗ Failed to handle ${payload.event}: ${error instanceof Error ? error.message : String(error)}`));
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal error' });
+      }
+    }
+  });
+}
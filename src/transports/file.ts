@@ -0,0 +1,24 @@
+import { Transport, WingmanPayload } from './types';
+
+export interface FileTransportOptions {
+  /**
+   * Absolute path of the NDJSON file payloads are appended to
+   */
+  path: string;
+}
+
+/**
+ * Appends every payload as one JSON line to a local file (Node.js only)
+ */
+export class FileTransport implements Transport {
+  readonly name = 'file';
+
+  constructor(private options: FileTransportOptions) {}
+
+  async send(payload: WingmanPayload): Promise<void> {
+    const fs = require('fs-extra');
+    const path = require('path');
+    await fs.ensureDir(path.dirname(this.options.path));
+    await fs.appendFile(this.options.path, JSON.stringify(payload) + '\n', 'utf8');
+  }
+}
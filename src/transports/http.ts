@@ -0,0 +1,53 @@
+import axios from 'axios';
+import { Transport, WingmanPayload } from './types';
+
+export interface HttpTransportOptions {
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+/**
+ * Posts payloads as JSON to any HTTP collector
+ */
+export class HttpTransport implements Transport {
+  readonly name: string = 'http';
+
+  constructor(protected options: HttpTransportOptions) {}
+
+  get endpoint(): string {
+    return this.options.url;
+  }
+
+  async send(payload: WingmanPayload): Promise<void> {
+    await this.post(JSON.stringify(payload));
+  }
+
+  /**
+   * Posts an already serialized body, so signed bytes are sent exactly as signed
+   */
+  protected async post(body: string, headers: Record<string, string> = {}): Promise<void> {
+    await axios.post(this.options.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Wingman-Monitor/1.0.0',
+        ...this.options.headers,
+        ...headers
+      },
+      timeout: this.options.timeoutMs ?? 5000,
+      // Keep axios from re-serializing the body
+      transformRequest: [(data: string) => data]
+    });
+  }
+
+  sendBeacon(payload: WingmanPayload): boolean {
+    // sendBeacon cannot set headers, so collectors that need them only get the queued retry
+    if (this.options.headers && Object.keys(this.options.headers).length > 0) {
+      return false;
+    }
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+      return false;
+    }
+    return navigator.sendBeacon(this.options.url, new Blob([JSON.stringify(payload)], { type: 'application/json' }));
+  }
+}
@@ -0,0 +1,49 @@
+import { HttpTransport } from './http';
+import { StdoutTransport } from './stdout';
+import { Transport, TransportConfig } from './types';
+import { WebhookTransport } from './webhook';
+import { getPlatform } from '../platform';
+
+export { HttpTransport, type HttpTransportOptions } from './http';
+export { StdoutTransport } from './stdout';
+export { WebhookTransport, type WebhookTransportOptions } from './webhook';
+export type { Transport, TransportConfig, WingmanPayload } from './types';
+
+/**
+ * Creates the transport selected by the `transport` section of WingmanConfig
+ */
+export function createTransport(
+  config: TransportConfig = {},
+  context: { accessToken: string; projectPath?: string; projectId?: string }
+): Transport {
+  switch (config.type ?? 'webhook') {
+    case 'webhook':
+      return new WebhookTransport({
+        accessToken: context.accessToken,
+        url: config.url,
+        timeoutMs: config.timeoutMs,
+        signing: config.signing,
+        projectId: context.projectId
+      });
+    case 'http':
+      if (!config.url) {
+        throw new Error('Wingman: The http transport requires a "url"');
+      }
+      return new HttpTransport({
+        url: config.url,
+        headers: config.headers,
+        timeoutMs: config.timeoutMs
+      });
+    case 'file': {
+      const platform = getPlatform();
+      if (!platform.createFileTransport) {
+        throw new Error('Wingman: The file transport is only available in Node.js');
+      }
+      return platform.createFileTransport(config.path, context.projectPath);
+    }
+    case 'stdout':
+      return new StdoutTransport();
+    default:
+      throw new Error(`Wingman: Unknown transport type "${config.type}"`);
+  }
+}
@@ -0,0 +1,19 @@
+import { Transport, WingmanPayload } from './types';
+
+/**
+ * Writes every payload as one JSON line to stdout, for containers whose logs are shipped elsewhere
+ */
+export class StdoutTransport implements Transport {
+  readonly name = 'stdout';
+
+  async send(payload: WingmanPayload): Promise<void> {
+    const line = JSON.stringify(payload);
+
+    // Write around the console so the monitor's console capture never sees its own output
+    if (typeof process !== 'undefined' && process.stdout?.write) {
+      process.stdout.write(line + '\n');
+      return;
+    }
+    console.log(line);
+  }
+}
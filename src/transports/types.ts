@@ -0,0 +1,58 @@
+/**
+ * Envelope posted to transports, e.g. { event: 'error.runtime', data: {...} }
+ */
+export interface WingmanPayload {
+  event: string;
+  data: Record<string, any>;
+  timestamp: number;
+  source: string;
+}
+
+export interface Transport {
+  readonly name: string;
+  /**
+   * URL the transport posts to, so HTTP instrumentation can skip the monitor's own requests
+   */
+  readonly endpoint?: string;
+  /**
+   * Delivers a payload, rejecting if it could not be delivered so the queue can retry it
+   */
+  send(payload: WingmanPayload): Promise<void>;
+  /**
+   * Best-effort fire-and-forget delivery while a page is unloading.
+   * Returns false when the payload could not be handed off.
+   */
+  sendBeacon?(payload: WingmanPayload): boolean;
+}
+
+export interface TransportConfig {
+  /**
+   * @default 'webhook'
+   */
+  type?: 'webhook' | 'http' | 'file' | 'stdout';
+  /**
+   * Endpoint for the webhook and http transports.
+   * The webhook transport falls back to WINGMAN_WEBHOOK_URL and the hosted endpoint.
+   */
+  url?: string;
+  /**
+   * Sign webhook payloads with HMAC-SHA256, keyed by the access token, instead of sending
+   * the token in the Authorization header and payload body
+   * @default false
+   */
+  signing?: boolean;
+  /**
+   * Extra request headers for the http transport
+   */
+  headers?: Record<string, string>;
+  /**
+   * Request timeout for the webhook and http transports
+   * @default 5000
+   */
+  timeoutMs?: number;
+  /**
+   * NDJSON output file for the file transport, relative to the project path
+   * @default 'wingman-errors.ndjson'
+   */
+  path?: string;
+}
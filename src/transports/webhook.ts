@@ -0,0 +1,77 @@
+import { resolveWebhookUrl } from '../config';
+import { PROJECT_HEADER, signPayload } from '../signing';
+import { HttpTransport } from './http';
+import { WingmanPayload } from './types';
+
+export interface WebhookTransportOptions {
+  accessToken: string;
+  url?: string;
+  timeoutMs?: number;
+  /**
+   * Sign payloads with an HMAC of the access token instead of sending the token
+   * @default false
+   */
+  signing?: boolean;
+  /**
+   * Sent in a header with signed payloads so the receiver can look up the project's token
+   */
+  projectId?: string;
+}
+
+function withoutToken(data: Record<string, any>): Record<string, any> {
+  const copy = { ...data };
+  delete copy.accessToken;
+  return copy;
+}
+
+/**
+ * Posts payloads to the Wingman webhook, authenticated with the access token or, in signing mode,
+ * with an HMAC-SHA256 signature that keeps the token out of the request
+ */
+export class WebhookTransport extends HttpTransport {
+  readonly name: string = 'webhook';
+  private accessToken: string;
+  private signing: boolean;
+  private projectId?: string;
+
+  constructor(options: WebhookTransportOptions) {
+    super({
+      url: resolveWebhookUrl(options.url),
+      headers: options.signing ? {} : { 'Authorization': `Bearer ${options.accessToken}` },
+      timeoutMs: options.timeoutMs
+    });
+    this.accessToken = options.accessToken;
+    this.signing = options.signing === true;
+    this.projectId = options.projectId;
+  }
+
+  async send(payload: WingmanPayload): Promise<void> {
+    if (!this.signing) {
+      return super.send(payload);
+    }
+
+    // Payloads queued by earlier runs may still carry the token
+    const data = withoutToken(payload.data || {});
+    if (Array.isArray(data.reports)) {
+      data.reports = data.reports.map(withoutToken);
+    }
+    const body = JSON.stringify({ ...payload, data });
+    const headers: Record<string, string> = { ...await signPayload(body, this.accessToken) };
+    if (this.projectId) {
+      headers[PROJECT_HEADER] = this.projectId;
+    }
+    await this.post(body, headers);
+  }
+
+  sendBeacon(payload: WingmanPayload): boolean {
+    // Beacons cannot carry the signature headers; signed payloads wait in the queue instead
+    if (this.signing) {
+      return false;
+    }
+    // The webhook accepts the access token from the payload body when the header is missing
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+      return false;
+    }
+    return navigator.sendBeacon(this.options.url, new Blob([JSON.stringify(payload)], { type: 'application/json' }));
+  }
+}
@@ -1,28 +1,53 @@
+import type { EventProcessor } from '../processors'
+import type { ErrorReport } from '../monitor'
+
 /**
- * Determines whether an error should be reported based on environment and error characteristics
+ * Metadata of the report the error belongs to, e.g. the failed request's status
+ */
+type ErrorFilterContext = ErrorReport['metadata']
+
+type ErrorFilter = (error: Error, context?: ErrorFilterContext) => boolean
+
+/**
+ * Built-in filters, each returning false for errors that should not be reported
  */
-export const shouldReportError = (error: Error, context?: any): boolean => {
+export const defaultErrorFilters: Record<string, ErrorFilter> = {
   // Don't report errors in development
-  if (process.env.NODE_ENV === 'development') {
-    return false
-  }
+  developmentFilter: () => process.env.NODE_ENV !== 'development',
 
   // Filter out known browser extension errors
-  if (error.message.includes('chrome-extension://')) {
-    return false
-  }
+  browserExtensionFilter: (error) => !error.message.includes('chrome-extension://'),
 
   // Filter out network errors that might be user-related
-  if (error.message.includes('Failed to fetch') && context?.status === 0) {
-    return false
-  }
+  networkErrorFilter: (error, context) => !(error.message.includes('Failed to fetch') && context?.status === 0),
 
   // Filter out script loading errors from ad blockers
-  if (error.message.includes('Script error')) {
-    return false
-  }
+  scriptErrorFilter: (error) => !error.message.includes('Script error'),
+}
 
-  return true
+/**
+ * Determines whether an error should be reported based on environment and error characteristics
+ */
+export const shouldReportError = (error: Error, context?: ErrorFilterContext): boolean => {
+  return Object.values(defaultErrorFilters).every(filter => filter(error, context))
+}
+
+/**
+ * Wraps an error filter as an event processor that drops reports the filter rejects
+ */
+export const createFilterProcessor = (name: string, filter: ErrorFilter): EventProcessor => ({
+  name,
+  process: (report, hint) => {
+    const error = hint.error instanceof Error ? hint.error : new Error(hint.originalMessage)
+    return filter(error, report.metadata) ? report : null
+  },
+})
+
+/**
+ * The built-in filters as named event processors, in the order they run
+ */
+export const createDefaultProcessors = (): EventProcessor[] => {
+  return Object.entries(defaultErrorFilters).map(([name, filter]) => createFilterProcessor(name, filter))
 }
 
 /**
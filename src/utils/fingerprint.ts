@@ -0,0 +1,58 @@
+import { StackFrame, parseStack } from './stackParser'
+
+const MAX_FINGERPRINT_FRAMES = 5
+
+/**
+ * Reduces a message to its template by stripping values that vary between occurrences
+ */
+export const normalizeMessage = (message: string): string => {
+  return message
+    .replace(/[a-z][a-z0-9+.-]*:\/\/[^\s'"`)]+/gi, '<url>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\b[0-9a-f]{16,}\b/gi, '<hex>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Reduces frames to "function file" without line/column numbers, query strings or host names.
+ * Only in-app frames are used when there are any, so dependency upgrades do not split groups.
+ */
+export const normalizeStack = (stack?: string | StackFrame[]): string[] => {
+  const frames = typeof stack === 'string' || stack === undefined ? parseStack(stack) : stack
+  const inAppFrames = frames.filter(frame => frame.inApp)
+
+  return (inAppFrames.length > 0 ? inAppFrames : frames)
+    .slice(0, MAX_FINGERPRINT_FRAMES)
+    .map(frame => {
+      const file = frame.file
+        .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '')
+        .replace(/[?#].*$/, '')
+      return `${frame.function || '<anonymous>'} ${file}`
+    })
+}
+
+/**
+ * 53-bit string hash (cyrb53), used because Node crypto is unavailable in browsers
+ */
+const hashString = (input: string): string => {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0')
+}
+
+/**
+ * Computes a stable fingerprint from the error type, message template and normalized stack frames
+ */
+export const computeFingerprint = (errorType: string, message: string, stack?: string | StackFrame[]): string => {
+  return hashString([errorType, normalizeMessage(message), ...normalizeStack(stack)].join('\n'))
+}
@@ -0,0 +1,42 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+
+function git(projectPath: string, args: string[]): string | null {
+  try {
+    return execFileSync('git', args, { cwd: projectPath, stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the file is committed to (or staged in) the git repository containing projectPath
+ */
+export function isTrackedByGit(projectPath: string, file: string): boolean {
+  return git(projectPath, ['ls-files', '--error-unmatch', file]) !== null;
+}
+
+/**
+ * Adds an entry to the project's .gitignore unless git already ignores it. Creates .gitignore
+ * inside git repositories only. Returns true when the file was changed.
+ */
+export async function ensureGitignored(projectPath: string, entry: string): Promise<boolean> {
+  const gitignorePath = path.join(projectPath, '.gitignore');
+  const insideRepository = git(projectPath, ['rev-parse', '--is-inside-work-tree']) === 'true';
+
+  if (insideRepository && git(projectPath, ['check-ignore', '-q', '--no-index', entry]) !== null) {
+    return false;
+  }
+
+  const exists = await fs.pathExists(gitignorePath);
+  if (!exists && !insideRepository) return false;
+
+  const content = exists ? await fs.readFile(gitignorePath, 'utf8') : '';
+  if (content.split(/\r?\n/).some(line => line.trim() === entry || line.trim() === `/${entry}`)) {
+    return false;
+  }
+  const separator = content.length > 0 && !content.endsWith('\n') ? '\n' : '';
+  await fs.writeFile(gitignorePath, `${content}${separator}${entry}\n`, 'utf8');
+  return true;
+}
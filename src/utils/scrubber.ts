@@ -0,0 +1,264 @@
+import type { ErrorReport } from '../monitor'
+import type { EventProcessor } from '../processors'
+
+export type ScrubbingDetector = 'email' | 'bearerToken' | 'jwt' | 'creditCard' | 'ipAddress' | 'secretKeys'
+
+export interface ScrubbingRule {
+  /**
+   * Regular expression source, e.g. "acct_[0-9]+"
+   */
+  pattern: string
+  /**
+   * Regular expression flags; "g" is always added
+   * @default 'gi'
+   */
+  flags?: string
+  replacement?: string
+}
+
+export interface ScrubbingOptions {
+  /**
+   * @default true
+   */
+  enabled?: boolean
+  /**
+   * Turns individual built-in detectors off, e.g. { ipAddress: false }
+   */
+  detectors?: Partial<Record<ScrubbingDetector, boolean>>
+  /**
+   * Additional patterns replaced in every string
+   */
+  rules?: ScrubbingRule[]
+  /**
+   * Additional key names (case-insensitive) whose values are always redacted
+   */
+  keys?: string[]
+  /**
+   * Dot-separated paths into the report whose values are redacted, "*" matches any key,
+   * e.g. "metadata.user.address" or "metadata.args.*"
+   */
+  keyPaths?: string[]
+  /**
+   * @default '[Filtered]'
+   */
+  replacement?: string
+}
+
+const DEFAULT_REPLACEMENT = '[Filtered]'
+const MAX_DEPTH = 10
+
+// Key words whose values are secret wherever they appear, e.g. "db_password" or "passwordConfirmation".
+// Two adjacent words are also joined, so "api_key", "apiKey" and "APIKey" all match "apikey".
+const SECRET_KEY_WORDS = new Set(['password', 'passwd', 'secret', 'secrets', 'apikey', 'credential', 'credentials', 'cookie', 'cookies', 'sessionid', 'privatekey', 'cardnumber', 'cvv', 'ssn'])
+// Key words that only name a secret as the last word: "accessToken" and "db_pass" but not "tokenCount" or "passCount"
+const TRAILING_SECRET_KEY_WORDS = new Set(['pass', 'token', 'tokens', 'auth', 'authorization'])
+
+/**
+ * Splits a key into lower-case words at camelCase, snake_case and kebab-case boundaries,
+ * e.g. "X-CSRF-Token" and "csrfToken" both end in "token"
+ */
+function splitKey(key: string): string[] {
+  return key
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z\d]+/)
+    .filter(Boolean)
+}
+
+/**
+ * Whether a key names a secret, matched on whole words so "compass", "passenger" and "bypass" are kept
+ */
+function isSecretKey(key: string): boolean {
+  const words = splitKey(key)
+  const last = words.length - 1
+  return words.some((word, i) => SECRET_KEY_WORDS.has(word) || (i < last && SECRET_KEY_WORDS.has(word + words[i + 1])))
+    || TRAILING_SECRET_KEY_WORDS.has(words[last])
+}
+
+interface Detector {
+  name: ScrubbingDetector
+  pattern: RegExp
+  /**
+   * Builds the String.replace callback; defaults to replacing the whole match
+   */
+  replacer?: (replacement: string) => (match: string, ...groups: string[]) => string
+}
+
+const STRING_DETECTORS: Detector[] = [
+  {
+    name: 'bearerToken',
+    pattern: /\b(bearer|basic)\s+[a-z0-9._~+/=-]{8,}/gi,
+    replacer: replacement => (_match, scheme) => `${scheme} ${replacement}`,
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[a-z0-9_-]+\.[a-z0-9_-]+\.[a-z0-9_-]+/gi,
+  },
+  {
+    name: 'email',
+    pattern: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi,
+  },
+  {
+    name: 'creditCard',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    replacer: replacement => match => isCardNumber(match.replace(/\D/g, '')) ? replacement : match,
+  },
+  {
+    // The IPv4 address must not be part of a dotted version such as "v1.2.3.4", "pkg@1.2.3.4" or "1.2.3.4.5".
+    // The preceding character is captured instead of using a lookbehind, which older Safari cannot parse.
+    name: 'ipAddress',
+    pattern: /(^|[^\w.@])(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)(?!\w|\.\d)|\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi,
+    replacer: replacement => (_match, prefix) => `${prefix ?? ''}${replacement}`,
+  },
+  {
+    // key=value and "key": "value" pairs inside free text, e.g. "password=hunter2"; the pattern finds
+    // candidates and isSecretKey() decides, so "compass: north" is kept
+    name: 'secretKeys',
+    pattern: /(["']?([\w-]*(?:pass|secret|token|api[-_]?key)[\w-]*)["']?\s*[:=]\s*["']?)[^\s"',;&}]+/gi,
+    replacer: replacement => (match, prefix, key) => isSecretKey(key) ? `${prefix}${replacement}` : match,
+  },
+]
+
+// Issuer prefixes of Visa, Mastercard, American Express, Diners Club, Discover, JCB and UnionPay.
+// Without them about one in ten 13-digit timestamps or numeric IDs would pass the Luhn check.
+const CARD_PREFIX = /^(?:4|5[1-5]|2(?:22[1-9]|2[3-9]\d|[3-6]\d\d|7[01]\d|720)|3[47]|3(?:0[0-5]|[68])|6(?:011|5|4[4-9]|2)|35)/
+
+function isCardNumber(digits: string): boolean {
+  return CARD_PREFIX.test(digits) && passesLuhn(digits)
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  let double = false
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i])
+    if (double) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+    double = !double
+  }
+  return digits.length >= 13 && sum % 10 === 0
+}
+
+/**
+ * Redacts PII and secrets from strings and nested values before they leave the process
+ */
+export class Scrubber {
+  private replacement: string
+  private detectors: Detector[]
+  private rules: Array<{ pattern: RegExp, replacement: string }>
+  private keys: Set<string>
+  private keyPaths: string[][]
+  private enabled: boolean
+  private scrubSecretKeys: boolean
+
+  constructor(options: ScrubbingOptions = {}) {
+    this.enabled = options.enabled !== false
+    this.replacement = options.replacement ?? DEFAULT_REPLACEMENT
+    this.detectors = STRING_DETECTORS.filter(detector => options.detectors?.[detector.name] !== false)
+    this.scrubSecretKeys = options.detectors?.secretKeys !== false
+    this.rules = (options.rules || []).map(rule => {
+      const flags = rule.flags ?? 'gi'
+      return {
+        pattern: new RegExp(rule.pattern, flags.includes('g') ? flags : `${flags}g`),
+        replacement: rule.replacement ?? this.replacement,
+      }
+    })
+    this.keys = new Set((options.keys || []).map(key => key.toLowerCase()))
+    this.keyPaths = (options.keyPaths || []).map(keyPath => keyPath.split('.'))
+  }
+
+  scrubString(value: string): string {
+    if (!this.enabled || !value) return value
+
+    let result = value
+    for (const detector of this.detectors) {
+      result = detector.replacer
+        ? result.replace(detector.pattern, detector.replacer(this.replacement))
+        : result.replace(detector.pattern, this.replacement)
+    }
+    for (const rule of this.rules) {
+      result = result.replace(rule.pattern, rule.replacement)
+    }
+    return result
+  }
+
+  /**
+   * Returns a scrubbed deep copy of a value; `path` is the value's location used for keyPaths
+   */
+  scrubValue<T>(value: T, path: string[] = []): T {
+    if (!this.enabled) return value
+    return this.scrubNested(value, path, new WeakSet(), 0) as T
+  }
+
+  scrubReport(report: ErrorReport): ErrorReport {
+    if (!this.enabled) return report
+
+    return {
+      ...report,
+      message: this.scrubString(report.message),
+      stack: report.stack ? this.scrubString(report.stack) : report.stack,
+      frames: report.frames ? this.scrubValue(report.frames, ['frames']) : report.frames,
+      metadata: report.metadata ? this.scrubValue(report.metadata, ['metadata']) : report.metadata,
+      user: report.user ? this.scrubValue(report.user, ['user']) : report.user,
+      tags: report.tags ? this.scrubValue(report.tags, ['tags']) : report.tags,
+      contexts: report.contexts ? this.scrubValue(report.contexts, ['contexts']) : report.contexts,
+      breadcrumbs: report.breadcrumbs ? this.scrubValue(report.breadcrumbs, ['breadcrumbs']) : report.breadcrumbs,
+    }
+  }
+
+  private scrubNested(value: unknown, path: string[], seen: WeakSet<object>, depth: number): unknown {
+    if (typeof value === 'string') return this.scrubString(value)
+    if (value === null || typeof value !== 'object') return value
+    if (depth >= MAX_DEPTH) return '[Truncated]'
+    if (seen.has(value)) return '[Circular Object]'
+    seen.add(value)
+
+    if (value instanceof Error) {
+      return {
+        name: value.name,
+        message: this.scrubString(value.message),
+        stack: value.stack ? this.scrubString(value.stack) : undefined,
+      }
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.redactOrScrub(String(index), item, path, seen, depth))
+    }
+
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = this.redactOrScrub(key, item, path, seen, depth)
+    }
+    return result
+  }
+
+  private redactOrScrub(key: string, item: unknown, path: string[], seen: WeakSet<object>, depth: number): unknown {
+    const itemPath = [...path, key]
+    if (this.isSensitiveKey(key) || this.matchesKeyPath(itemPath)) {
+      return this.replacement
+    }
+    return this.scrubNested(item, itemPath, seen, depth + 1)
+  }
+
+  private isSensitiveKey(key: string): boolean {
+    return this.keys.has(key.toLowerCase()) || (this.scrubSecretKeys && isSecretKey(key))
+  }
+
+  private matchesKeyPath(path: string[]): boolean {
+    return this.keyPaths.some(keyPath =>
+      keyPath.length === path.length && keyPath.every((segment, i) => segment === '*' || segment === path[i])
+    )
+  }
+}
+
+/**
+ * Event processor that scrubs message, stack, frames, metadata, user, tags, contexts and breadcrumbs of every report
+ */
+export const createScrubbingProcessor = (getScrubber: () => Scrubber): EventProcessor => ({
+  name: 'scrubber',
+  process: report => getScrubber().scrubReport(report),
+})
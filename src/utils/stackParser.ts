@@ -0,0 +1,132 @@
+export interface StackFrame {
+  function?: string
+  file: string
+  /**
+   * 1-based line number; missing for native frames
+   */
+  line?: number
+  /**
+   * 1-based column number
+   */
+  column?: number
+  /**
+   * False for frames from node_modules, the monitor itself, Node internals and native code
+   */
+  inApp: boolean
+  /**
+   * Position in the original source, filled in when a source map resolved the frame
+   */
+  original?: {
+    file: string
+    line: number
+    column: number
+    function?: string
+  }
+  /**
+   * Source lines around the original position
+   */
+  context?: {
+    pre: string[]
+    line: string
+    post: string[]
+  }
+}
+
+// V8 (Node/Chrome): "    at fn (location)" or "    at location"
+const V8_LINE = /^\s*at\s+(.*)$/
+const V8_CALL = /^(.*?) \((.*)\)$/
+// V8 eval frames point into the eval'd code; the caller's location is nested inside
+const V8_EVAL = /^eval at [^(]*\((.*?)\)(?:, .*)?$/
+
+// SpiderMonkey (Firefox) and JavaScriptCore (Safari): "fn@location", "@location" or a bare location
+const GECKO_LINE = /^\s*(.*?)@(.*)$/
+// Firefox eval frames: "file line 10 > eval:1:5"
+const GECKO_EVAL = /^(.*?) line (\d+)(?: > (?:eval|Function))+.*$/
+
+const LOCATION = /^(.*?):(\d+)(?::(\d+))?$/
+const BARE_LOCATION = /^\s*((?:[a-z][a-z0-9+.-]*:\/\/|\/)\S+:\d+(?::\d+)?)\s*$/i
+
+const NOT_IN_APP_FILE = /[\\/](node_modules|bower_components)[\\/]|^(node:|internal[\\/]|native$|\[native code\]|<anonymous>$)/
+
+/**
+ * Directory of this package's own compiled files, whose frames are never in-app (Node.js only)
+ */
+const MONITOR_DIR = typeof window === 'undefined' && typeof __dirname === 'string' && __dirname.length > 1
+  ? __dirname.replace(/[\\/]utils$/, '')
+  : undefined
+
+/**
+ * Whether a frame's file belongs to the application rather than a dependency, the monitor or the runtime
+ */
+export const isInAppFile = (file: string): boolean => {
+  if (NOT_IN_APP_FILE.test(file)) return false
+  if (/[\\/]wingman-monitor[\\/]/.test(file)) return false
+  if (MONITOR_DIR && file.startsWith(MONITOR_DIR)) return false
+  return true
+}
+
+const createFrame = (fn: string | undefined, location: string): StackFrame => {
+  const match = LOCATION.exec(location)
+  const frame: StackFrame = match
+    ? { function: fn, file: match[1], line: Number(match[2]), column: match[3] ? Number(match[3]) : undefined, inApp: false }
+    : { function: fn, file: location || '<unknown>', inApp: false }
+
+  // Frames without a line number are native or runtime-provided
+  frame.inApp = frame.line !== undefined && isInAppFile(frame.file)
+  return frame
+}
+
+const parseV8Line = (line: string): StackFrame | null => {
+  const match = V8_LINE.exec(line)
+  if (!match) return null
+
+  const call = V8_CALL.exec(match[1])
+  let fn = call ? call[1] : undefined
+  let location = call ? call[2] : match[1]
+
+  const evalMatch = V8_EVAL.exec(location)
+  if (evalMatch) location = evalMatch[1]
+
+  if (fn) {
+    fn = fn.replace(/^async /, '')
+    if (fn === '<anonymous>') fn = undefined
+  }
+  return createFrame(fn, location)
+}
+
+const parseGeckoLine = (line: string): StackFrame | null => {
+  const bare = BARE_LOCATION.exec(line)
+  if (bare) return createFrame(undefined, bare[1])
+
+  if (line.trim() === '[native code]') return createFrame(undefined, '[native code]')
+
+  const match = GECKO_LINE.exec(line)
+  if (!match) return null
+
+  let location = match[2]
+  const evalMatch = GECKO_EVAL.exec(location)
+  if (evalMatch) location = `${evalMatch[1]}:${evalMatch[2]}`
+
+  const fn = match[1] && match[1] !== 'global code' ? match[1] : undefined
+  return createFrame(fn, location)
+}
+
+/**
+ * Parses a V8 (Node/Chrome), SpiderMonkey (Firefox) or JavaScriptCore (Safari) stack into frames,
+ * innermost first. Lines that are not frames, such as the leading "Error: message", are skipped.
+ */
+export const parseStack = (stack?: string): StackFrame[] => {
+  if (!stack) return []
+
+  const lines = stack.split('\n')
+  // V8 stacks start with the message, which may itself contain "@", so only "at" lines count
+  const parseLine = lines.some(line => V8_LINE.test(line)) ? parseV8Line : parseGeckoLine
+
+  const frames: StackFrame[] = []
+  for (const line of lines) {
+    if (!line.trim()) continue
+    const frame = parseLine(line)
+    if (frame) frames.push(frame)
+  }
+  return frames
+}
@@ -1,7 +1,62 @@
 import { ConfigManager } from '../config';
+import { getPlatform } from '../platform';
+
+export interface TokenReference {
+  type: 'env' | 'store';
+  name: string;
+}
+
+const TOKEN_REFERENCE = /^(env|store):(.+)$/;
+
+/**
+ * Parses an `accessToken` of the form "env:VARIABLE" or "store:name"; null for a literal token
+ */
+export function parseTokenReference(value: string): TokenReference | null {
+  const match = TOKEN_REFERENCE.exec(value);
+  return match ? { type: match[1] as TokenReference['type'], name: match[2] } : null;
+}
+
+/**
+ * Hides all but the last four characters of a token for display; short tokens are hidden entirely
+ */
+export function maskToken(token: string): string {
+  return token.length > 12 ? `${'*'.repeat(8)}${token.slice(-4)}` : '*'.repeat(8);
+}
+
+/**
+ * Resolves an `accessToken` value: "env:VARIABLE" reads the environment variable, "store:name"
+ * reads the encrypted token store in the user's config directory (Node.js only).
+ * Literal tokens are returned unchanged; references that cannot be resolved return undefined.
+ */
+export function resolveTokenReference(value?: string): string | undefined {
+  if (!value) return undefined;
+  const reference = parseTokenReference(value);
+  if (!reference) return value;
+
+  if (reference.type === 'env') {
+    const token = typeof process !== 'undefined' ? process.env?.[reference.name] : undefined;
+    if (!token) console.warn(`Wingman: accessToken refers to ${reference.name}, which is not set`);
+    return token || undefined;
+  }
+
+  const platform = getPlatform();
+  if (!platform.getStoredToken) {
+    console.warn(`Wingman: accessToken "${value}" refers to the token store, which is only available in Node.js`);
+    return undefined;
+  }
+  try {
+    const token = platform.getStoredToken(reference.name);
+    if (!token) console.warn(`Wingman: No token named "${reference.name}" in the token store; run "wingman init <accessToken> --store ${reference.name}"`);
+    return token;
+  } catch (error) {
+    console.warn(error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
 
 /**
- * Gets the stored access token from .wingman.json
+ * Gets the access token from WINGMAN_ACCESS_TOKEN, inlined config or .wingman.json,
+ * resolving env: and store: references
  */
 export async function getStoredAccessToken(): Promise<string | null> {
   try {
@@ -22,7 +77,7 @@ export async function requireAccessToken(): Promise<string> {
   
   if (!accessToken) {
     throw new Error(
-      'Wingman access token not found. Please run: npx wingman init <your-access-token>'
+      'Wingman access token not found. Please run: npx wingman init <your-access-token> or set WINGMAN_ACCESS_TOKEN'
     );
   }
   
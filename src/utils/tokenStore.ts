@@ -0,0 +1,138 @@
+/**
+ * Encrypted store of access tokens in the user's config directory (Node.js only), so
+ * .wingman.json can hold a `store:<name>` reference instead of the token itself.
+ *
+ * Tokens are encrypted with AES-256-GCM. The key is derived from WINGMAN_STORE_PASSPHRASE
+ * when it is set, otherwise it is a random key kept next to the store, readable only by the user.
+ */
+
+const STORE_FILE_NAME = 'tokens.json';
+const KEY_FILE_NAME = 'store.key';
+const STORE_VERSION = 1;
+
+interface EncryptedStoreFile {
+  version: number;
+  kdf: 'keyfile' | 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Per-user config directory: %APPDATA%\wingman on Windows, ~/Library/Application Support/wingman
+ * on macOS, $XDG_CONFIG_HOME/wingman or ~/.config/wingman elsewhere. WINGMAN_CONFIG_DIR overrides it.
+ */
+export function getUserConfigDir(): string {
+  const os = require('os');
+  const path = require('path');
+
+  if (process.env.WINGMAN_CONFIG_DIR) return process.env.WINGMAN_CONFIG_DIR;
+  if (process.platform === 'win32') {
+    return path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming'), 'wingman');
+  }
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library', 'Application Support', 'wingman');
+  }
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'wingman');
+}
+
+export class TokenStore {
+  readonly directory: string;
+
+  constructor(directory: string = getUserConfigDir()) {
+    this.directory = directory;
+  }
+
+  get filePath(): string {
+    return require('path').join(this.directory, STORE_FILE_NAME);
+  }
+
+  get(name: string): string | undefined {
+    return this.read()[name];
+  }
+
+  set(name: string, token: string): void {
+    const tokens = this.read();
+    tokens[name] = token;
+    this.write(tokens);
+  }
+
+  /**
+   * Returns false when there was no token under that name
+   */
+  delete(name: string): boolean {
+    const tokens = this.read();
+    if (!(name in tokens)) return false;
+    delete tokens[name];
+    this.write(tokens);
+    return true;
+  }
+
+  list(): string[] {
+    return Object.keys(this.read());
+  }
+
+  private read(): Record<string, string> {
+    const fs = require('fs');
+    if (!fs.existsSync(this.filePath)) return {};
+
+    const crypto = require('crypto');
+    const file: EncryptedStoreFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    if (file.version !== STORE_VERSION) {
+      throw new Error(`Wingman: Unsupported token store version ${file.version} in ${this.filePath}`);
+    }
+
+    const key = this.getKey(file.kdf, Buffer.from(file.salt, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    try {
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return JSON.parse(plaintext.toString('utf8'));
+    } catch {
+      throw new Error(`Wingman: Could not decrypt ${this.filePath}${file.kdf === 'scrypt' ? '; check WINGMAN_STORE_PASSPHRASE' : ''}`);
+    }
+  }
+
+  private write(tokens: Record<string, string>): void {
+    const fs = require('fs');
+    const crypto = require('crypto');
+
+    const kdf = process.env.WINGMAN_STORE_PASSPHRASE ? 'scrypt' : 'keyfile';
+    const salt: Buffer = crypto.randomBytes(16);
+    const iv: Buffer = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getKey(kdf, salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()]);
+
+    const file: EncryptedStoreFile = {
+      version: STORE_VERSION,
+      kdf,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    fs.mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  }
+
+  private getKey(kdf: EncryptedStoreFile['kdf'], salt: Buffer): Buffer {
+    const crypto = require('crypto');
+    if (kdf === 'scrypt') {
+      const passphrase = process.env.WINGMAN_STORE_PASSPHRASE;
+      if (!passphrase) {
+        throw new Error('Wingman: The token store is protected by a passphrase; set WINGMAN_STORE_PASSPHRASE');
+      }
+      return crypto.scryptSync(passphrase, salt, 32);
+    }
+
+    const fs = require('fs');
+    const path = require('path');
+    const keyPath = path.join(this.directory, KEY_FILE_NAME);
+    if (!fs.existsSync(keyPath)) {
+      fs.mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+      fs.writeFileSync(keyPath, crypto.randomBytes(32).toString('base64'), { mode: 0o600 });
+    }
+    return Buffer.from(fs.readFileSync(keyPath, 'utf8').trim(), 'base64');
+  }
+}
@@ -0,0 +1,122 @@
+import { NONCE_HEADER, SIGNATURE_HEADER, SIGNATURE_VERSION, TIMESTAMP_HEADER } from './signing';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Remembers nonces seen within the replay window
+ */
+export interface NonceStore {
+  has(nonce: string): boolean;
+  add(nonce: string, expiresAt: number): void;
+}
+
+/**
+ * In-process NonceStore; receivers running several instances should share one, e.g. in Redis
+ */
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, number>();
+
+  has(nonce: string): boolean {
+    const expiresAt = this.nonces.get(nonce);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  add(nonce: string, expiresAt: number): void {
+    const now = Date.now();
+    for (const [seen, expiry] of this.nonces) {
+      if (expiry <= now) this.nonces.delete(seen);
+    }
+    this.nonces.set(nonce, expiresAt);
+  }
+}
+
+export interface VerifySignatureOptions {
+  /**
+   * The exact request body as received, before JSON parsing
+   */
+  body: string | Buffer;
+  /**
+   * Request headers; names are matched case-insensitively
+   */
+  headers: Record<string, string | string[] | undefined>;
+  /**
+   * The project's access token
+   */
+  secret: string;
+  /**
+   * How far the signed timestamp may be from now
+   * @default 300
+   */
+  toleranceSeconds?: number;
+  /**
+   * Rejects nonces seen before within the tolerance window
+   */
+  nonceStore?: NonceStore;
+  /**
+   * @default Date.now()
+   */
+  now?: number;
+}
+
+export interface VerifySignatureResult {
+  valid: boolean;
+  /**
+   * Why verification failed
+   */
+  reason?: 'missing' | 'malformed' | 'expired' | 'mismatch' | 'replayed';
+}
+
+/**
+ * Verifies a signed Wingman webhook request (Node.js only). Pass the raw body, e.g. from
+ * `express.raw({ type: 'application/json' })`, since re-serialized JSON will not match.
+ */
+export function verifyWingmanSignature(options: VerifySignatureOptions): VerifySignatureResult {
+  const crypto = require('crypto');
+
+  const header = (name: string): string | undefined => {
+    const entry = Object.entries(options.headers).find(([key]) => key.toLowerCase() === name);
+    const value = entry?.[1];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const signatureHeader = header(SIGNATURE_HEADER);
+  const timestampHeader = header(TIMESTAMP_HEADER);
+  const nonce = header(NONCE_HEADER);
+  if (!signatureHeader || !timestampHeader || !nonce) {
+    return { valid: false, reason: 'missing' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  const signatures = signatureHeader.split(',')
+    .map(part => part.trim())
+    .filter(part => part.startsWith(`${SIGNATURE_VERSION}=`))
+    .map(part => part.slice(SIGNATURE_VERSION.length + 1));
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const now = options.now ?? Date.now();
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  const body = typeof options.body === 'string' ? options.body : options.body.toString('utf8');
+  const expected: Buffer = crypto.createHmac('sha256', options.secret).update(`${timestamp}.${nonce}.${body}`, 'utf8').digest();
+  const matches = signatures.some(signature => {
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+  if (!matches) {
+    return { valid: false, reason: 'mismatch' };
+  }
+
+  if (options.nonceStore) {
+    if (options.nonceStore.has(nonce)) {
+      return { valid: false, reason: 'replayed' };
+    }
+    // Past this point the timestamp check rejects the request anyway
+    options.nonceStore.add(nonce, (timestamp + toleranceSeconds) * 1000);
+  }
+  return { valid: true };
+}